@@ -1,123 +1,127 @@
 'use server'
 
-import { getActiveCasts, searchCasts } from '../../lib/utils'
+import { getActiveCasts, getAuthorCasts, searchCasts } from '../../lib/utils'
 import { enrichCastsWithMetadata, EnrichedCast } from '../../lib/cast-enrichment'
+import { getTagTaxonomy, isValidTagSlug } from '../../lib/tags'
+import { AuthorProfile, getAuthorProfile } from '../../lib/authors'
+import { CastTag, SearchFilters } from '../../lib/types'
 
-// Simple in-memory cache for enriched casts
-let enrichedCastsCache: { data: EnrichedCast[]; timestamp: number } | null = null
-const CACHE_DURATION = 10 * 60 * 1000 // 10 minutes (increased from 5)
+const FEED_PAGE_SIZE = 20
+const SEARCH_RESULT_LIMIT = 50 // Results enriched per search
 
 /**
- * Get cached casts with smart loading strategy
+ * Get the first feed page for the initial render.
+ * Metadata comes from the shared cache (lib/metadata-cache.ts), so every
+ * instance - and /api/casts - serves the same entries.
  */
 export async function getCachedCasts(): Promise<EnrichedCast[]> {
-  const now = Date.now()
-  
-  // Case 1: Fresh cache - return immediately
-  if (enrichedCastsCache && (now - enrichedCastsCache.timestamp < CACHE_DURATION)) {
-    return enrichedCastsCache.data
-  }
-  
-  // Case 2: Stale cache - return stale data, refresh in background
-  if (enrichedCastsCache && enrichedCastsCache.data.length > 0) {
-    // Start background refresh (don't await)
-    backgroundRefreshCasts()
-    return enrichedCastsCache.data
-  }
-  
-  // Case 3: No cache at all - wait for fresh data (first load)
   try {
-    const castsResponse = await getActiveCasts(1, 20)
+    const castsResponse = await getActiveCasts(1, FEED_PAGE_SIZE)
     
-    if (castsResponse.casts.length > 0) {
-      const enrichedCasts = await enrichCastsWithMetadata(castsResponse.casts)
-      
-      // Cache the results
-      enrichedCastsCache = {
-        data: enrichedCasts,
-        timestamp: now
-      }
-      
-      return enrichedCasts
+    if (castsResponse.casts.length === 0) {
+      return []
     }
     
-    return []
-    
+    return await enrichCastsWithMetadata(castsResponse.casts)
   } catch {
     return []
   }
 }
 
 /**
- * Background refresh without blocking page load
+ * Server action to refresh casts. `forceRefresh` (explicit user refresh)
+ * re-fetches metadata instead of serving cached entries.
  */
-async function backgroundRefreshCasts(): Promise<void> {
+export async function refreshCasts(forceRefresh: boolean = false): Promise<EnrichedCast[]> {
   try {
-    const castsResponse = await getActiveCasts(1, 20)
+    const castsResponse = await getActiveCasts(1, FEED_PAGE_SIZE)
     
-    if (castsResponse.casts.length > 0) {
-      const enrichedCasts = await enrichCastsWithMetadata(castsResponse.casts)
-      
-      enrichedCastsCache = {
-        data: enrichedCasts,
-        timestamp: Date.now()
-      }
+    if (castsResponse.casts.length === 0) {
+      return []
     }
+    
+    return await enrichCastsWithMetadata(castsResponse.casts, { forceRefresh })
   } catch (error) {
-    console.error('Background refresh failed:', error)
+    console.error('Failed to refresh casts:', error)
+    return []
   }
 }
 
 /**
- * Server action to refresh casts with smart caching (only for explicit user refresh)
+ * Server action to search live casts with rich metadata.
+ * Takes the public filters only - `status` is ignored here.
  */
-export async function refreshCasts(forceRefresh: boolean = false): Promise<EnrichedCast[]> {
+export async function searchCastsAction(filters: SearchFilters): Promise<EnrichedCast[]> {
   try {
-    const now = Date.now()
-    
-    // Check if we have valid cached data and don't force refresh
-    if (!forceRefresh && enrichedCastsCache && (now - enrichedCastsCache.timestamp < CACHE_DURATION)) {
-      return enrichedCastsCache.data
+    if (filters.tag && !isValidTagSlug(filters.tag)) {
+      return []
     }
-        
-    // Get basic cast data
-    const castsResponse = await getActiveCasts(1, 20)
     
-    // Enrich with metadata (only if we have casts to enrich)
-    let enrichedCasts: EnrichedCast[] = []
-    if (castsResponse.casts.length > 0) {
-      enrichedCasts = await enrichCastsWithMetadata(castsResponse.casts)
-      
-      // Cache the results
-      enrichedCastsCache = {
-        data: enrichedCasts,
-        timestamp: now
-      }
+    // Search basic cast data
+    const searchResults = await searchCasts({ ...filters, status: undefined })
+    
+    // Enrich the best matches with metadata
+    const enrichedResults = await enrichCastsWithMetadata(searchResults.slice(0, SEARCH_RESULT_LIMIT))
+
+    return enrichedResults
+  } catch (error) {
+    console.error('Failed to search casts:', error)
+    return []
+  }
+}
+
+/**
+ * Server action to get the first page of casts for a single tag
+ */
+export async function getCastsByTagAction(tag: string): Promise<EnrichedCast[]> {
+  try {
+    if (!isValidTagSlug(tag)) {
+      return []
     }
     
-    return enrichedCasts
+    const castsResponse = await getActiveCasts(1, 20, null, tag)
+    
+    if (castsResponse.casts.length === 0) {
+      return []
+    }
     
+    return await enrichCastsWithMetadata(castsResponse.casts)
   } catch (error) {
-    console.error('Failed to refresh casts:', error)
-    // Return cached data if available, otherwise empty array
-    return enrichedCastsCache?.data || []
+    console.error('Failed to get casts by tag:', error)
+    return []
   }
 }
 
 /**
- * Server action to search casts with rich metadata
+ * Server action to get an author's profile and first page of live chats.
+ * Returns null when the author has no live chats (without asking the
+ * provider) or the fid is unknown to both the provider and the feed.
  */
-export async function searchCastsAction(query: string): Promise<EnrichedCast[]> {
-  try {    
-    // Search basic cast data
-    const searchResults = await searchCasts(query, true)
+export async function getAuthorPageAction(fid: number): Promise<{ author: AuthorProfile; casts: EnrichedCast[]; total: number } | null> {
+  try {
+    const castsResponse = await getAuthorCasts(fid, 1, FEED_PAGE_SIZE)
+    if (castsResponse.total === 0) {
+      return null
+    }
+    const author = await getAuthorProfile(fid, castsResponse.casts)
+    if (!author) {
+      return null
+    }
     
-    // Enrich search results with metadata
-    const enrichedResults = await enrichCastsWithMetadata(searchResults)
-
-    return enrichedResults
+    return {
+      author,
+      casts: await enrichCastsWithMetadata(castsResponse.casts),
+      total: castsResponse.total
+    }
   } catch (error) {
-    console.error('Failed to search casts:', error)
-    return []
+    console.error('Failed to get author page:', error)
+    return null
   }
 }
+
+/**
+ * Server action to get the tag taxonomy for feed filtering
+ */
+export async function getTagsAction(): Promise<CastTag[]> {
+  return await getTagTaxonomy()
+}
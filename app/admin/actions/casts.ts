@@ -2,23 +2,54 @@
 
 import { revalidatePath } from 'next/cache'
 import { getAdminSession } from './auth'
-import { addCast, removeCast, getAllCasts } from '../../../lib/utils'
-import { StoredCast } from '../../../lib/types'
-import { enrichCastsWithMetadata, EnrichedCast } from '../../../lib/cast-enrichment'
+import { addCast, removeCast, restoreCast, purgeCast, getAllCasts, getCast, searchCasts, setCastChat, isHideReason } from '../../../lib/utils'
+import { StoredCast, CastChat, CastTag, HideReason, CastSchedule, SearchFilters, CastFeedError, CastFeedErrorCode } from '../../../lib/types'
+import { CastReference, findExistingCast, parseCastReference, toCastId } from '../../../lib/cast-identity'
+import { FarcasterCast, getFarcasterProvider } from '../../../lib/farcaster'
+import { isCastScheduled, validateCastSchedule } from '../../../lib/schedule'
+import { sendNewCastNotification } from '../../../lib/cast-notifications'
+import { createTag, deleteTag, setCastTags, isValidTagSlug } from '../../../lib/tags'
+import { pinCast, unpinCast, reorderPinnedCasts } from '../../../lib/pins'
+import { enrichCastsWithMetadata, EnrichedCast, loadCastMetadata } from '../../../lib/cast-enrichment'
 // import { logAdminAction } from '../../../lib/admin-auth'
 import { 
   sanitizeAndValidateCastHash, 
+  sanitizeAndValidateURL,
   sanitizeTextInput
 } from '../../../lib/security/input-sanitization'
 
-import { backfillCastMetadata } from '../../../lib/backfill'
-import { NeynarAPIClient } from '@neynar/nodejs-sdk'
+import { getMigrationStatus, runCastMigrations, MigrationReport, MigrationStatus } from '../../../lib/migrations'
+
+type AddCastResult = { success: boolean; error?: string; existingHash?: string }
+
+/**
+ * Refusal for a cast that is already stored, pointing the panel at the existing entry
+ */
+function duplicateCastResult(existing: StoredCast): AddCastResult {
+  return {
+    success: false,
+    error: existing.status === 'hidden'
+      ? 'This cast is already in the feed (currently hidden)'
+      : 'This cast is already in the feed',
+    existingHash: existing.hash
+  }
+}
+
+function isDuplicateCastError(error: unknown): error is CastFeedError & { details: { existing: StoredCast } } {
+  return error instanceof CastFeedError && error.code === CastFeedErrorCode.CAST_ALREADY_EXISTS
+}
 
 /**
  * Server action to add a new cast (admin only)
+ * `hash` may also be any cast URL parseCastReference understands
+ * Pass `schedule` to queue the cast for later and/or have it expire
  * Authentication is enforced by middleware and layout
  */
-export async function addCastAction(hash: string, originalUrl?: string): Promise<{ success: boolean; error?: string }> {
+export async function addCastAction(
+  hash: string,
+  originalUrl?: string,
+  schedule: CastSchedule = {}
+): Promise<AddCastResult> {
   try {
     // Get admin session (middleware ensures this exists)
     const session = await getAdminSession()
@@ -29,8 +60,18 @@ export async function addCastAction(hash: string, originalUrl?: string): Promise
       }
     }
     
+    // Share links carry a truncated hash that only resolves against casts already stored
+    const reference = parseCastReference(sanitizeTextInput(hash))
+    if (reference?.kind === 'short') {
+      const existing = await findExistingCast(reference)
+      return existing ? duplicateCastResult(existing) : {
+        success: false,
+        error: 'This link only has a shortened hash. Use Cast URL Lookup to resolve it.'
+      }
+    }
+    
     // Enhanced input sanitization and validation
-    const hashValidation = sanitizeAndValidateCastHash(hash)
+    const hashValidation = sanitizeAndValidateCastHash(reference?.hash ?? hash)
     if (!hashValidation.isValid) {
       return {
         success: false,
@@ -38,14 +79,32 @@ export async function addCastAction(hash: string, originalUrl?: string): Promise
       }
     }
     
-    // Sanitize original URL if provided
+    // Sanitize original URL if provided; a pasted URL is kept as the original
     let sanitizedOriginalUrl: string | undefined
     if (originalUrl) {
       sanitizedOriginalUrl = sanitizeTextInput(originalUrl)
+    } else if (reference && !hash.trim().startsWith('0x')) {
+      sanitizedOriginalUrl = sanitizeTextInput(hash)
     }
     
     const sanitizedHash = hashValidation.sanitized
 
+    // Hubs find casts by author, so a bare hash could never be looked up there
+    if (!getFarcasterProvider().canLookup({ hash: sanitizedHash, username: reference?.username })) {
+      return {
+        success: false,
+        error: 'The hub provider needs the cast author - add this cast from its Farcaster URL (with the username)'
+      }
+    }
+
+    const scheduleError = validateCastSchedule(schedule)
+    if (scheduleError) {
+      return {
+        success: false,
+        error: scheduleError
+      }
+    }
+
     /* Log the action
     await logAdminAction(session, 'ADD_CAST_ACTION', {
       hash: sanitizedHash,
@@ -54,7 +113,7 @@ export async function addCastAction(hash: string, originalUrl?: string): Promise
     })*/
 
     // Add the cast using sanitized values
-    const result = await addCast(sanitizedHash, session.address, undefined, sanitizedOriginalUrl)
+    const result = await addCast(sanitizedHash, session.address, undefined, sanitizedOriginalUrl, schedule)
     
     if (!result) {
       return {
@@ -67,32 +126,16 @@ export async function addCastAction(hash: string, originalUrl?: string): Promise
     revalidatePath('/admin')
     revalidatePath('/')
     
-    // Send notifications to all users with notifications enabled using Neynar
-    try {
-      const neynarApiKey = process.env.NEYNAR_API_KEY
-      if (neynarApiKey) {
-        const client = new NeynarAPIClient({ apiKey: neynarApiKey })
-        
-        await client.publishFrameNotifications({
-          targetFids: [], // Empty array = send to all users with notifications enabled
-          notification: {
-            title: '🎉 New Group Chat Added!',
-            body: 'A new Base group chat has been added to the feed. Check it out!',
-            target_url: process.env.NEXT_PUBLIC_URL || ''
-          }
-        })
-        
-        console.log(`Sent notification for new cast: ${sanitizedHash}`)
-      } else {
-        console.warn('NEYNAR_API_KEY not configured - skipping notifications')
-      }
-    } catch (notificationError) {
-      console.error('Failed to send cast notifications:', notificationError)
-      // Don't fail the cast addition if notifications fail
+    // Notify users now, unless the cast is queued - it announces itself when it goes live
+    if (!isCastScheduled(result)) {
+      await sendNewCastNotification(sanitizedHash)
     }
     
     return { success: true }
   } catch (error) {
+    if (isDuplicateCastError(error)) {
+      return duplicateCastResult(error.details.existing)
+    }
     console.error('Failed to add cast:', error)
     return {
       success: false,
@@ -105,7 +148,7 @@ export async function addCastAction(hash: string, originalUrl?: string): Promise
  * Server action to remove a cast (admin only)
  * Authentication is enforced by middleware and layout
  */
-export async function removeCastAction(hash: string): Promise<{ success: boolean; error?: string }> {
+export async function removeCastAction(hash: string, reason: HideReason): Promise<{ success: boolean; error?: string }> {
   try {
     // Get admin session (middleware ensures this exists)
     const session = await getAdminSession()
@@ -116,6 +159,13 @@ export async function removeCastAction(hash: string): Promise<{ success: boolean
       }
     }
     
+    if (!isHideReason(reason)) {
+      return {
+        success: false,
+        error: 'A valid hide reason is required'
+      }
+    }
+    
     /* Log the action
     await logAdminAction(session, 'REMOVE_CAST_ACTION', {
       hash,
@@ -123,7 +173,7 @@ export async function removeCastAction(hash: string): Promise<{ success: boolean
     })*/
     
     // Remove the cast
-    const result = await removeCast(hash)
+    const result = await removeCast(hash, reason, session.address)
     
     if (!result) {
       return {
@@ -146,6 +196,123 @@ export async function removeCastAction(hash: string): Promise<{ success: boolean
   }
 }
 
+/**
+ * Server action to restore a hidden cast (admin only)
+ * Authentication is enforced by middleware and layout
+ */
+export async function restoreCastAction(hash: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    // Get admin session (middleware ensures this exists)
+    const session = await getAdminSession()
+    if (!session) {
+      return {
+        success: false,
+        error: 'Authentication required'
+      }
+    }
+    
+    const result = await restoreCast(hash)
+    
+    if (!result) {
+      return {
+        success: false,
+        error: 'Cast not found or not hidden'
+      }
+    }
+
+    // Revalidate admin and public pages
+    revalidatePath('/admin')
+    revalidatePath('/')
+    
+    return { success: true }
+  } catch (error) {
+    console.error('Failed to restore cast:', error)
+    return {
+      success: false,
+      error: 'Failed to restore cast'
+    }
+  }
+}
+
+/**
+ * Server action to permanently delete a hidden cast (admin only)
+ * Authentication is enforced by middleware and layout
+ */
+export async function purgeCastAction(hash: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    // Get admin session (middleware ensures this exists)
+    const session = await getAdminSession()
+    if (!session) {
+      return {
+        success: false,
+        error: 'Authentication required'
+      }
+    }
+    
+    const result = await purgeCast(hash)
+    
+    if (!result) {
+      return {
+        success: false,
+        error: 'Cast not found or not hidden. Hide a cast before purging it.'
+      }
+    }
+
+    // Revalidate admin and public pages
+    revalidatePath('/admin')
+    revalidatePath('/')
+    
+    return { success: true }
+  } catch (error) {
+    console.error('Failed to purge cast:', error)
+    return {
+      success: false,
+      error: 'Failed to purge cast'
+    }
+  }
+}
+
+/**
+ * Server action to look a cast up on Farcaster again (admin only)
+ * A cast that is found has its missing flag cleared; one that is still
+ * missing counts a miss, so it may be auto-hidden. `available` is false when
+ * the cast was not returned, whether missing or Farcaster was unreachable
+ * Authentication is enforced by middleware and layout
+ */
+export async function recheckCastAction(hash: string): Promise<{ success: boolean; available?: boolean; error?: string }> {
+  try {
+    // Get admin session (middleware ensures this exists)
+    const session = await getAdminSession()
+    if (!session) {
+      return {
+        success: false,
+        error: 'Authentication required'
+      }
+    }
+    
+    const cast = await getCast(hash)
+    if (!cast) {
+      return {
+        success: false,
+        error: 'Cast not found'
+      }
+    }
+    
+    const fetched = await loadCastMetadata([cast])
+
+    revalidatePath('/admin')
+    revalidatePath('/')
+    
+    return { success: true, available: fetched.has(cast.hash) }
+  } catch (error) {
+    console.error('Failed to recheck cast:', error)
+    return {
+      success: false,
+      error: 'Failed to recheck cast'
+    }
+  }
+}
+
 /**
  * Server action to get all casts for admin view
  * Authentication is enforced by middleware and layout
@@ -177,7 +344,7 @@ export async function getAdminCasts(): Promise<StoredCast[]> {
  * Server action to add a cast from lookup results
  * Authentication is enforced by middleware and layout
  */
-export async function addCastFromLookup(hash: string, originalUrl: string): Promise<{ success: boolean; error?: string }> {
+export async function addCastFromLookup(hash: string, originalUrl: string): Promise<AddCastResult> {
   try {
     // Get admin session (middleware ensures this exists)
     const session = await getAdminSession()
@@ -217,32 +384,14 @@ export async function addCastFromLookup(hash: string, originalUrl: string): Prom
     revalidatePath('/admin')
     revalidatePath('/')
     
-    // Send notifications to all users with notifications enabled using Neynar
-    try {
-      const neynarApiKey = process.env.NEYNAR_API_KEY
-      if (neynarApiKey) {
-        const client = new NeynarAPIClient({ apiKey: neynarApiKey })
-        
-        await client.publishFrameNotifications({
-          targetFids: [], // Empty array = send to all users with notifications enabled
-          notification: {
-            title: '🎉 New Group Chat Added!',
-            body: 'A new Base group chat has been added to the feed. Check it out!',
-            target_url: process.env.NEXT_PUBLIC_URL || ''
-          }
-        })
-        
-        console.log(`Sent notification for new cast: ${hash}`)
-      } else {
-        console.warn('NEYNAR_API_KEY not configured - skipping notifications')
-      }
-    } catch (notificationError) {
-      console.error('Failed to send cast notifications:', notificationError)
-      // Don't fail the cast addition if notifications fail
-    }
+    // Send notifications to all users with notifications enabled
+    await sendNewCastNotification(hash)
     
     return { success: true }
   } catch (error) {
+    if (isDuplicateCastError(error)) {
+      return duplicateCastResult(error.details.existing)
+    }
     console.error('Failed to add cast from lookup:', error)
     return {
       success: false,
@@ -284,6 +433,32 @@ export async function refreshAdminData(): Promise<EnrichedCast[]> {
   }
 }
 
+/**
+ * Server action to search every cast, hidden ones included, with SearchFilters
+ * Authentication is enforced by middleware and layout
+ */
+export async function searchAdminCastsAction(filters: SearchFilters): Promise<EnrichedCast[]> {
+  try {
+    // Get admin session (middleware ensures this exists)
+    const session = await getAdminSession()
+    if (!session) {
+      return []
+    }
+
+    if (filters.tag && !isValidTagSlug(filters.tag)) {
+      return []
+    }
+
+    // Unset status means live casts only; the admin list defaults to everything
+    const results = await searchCasts({ ...filters, status: filters.status ?? 'all' })
+
+    return await enrichCastsWithMetadata(results)
+  } catch (error) {
+    console.error('Failed to search admin casts:', error)
+    return []
+  }
+}
+
 /**
  * Server action to lookup cast information by URL
  * Handles both Coinbase wallet URLs and Farcaster URLs
@@ -309,9 +484,82 @@ interface LookupCastResult {
   };
   hash?: string;
   originalUrl?: string;
+  existing?: {                 // Set when the resolved cast is already stored
+    hash: string;
+    status: StoredCast['status'];
+    addedAt: number;
+    addedBy: string;
+  };
   error?: string;
 }
 
+/**
+ * Summary of the stored cast a lookup resolved to, if any
+ */
+async function describeExistingCast(hash: string): Promise<LookupCastResult['existing']> {
+  const existing = await findExistingCast(hash)
+  return existing
+    ? { hash: existing.hash, status: existing.status, addedAt: existing.addedAt, addedBy: existing.addedBy }
+    : undefined
+}
+
+/**
+ * Successful lookup result in the shape the admin panel renders
+ */
+async function lookupSuccess(cast: FarcasterCast, originalUrl?: string): Promise<LookupCastResult> {
+  return {
+    success: true,
+    cast: {
+      hash: cast.hash,
+      text: cast.text,
+      author: {
+        display_name: cast.author.displayName,
+        username: cast.author.username,
+        fid: cast.author.fid,
+        pfp_url: cast.author.pfpUrl
+      },
+      reactions: {
+        likes_count: cast.reactions.likes,
+        recasts_count: cast.reactions.recasts
+      },
+      timestamp: new Date(cast.timestamp).toISOString(),
+      embeds: cast.embeds
+    },
+    hash: cast.hash,
+    originalUrl,
+    existing: await describeExistingCast(cast.hash)
+  }
+}
+
+/**
+ * Resolve any reference parseCastReference understands to its Farcaster cast.
+ * Full hashes are looked up directly (hubs use the URL's username to find the
+ * author). Short hashes from share links match a stored cast first, then go
+ * to the provider's URL lookup with the username from the link. Resolves to
+ * null when the reference cannot be resolved.
+ */
+async function findReferencedCast(reference: CastReference): Promise<FarcasterCast | null> {
+  const provider = getFarcasterProvider()
+
+  if (reference.kind === 'hash') {
+    const id = { hash: reference.hash, username: reference.username }
+    return provider.canLookup(id) ? await provider.getCast(id) : null
+  }
+
+  const existing = await findExistingCast(reference)
+  if (existing) {
+    const id = toCastId(existing)
+    if (provider.canLookup(id)) {
+      return await provider.getCast(id)
+    }
+  }
+
+  if (reference.username) {
+    return await provider.getCastByUrl(`https://farcaster.xyz/${reference.username}/${reference.prefix}`)
+  }
+  return null
+}
+
 export async function lookupCastByUrl(url: string): Promise<LookupCastResult> {
   try {
     // Get admin session (middleware ensures this exists)
@@ -337,144 +585,341 @@ export async function lookupCastByUrl(url: string): Promise<LookupCastResult> {
       timestamp: Date.now()
     })*/
 
-    // Initialize Neynar API key
-    const neynarApiKey = process.env.NEYNAR_API_KEY
-    if (!neynarApiKey) {
+    const reference = parseCastReference(url)
+    if (!reference) {
+      return {
+        success: false,
+        error: 'Please enter a cast hash, a Coinbase wallet URL (wallet.coinbase.com/post/...) or a Farcaster URL'
+      }
+    }
+
+    const cast = await findReferencedCast(reference)
+    if (!cast) {
       return {
         success: false,
-        error: 'Neynar API key not configured'
+        error: reference.username
+          ? 'Cast not found'
+          : 'Could not find this cast. Paste its Farcaster URL (with the username) instead.'
       }
     }
 
-    let castHash: string
-    const originalUrl = url
+    // Only pasted URLs are kept as the original; a bare hash has nothing to keep
+    return await lookupSuccess(cast, url.trim().startsWith('0x') ? undefined : url)
+
+  } catch (error) {
+    console.error('Failed to lookup cast:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to lookup cast'
+    }
+  }
+}
+
+/**
+ * Server action to get the schema version breakdown of stored casts (admin only)
+ * Authentication is enforced by middleware and layout
+ */
+export async function getMigrationStatusAction(): Promise<{ success: boolean; status?: MigrationStatus; error?: string }> {
+  try {
+    // Get admin session (middleware ensures this exists)
+    const session = await getAdminSession()
+    if (!session) {
+      return {
+        success: false,
+        error: 'Authentication required'
+      }
+    }
     
-    // Handle different URL formats
-    if (url.includes('wallet.coinbase.com/post/')) {
-      // Extract hash from coinbase URL: https://wallet.coinbase.com/post/0x...
-      const match = url.match(/\/post\/(0x[a-fA-F0-9]+)$/)
-      if (!match) {
-        return {
-          success: false,
-          error: 'Invalid Coinbase wallet URL format'
-        }
+    return { success: true, status: await getMigrationStatus() }
+  } catch (error) {
+    console.error('Failed to get migration status:', error)
+    return {
+      success: false,
+      error: 'Failed to get migration status'
+    }
+  }
+}
+
+/**
+ * Server action to run pending StoredCast migrations (admin only)
+ * With dryRun nothing is written - the report shows what would change
+ * Authentication is enforced by middleware and layout
+ */
+export async function runMigrationsAction(dryRun: boolean): Promise<{ success: boolean; report?: MigrationReport; error?: string }> {
+  try {
+    // Get admin session (middleware ensures this exists)
+    const session = await getAdminSession()
+    if (!session) {
+      return {
+        success: false,
+        error: 'Authentication required'
       }
-      castHash = match[1]
-      
-      // Try to lookup by hash directly first
-      try {
-        const hashResponse = await fetch(`https://api.neynar.com/v2/farcaster/cast?identifier=${castHash}&type=hash`, {
-          method: 'GET',
-          headers: {
-            'x-api-key': neynarApiKey,
-            'Content-Type': 'application/json'
-          }
-        })
-        
-        if (hashResponse.ok) {
-          const hashData = await hashResponse.json()
-          if (hashData.cast) {
-            return {
-              success: true,
-              cast: hashData.cast,
-              hash: hashData.cast.hash,
-              originalUrl: originalUrl // Store original coinbase URL
-            }
-          }
-        }
-      } catch {
-        console.log('Hash lookup failed, trying truncated hash approach...')
-      }
-      
-      // If direct hash lookup fails, try truncated hash approach
-      // Truncate to first 10 characters (0x + 8 hex chars)
-      const truncatedHash = castHash.substring(0, 10)
-      
-      // We need the username - try a few common approaches
-      const commonUsernames = ['thebaron', 'webb3fitty', 'quigs'] // Based on your admin list
-      
-      for (const username of commonUsernames) {
-        try {
-          const farcasterUrl = `https://farcaster.xyz/${username}/${truncatedHash}`
-          const response = await fetch(`https://api.neynar.com/v2/farcaster/cast?identifier=${farcasterUrl}&type=url`, {
-            method: 'GET',
-            headers: {
-              'x-api-key': neynarApiKey,
-              'Content-Type': 'application/json'
-            }
-          })
-          
-          if (response.ok) {
-            const data = await response.json()
-            if (data.cast) {
-              return {
-                success: true,
-                cast: data.cast,
-                hash: data.cast.hash,
-                originalUrl: originalUrl // Store original coinbase URL
-              }
-            }
-          }
-        } catch {
-          continue // Try next username
-        }
+    }
+    
+    /* Log the action
+    await logAdminAction(session, 'RUN_MIGRATIONS', {
+      dryRun,
+      timestamp: Date.now()
+    })*/
+    
+    const report = await runCastMigrations({ dryRun: dryRun !== false })
+    
+    if (!report.dryRun) {
+      // Revalidate admin and public pages
+      revalidatePath('/admin')
+      revalidatePath('/')
+    }
+    
+    return { success: true, report }
+  } catch (error) {
+    console.error('Failed to run migrations:', error)
+    return {
+      success: false,
+      error: 'Failed to run migrations'
+    }
+  }
+}
+
+/**
+ * Server action to add a tag to the taxonomy
+ * Authentication is enforced by middleware and layout
+ */
+export async function createTagAction(label: string): Promise<{ success: boolean; tag?: CastTag; error?: string }> {
+  try {
+    // Get admin session (middleware ensures this exists)
+    const session = await getAdminSession()
+    if (!session) {
+      return {
+        success: false,
+        error: 'Authentication required'
+      }
+    }
+    
+    const sanitizedLabel = sanitizeTextInput(label).substring(0, 32)
+    const result = await createTag(sanitizedLabel)
+    
+    if (result.success) {
+      revalidatePath('/admin')
+      revalidatePath('/')
+    }
+    
+    return result
+  } catch (error) {
+    console.error('Failed to create tag:', error)
+    return {
+      success: false,
+      error: 'Failed to create tag'
+    }
+  }
+}
+
+/**
+ * Server action to remove a tag from the taxonomy and all casts
+ * Authentication is enforced by middleware and layout
+ */
+export async function deleteTagAction(slug: string): Promise<{ success: boolean; error?: string }> {
+  try {
+    // Get admin session (middleware ensures this exists)
+    const session = await getAdminSession()
+    if (!session) {
+      return {
+        success: false,
+        error: 'Authentication required'
       }
-      
+    }
+    
+    if (!isValidTagSlug(slug)) {
       return {
         success: false,
-        error: 'Could not find cast. Please provide the Farcaster username or try the full Farcaster URL.'
+        error: 'Invalid tag'
       }
-      
-    } else if (url.includes('farcaster.xyz') || url.includes('warpcast.com')) {
-      // Handle standard Farcaster URLs
-      const response = await fetch(`https://api.neynar.com/v2/farcaster/cast?identifier=${url}&type=url`, {
-        method: 'GET',
-        headers: {
-          'x-api-key': neynarApiKey,
-          'Content-Type': 'application/json'
-        }
-      })
+    }
+    
+    const result = await deleteTag(slug)
+    
+    if (!result) {
+      return {
+        success: false,
+        error: 'Tag not found'
+      }
+    }
+    
+    revalidatePath('/admin')
+    revalidatePath('/')
+    
+    return { success: true }
+  } catch (error) {
+    console.error('Failed to delete tag:', error)
+    return {
+      success: false,
+      error: 'Failed to delete tag'
+    }
+  }
+}
 
-      if (!response.ok) {
-        throw new Error(`API request failed: ${response.status}`)
+/**
+ * Server action to set the tags on a cast
+ * Authentication is enforced by middleware and layout
+ */
+export async function setCastTagsAction(hash: string, tags: string[]): Promise<{ success: boolean; error?: string }> {
+  try {
+    // Get admin session (middleware ensures this exists)
+    const session = await getAdminSession()
+    if (!session) {
+      return {
+        success: false,
+        error: 'Authentication required'
+      }
+    }
+    
+    const hashValidation = sanitizeAndValidateCastHash(hash)
+    if (!hashValidation.isValid) {
+      return {
+        success: false,
+        error: hashValidation.error || 'Invalid cast hash format'
+      }
+    }
+    
+    if (!tags.every(isValidTagSlug)) {
+      return {
+        success: false,
+        error: 'Invalid tag'
+      }
+    }
+    
+    const result = await setCastTags(hashValidation.sanitized, tags)
+    
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error || 'Failed to update tags'
       }
+    }
+    
+    revalidatePath('/admin')
+    revalidatePath('/')
+    
+    return { success: true }
+  } catch (error) {
+    console.error('Failed to set cast tags:', error)
+    return {
+      success: false,
+      error: 'Failed to update tags'
+    }
+  }
+}
 
-      const data = await response.json()
-      
-      if (!data.cast) {
+/**
+ * Server action to set or clear the chat section on a cast
+ * Passing null drops the admin edit and goes back to the extracted chat
+ * Authentication is enforced by middleware and layout
+ */
+export async function setCastChatAction(
+  hash: string,
+  chat: Omit<CastChat, 'source'> | null
+): Promise<{ success: boolean; chat?: CastChat; error?: string }> {
+  try {
+    // Get admin session (middleware ensures this exists)
+    const session = await getAdminSession()
+    if (!session) {
+      return {
+        success: false,
+        error: 'Authentication required'
+      }
+    }
+    
+    const hashValidation = sanitizeAndValidateCastHash(hash)
+    if (!hashValidation.isValid) {
+      return {
+        success: false,
+        error: hashValidation.error || 'Invalid cast hash format'
+      }
+    }
+    
+    let inviteUrl: string | undefined
+    if (chat?.inviteUrl) {
+      const urlValidation = sanitizeAndValidateURL(chat.inviteUrl)
+      if (!urlValidation.isValid) {
         return {
           success: false,
-          error: 'Cast not found'
+          error: urlValidation.error || 'Invalid invite link'
         }
       }
+      inviteUrl = urlValidation.sanitized
+    }
+    
+    const result = await setCastChat(hashValidation.sanitized, chat && { ...chat, inviteUrl })
+    
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error || 'Failed to update chat'
+      }
+    }
+    
+    revalidatePath('/admin')
+    revalidatePath('/')
+    
+    return { success: true, chat: result.cast?.chat }
+  } catch (error) {
+    console.error('Failed to set cast chat:', error)
+    return {
+      success: false,
+      error: 'Failed to update chat'
+    }
+  }
+}
 
+/**
+ * Server action to pin a cast to the featured section (admin only)
+ * Authentication is enforced by middleware and layout
+ */
+export async function pinCastAction(hash: string): Promise<{ success: boolean; pins?: string[]; error?: string }> {
+  try {
+    // Get admin session (middleware ensures this exists)
+    const session = await getAdminSession()
+    if (!session) {
+      return {
+        success: false,
+        error: 'Authentication required'
+      }
+    }
+    
+    const hashValidation = sanitizeAndValidateCastHash(hash)
+    if (!hashValidation.isValid) {
       return {
-        success: true,
-        cast: data.cast,
-        hash: data.cast.hash,
-        originalUrl: url
+        success: false,
+        error: hashValidation.error || 'Invalid cast hash format'
       }
-    } else {
+    }
+    
+    const result = await pinCast(hashValidation.sanitized)
+    
+    if (!result.success) {
       return {
         success: false,
-        error: 'Please enter a valid Coinbase wallet URL (wallet.coinbase.com/post/...) or Farcaster URL'
+        error: result.error || 'Failed to pin cast'
       }
     }
-
+    
+    revalidatePath('/admin')
+    revalidatePath('/')
+    
+    return { success: true, pins: result.pins }
   } catch (error) {
-    console.error('Failed to lookup cast:', error)
+    console.error('Failed to pin cast:', error)
     return {
       success: false,
-      error: error instanceof Error ? error.message : 'Failed to lookup cast'
+      error: 'Failed to pin cast'
     }
   }
 }
 
 /**
- * Server action to backfill metadata for existing casts
+ * Server action to unpin a featured cast (admin only)
  * Authentication is enforced by middleware and layout
  */
-export async function backfillMetadataAction(): Promise<{ success: boolean; updated?: number; errors?: number; error?: string }> {
+export async function unpinCastAction(hash: string): Promise<{ success: boolean; pins?: string[]; error?: string }> {
   try {
     // Get admin session (middleware ensures this exists)
     const session = await getAdminSession()
@@ -485,35 +930,81 @@ export async function backfillMetadataAction(): Promise<{ success: boolean; upda
       }
     }
     
-    /* Log the action
-    await logAdminAction(session, 'BACKFILL_METADATA', {
-      timestamp: Date.now()
-    })*/
+    const hashValidation = sanitizeAndValidateCastHash(hash)
+    if (!hashValidation.isValid) {
+      return {
+        success: false,
+        error: hashValidation.error || 'Invalid cast hash format'
+      }
+    }
     
-    // Run the backfill
-    const result = await backfillCastMetadata()
+    const result = await unpinCast(hashValidation.sanitized)
     
-    if (result.success) {
-      // Revalidate admin and public pages
-      revalidatePath('/admin')
-      revalidatePath('/')
-      
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error || 'Failed to unpin cast'
+      }
+    }
+    
+    revalidatePath('/admin')
+    revalidatePath('/')
+    
+    return { success: true, pins: result.pins }
+  } catch (error) {
+    console.error('Failed to unpin cast:', error)
+    return {
+      success: false,
+      error: 'Failed to unpin cast'
+    }
+  }
+}
+
+/**
+ * Server action to save the curated order of pinned casts (admin only)
+ * Authentication is enforced by middleware and layout
+ */
+export async function reorderPinnedCastsAction(hashes: string[]): Promise<{ success: boolean; pins?: string[]; error?: string }> {
+  try {
+    // Get admin session (middleware ensures this exists)
+    const session = await getAdminSession()
+    if (!session) {
       return {
-        success: true,
-        updated: result.updated,
-        errors: result.errors
+        success: false,
+        error: 'Authentication required'
+      }
+    }
+    
+    const sanitizedHashes: string[] = []
+    for (const hash of hashes) {
+      const hashValidation = sanitizeAndValidateCastHash(hash)
+      if (!hashValidation.isValid) {
+        return {
+          success: false,
+          error: hashValidation.error || 'Invalid cast hash format'
+        }
       }
-    } else {
+      sanitizedHashes.push(hashValidation.sanitized)
+    }
+    
+    const result = await reorderPinnedCasts(sanitizedHashes)
+    
+    if (!result.success) {
       return {
         success: false,
-        error: 'Backfill process failed'
+        error: result.error || 'Failed to reorder pinned casts'
       }
     }
+    
+    revalidatePath('/admin')
+    revalidatePath('/')
+    
+    return { success: true, pins: result.pins }
   } catch (error) {
-    console.error('Failed to run backfill:', error)
+    console.error('Failed to reorder pinned casts:', error)
     return {
       success: false,
-      error: 'Failed to run backfill'
+      error: 'Failed to reorder pinned casts'
     }
   }
 }
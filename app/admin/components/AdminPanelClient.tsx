@@ -1,23 +1,74 @@
 'use client'
 
-import { useState, useTransition } from 'react'
-import { AdminSession } from '../../../lib/types'
+import { useState, useTransition, useEffect } from 'react'
+import { AdminSession, CastChat, CastTag, HideReason } from '../../../lib/types'
+import { MigrationStatus } from '../../../lib/migrations'
+import { HIDE_REASON_LABELS } from '../../../lib/utils'
+import { hasActiveFilters } from '../../../lib/search-filters'
 import { EnrichedCast } from '../../../lib/cast-enrichment'
 import { Button } from '../../components/ui/Button'
 import { Input } from '../../components/ui/Input'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../components/ui/Card'
 import { CastCard } from '../../components/CastCard'
-import { addCastAction, removeCastAction, refreshAdminData, lookupCastByUrl, addCastFromLookup } from '../actions/casts'
+import { SearchFilterFields, SearchFilterValues } from '../../components/SearchFilterFields'
+import { TagManager } from './TagManager'
+import { CastTagEditor } from './CastTagEditor'
+import { CastChatEditor } from './CastChatEditor'
+import { HideReasonDialog } from './HideReasonDialog'
+import { PinnedCastsManager } from './PinnedCastsManager'
+import { BrokenCastsQueue } from './BrokenCastsQueue'
+import { MigrationRunner } from './MigrationRunner'
+import { CastImport } from './CastImport'
+import { CastExport } from './CastExport'
+import { BackupRestore } from './BackupRestore'
+import {
+  addCastAction,
+  removeCastAction,
+  restoreCastAction,
+  purgeCastAction,
+  recheckCastAction,
+  refreshAdminData,
+  lookupCastByUrl,
+  addCastFromLookup,
+  createTagAction,
+  deleteTagAction,
+  setCastTagsAction,
+  setCastChatAction,
+  pinCastAction,
+  unpinCastAction,
+  reorderPinnedCastsAction,
+  searchAdminCastsAction
+} from '../actions/casts'
 import { logoutAdmin } from '../actions/auth'
 
 interface AdminPanelClientProps {
   initialCasts: EnrichedCast[]
+  initialTags: CastTag[]
+  initialPins: string[]
+  initialMigrationStatus: MigrationStatus
   session: AdminSession
 }
 
-export function AdminPanelClient({ initialCasts, session }: AdminPanelClientProps) {
+export function AdminPanelClient({
+  initialCasts,
+  initialTags,
+  initialPins,
+  initialMigrationStatus,
+  session
+}: AdminPanelClientProps) {
   const [casts, setCasts] = useState<EnrichedCast[]>(initialCasts)
+  const [tags, setTags] = useState<CastTag[]>(initialTags)
+  const [pins, setPins] = useState<string[]>(initialPins)
+  const [statusFilter, setStatusFilter] = useState<'all' | 'active' | 'hidden'>('all')
+  const [reasonFilter, setReasonFilter] = useState<HideReason | 'all'>('all')
+  const [searchQuery, setSearchQuery] = useState('')
+  const [searchFilters, setSearchFilters] = useState<SearchFilterValues>({})
+  // Server search results; null while no query or filter (beyond status) is set
+  const [searchResults, setSearchResults] = useState<EnrichedCast[] | null>(null)
+  const [pendingRemoval, setPendingRemoval] = useState<string | null>(null)
   const [newCastHash, setNewCastHash] = useState('')
+  const [newCastPublishAt, setNewCastPublishAt] = useState('')
+  const [newCastExpiresAt, setNewCastExpiresAt] = useState('')
   const [castUrl, setCastUrl] = useState('')
   type LookupResult = {
     success: boolean
@@ -34,10 +85,18 @@ export function AdminPanelClient({ initialCasts, session }: AdminPanelClientProp
         recasts_count?: number
       }
     }
+    existing?: {
+      hash: string
+      status: 'active' | 'hidden'
+      addedAt: number
+      addedBy: string
+    }
     error?: string
   } | null
 
   const [lookupResult, setLookupResult] = useState<LookupResult>(null)
+  // Stored cast an add was refused for, shown so the admin can act on it instead
+  const [duplicateHash, setDuplicateHash] = useState<string | null>(null)
   const [error, setError] = useState<string | null>(null)
   const [success, setSuccess] = useState<string | null>(null)
   const [isPending, startTransition] = useTransition()
@@ -53,17 +112,25 @@ export function AdminPanelClient({ initialCasts, session }: AdminPanelClientProp
       try {
         setError(null)
         setSuccess(null)
+        setDuplicateHash(null)
+        
+        // datetime-local values are in the admin's local timezone
+        const publishAt = newCastPublishAt ? new Date(newCastPublishAt).getTime() : undefined
+        const expiresAt = newCastExpiresAt ? new Date(newCastExpiresAt).getTime() : undefined
         
-        const result = await addCastAction(newCastHash.trim())
+        const result = await addCastAction(newCastHash.trim(), undefined, { publishAt, expiresAt })
         
         if (result.success) {
           setNewCastHash('')
-          setSuccess('Cast added successfully!')
+          setNewCastPublishAt('')
+          setNewCastExpiresAt('')
+          setSuccess(publishAt && publishAt > Date.now() ? 'Cast scheduled successfully!' : 'Cast added successfully!')
           // Refresh data
           const freshCasts = await refreshAdminData()
           setCasts(freshCasts)
         } else {
           setError(result.error || 'Failed to add cast')
+          setDuplicateHash(result.existingHash ?? null)
         }
       } catch (error) {
         console.error('Failed to add cast:', error)
@@ -83,6 +150,7 @@ export function AdminPanelClient({ initialCasts, session }: AdminPanelClientProp
         setError(null)
         setSuccess(null)
         setLookupResult(null)
+        setDuplicateHash(null)
         
         const result = await lookupCastByUrl(castUrl.trim())
         
@@ -93,9 +161,14 @@ export function AdminPanelClient({ initialCasts, session }: AdminPanelClientProp
               hash: result.hash,
               originalUrl: result.originalUrl,
               cast: result.cast,
+              existing: result.existing,
               error: result.error,
             })
-            setSuccess('Cast found successfully!')
+            if (result.existing) {
+              setDuplicateHash(result.existing.hash)
+            } else {
+              setSuccess('Cast found successfully!')
+            }
           } else {
             setError('Lookup succeeded but response is missing required data')
           }
@@ -115,6 +188,7 @@ export function AdminPanelClient({ initialCasts, session }: AdminPanelClientProp
         try {
           setError(null)
           setSuccess(null)
+          setDuplicateHash(null)
           
           const result = await addCastFromLookup(lookupResult.hash, lookupResult.originalUrl!)
           
@@ -127,6 +201,7 @@ export function AdminPanelClient({ initialCasts, session }: AdminPanelClientProp
             setCasts(freshCasts)
           } else {
             setError(result.error || 'Failed to add cast')
+            setDuplicateHash(result.existingHash ?? null)
           }
         } catch (error) {
           console.error('Failed to add cast from lookup:', error)
@@ -141,18 +216,19 @@ export function AdminPanelClient({ initialCasts, session }: AdminPanelClientProp
   }
 
   const handleRemoveCast = (hash: string) => {
-    if (!confirm('Are you sure you want to remove this cast?')) {
-      return
-    }
+    setPendingRemoval(hash)
+  }
 
+  const handleConfirmRemoval = (hash: string, reason: HideReason) => {
     startTransition(async () => {
       try {
         setError(null)
         setSuccess(null)
         
-        const result = await removeCastAction(hash)
+        const result = await removeCastAction(hash, reason)
         
         if (result.success) {
+          setPendingRemoval(null)
           setSuccess('Cast removed successfully!')
           // Refresh data
           const freshCasts = await refreshAdminData()
@@ -167,6 +243,215 @@ export function AdminPanelClient({ initialCasts, session }: AdminPanelClientProp
     })
   }
 
+  const handleRestoreCast = (hash: string) => {
+    startTransition(async () => {
+      try {
+        setError(null)
+        setSuccess(null)
+        
+        const result = await restoreCastAction(hash)
+        
+        if (result.success) {
+          setSuccess('Cast restored to the feed!')
+          // Refresh data
+          const freshCasts = await refreshAdminData()
+          setCasts(freshCasts)
+        } else {
+          setError(result.error || 'Failed to restore cast')
+        }
+      } catch (error) {
+        console.error('Failed to restore cast:', error)
+        setError('Failed to restore cast')
+      }
+    })
+  }
+
+  const handlePurgeCast = (hash: string) => {
+    if (!confirm('Permanently delete this cast? This cannot be undone.')) {
+      return
+    }
+
+    startTransition(async () => {
+      try {
+        setError(null)
+        setSuccess(null)
+        
+        const result = await purgeCastAction(hash)
+        
+        if (result.success) {
+          setCasts(prev => prev.filter(cast => cast.hash !== hash))
+          setSuccess('Cast permanently deleted')
+        } else {
+          setError(result.error || 'Failed to purge cast')
+        }
+      } catch (error) {
+        console.error('Failed to purge cast:', error)
+        setError('Failed to purge cast')
+      }
+    })
+  }
+
+  const handleRecheckCast = (hash: string) => {
+    startTransition(async () => {
+      try {
+        setError(null)
+        setSuccess(null)
+        
+        const result = await recheckCastAction(hash)
+        
+        if (result.success) {
+          setSuccess(result.available ? 'Cast is available on Farcaster again' : 'Cast is still unavailable on Farcaster')
+          // Refresh data
+          const freshCasts = await refreshAdminData()
+          setCasts(freshCasts)
+        } else {
+          setError(result.error || 'Failed to recheck cast')
+        }
+      } catch (error) {
+        console.error('Failed to recheck cast:', error)
+        setError('Failed to recheck cast')
+      }
+    })
+  }
+
+  const handleCreateTag = async (label: string): Promise<boolean> => {
+    setError(null)
+    setSuccess(null)
+    
+    const result = await createTagAction(label)
+    
+    if (result.success && result.tag) {
+      setTags(prev => [...prev, result.tag!])
+      setSuccess(`Tag "${result.tag.label}" created!`)
+      return true
+    }
+    
+    setError(result.error || 'Failed to create tag')
+    return false
+  }
+
+  const handleDeleteTag = (slug: string) => {
+    if (!confirm(`Delete the "${slug}" tag? It will be removed from every cast.`)) {
+      return
+    }
+
+    startTransition(async () => {
+      try {
+        setError(null)
+        setSuccess(null)
+        
+        const result = await deleteTagAction(slug)
+        
+        if (result.success) {
+          setTags(prev => prev.filter(tag => tag.slug !== slug))
+          setCasts(prev => prev.map(cast => ({
+            ...cast,
+            tags: cast.tags?.filter(tag => tag !== slug)
+          })))
+          setSuccess('Tag deleted!')
+        } else {
+          setError(result.error || 'Failed to delete tag')
+        }
+      } catch (error) {
+        console.error('Failed to delete tag:', error)
+        setError('Failed to delete tag')
+      }
+    })
+  }
+
+  const handleSetCastTags = (hash: string, castTags: string[]) => {
+    startTransition(async () => {
+      try {
+        setError(null)
+        setSuccess(null)
+        
+        const result = await setCastTagsAction(hash, castTags)
+        
+        if (result.success) {
+          setCasts(prev => prev.map(cast => (
+            cast.hash === hash ? { ...cast, tags: castTags } : cast
+          )))
+        } else {
+          setError(result.error || 'Failed to update tags')
+        }
+      } catch (error) {
+        console.error('Failed to update tags:', error)
+        setError('Failed to update tags')
+      }
+    })
+  }
+
+  const handleSetCastChat = (hash: string, chat: Omit<CastChat, 'source'> | null) => {
+    startTransition(async () => {
+      try {
+        setError(null)
+        setSuccess(null)
+        
+        const result = await setCastChatAction(hash, chat)
+        
+        if (result.success) {
+          setCasts(prev => prev.map(cast => (
+            cast.hash === hash ? { ...cast, chat: result.chat } : cast
+          )))
+          setSuccess(chat ? 'Chat details saved!' : 'Chat details reset to the cast')
+        } else {
+          setError(result.error || 'Failed to update chat')
+        }
+      } catch (error) {
+        console.error('Failed to update chat:', error)
+        setError('Failed to update chat')
+      }
+    })
+  }
+
+  const handleTogglePin = (hash: string, pinned: boolean) => {
+    startTransition(async () => {
+      try {
+        setError(null)
+        setSuccess(null)
+        
+        const result = pinned ? await pinCastAction(hash) : await unpinCastAction(hash)
+        
+        if (result.success && result.pins) {
+          setPins(result.pins)
+          setCasts(prev => prev.map(cast => (
+            cast.hash === hash ? { ...cast, pinned: pinned || undefined } : cast
+          )))
+          setSuccess(pinned ? 'Cast pinned to the featured section' : 'Cast unpinned')
+        } else {
+          setError(result.error || 'Failed to update pinned casts')
+        }
+      } catch (error) {
+        console.error('Failed to update pinned casts:', error)
+        setError('Failed to update pinned casts')
+      }
+    })
+  }
+
+  const handleReorderPins = (reordered: string[]) => {
+    const previousPins = pins
+    // Optimistic update so the dragged item stays where it was dropped
+    setPins(reordered)
+
+    startTransition(async () => {
+      try {
+        setError(null)
+        setSuccess(null)
+        
+        const result = await reorderPinnedCastsAction(reordered)
+        
+        if (!result.success) {
+          setPins(previousPins)
+          setError(result.error || 'Failed to reorder pinned casts')
+        }
+      } catch (error) {
+        console.error('Failed to reorder pinned casts:', error)
+        setPins(previousPins)
+        setError('Failed to reorder pinned casts')
+      }
+    })
+  }
+
   const handleRefresh = () => {
     startTransition(async () => {
       try {
@@ -205,62 +490,40 @@ export function AdminPanelClient({ initialCasts, session }: AdminPanelClientProp
     }
   }
 
-  const handleExportData = async () => {
-    try {
-      setError(null)
-      setSuccess(null)
-      
-      // Use the secure server-side export API
-      const response = await fetch('/api/admin/export', {
-        method: 'GET',
-        credentials: 'include', // Include session cookies
-        headers: {
-          'Accept': 'text/csv',
-        },
-      })
+  const duplicateCast = duplicateHash ? casts.find(cast => cast.hash === duplicateHash) : undefined
 
-      if (!response.ok) {
-        if (response.status === 401) {
-          setError('Authentication expired. Please refresh the page and try again.')
-          return
-        }
-        const errorData = await response.json().catch(() => ({ error: 'Export failed' }))
-        setError(errorData.error || 'Failed to export data')
-        return
-      }
+  const searching = Boolean(searchQuery.trim()) || hasActiveFilters(searchFilters)
 
-      // Get the CSV content from the secure API
-      const csvContent = await response.text()
-      
-      // Extract filename from Content-Disposition header or use default
-      const contentDisposition = response.headers.get('Content-Disposition')
-      let filename = `base-chat-feed-casts-${new Date().toISOString().split('T')[0]}.csv`
-      
-      if (contentDisposition) {
-        const filenameMatch = contentDisposition.match(/filename="?([^"]+)"?/)
-        if (filenameMatch) {
-          filename = filenameMatch[1]
-        }
+  // Debounced server search; re-runs when casts change so moderation shows up in the results
+  useEffect(() => {
+    if (!searching) {
+      setSearchResults(null)
+      return
+    }
+
+    let cancelled = false
+    const debounceTimer = setTimeout(async () => {
+      const results = await searchAdminCastsAction({ ...searchFilters, query: searchQuery, status: statusFilter })
+      if (!cancelled) {
+        setSearchResults(results)
       }
-      
-      // Create secure download
-      const blob = new Blob([csvContent], { type: 'text/csv' })
-      const url = window.URL.createObjectURL(blob)
-      const link = document.createElement('a')
-      link.href = url
-      link.download = filename
-      link.style.display = 'none'
-      document.body.appendChild(link)
-      link.click()
-      document.body.removeChild(link)
-      window.URL.revokeObjectURL(url)
-      
-      setSuccess('Data exported successfully!')
-    } catch (error) {
-      console.error('Export failed:', error)
-      setError('Failed to export data. Please try again.')
+    }, 300)
+
+    return () => {
+      cancelled = true
+      clearTimeout(debounceTimer)
     }
-  }
+  }, [searching, searchQuery, searchFilters, statusFilter, casts])
+
+  const filteredCasts = (searchResults ?? casts).filter(cast => {
+    if (statusFilter !== 'all' && cast.status !== statusFilter) {
+      return false
+    }
+    if (statusFilter === 'hidden' && reasonFilter !== 'all' && cast.hiddenReason !== reasonFilter) {
+      return false
+    }
+    return true
+  })
 
   // Clear messages after 5 seconds
   useState(() => {
@@ -313,6 +576,32 @@ export function AdminPanelClient({ initialCasts, session }: AdminPanelClientProp
         </div>
       )}
       
+      {duplicateCast && (
+        <div className="p-3 border border-border rounded-lg space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-xs sm:text-sm font-medium">Existing entry</p>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setDuplicateHash(null)}
+              className="text-xs px-2 py-1 h-auto"
+            >
+              Dismiss
+            </Button>
+          </div>
+          <CastCard
+            cast={duplicateCast}
+            onViewCast={(hash) => console.log('Viewing cast:', hash)}
+            showMetadata={true}
+            isAdmin={true}
+            onRemove={handleRemoveCast}
+            onRestore={handleRestoreCast}
+            onPurge={handlePurgeCast}
+            onTogglePin={handleTogglePin}
+          />
+        </div>
+      )}
+
       {success && (
         <div className="p-3 bg-green/10 border border-green/20 rounded-lg">
           <p className="text-xs sm:text-sm text-green break-words">{success}</p>
@@ -374,15 +663,23 @@ export function AdminPanelClient({ initialCasts, session }: AdminPanelClientProp
                     </div>
                   </div>
                   
-                  <Button
-                    onClick={handleAddFromLookup}
-                    variant="primary"
-                    size="sm"
-                    className="w-full text-xs sm:text-sm"
-                    loading={isPending}
-                  >
-                    {lookupResult?.originalUrl ? 'Add Cast with Original URL' : 'Copy Hash to Add Form'}
-                  </Button>
+                  {lookupResult.existing ? (
+                    <p className="text-[10px] sm:text-xs text-red">
+                      Already in the feed{lookupResult.existing.status === 'hidden' ? ' (hidden)' : ''} - added
+                      by <span className="font-mono break-all">{lookupResult.existing.addedBy}</span> on{' '}
+                      {new Date(lookupResult.existing.addedAt).toLocaleDateString()}
+                    </p>
+                  ) : (
+                    <Button
+                      onClick={handleAddFromLookup}
+                      variant="primary"
+                      size="sm"
+                      className="w-full text-xs sm:text-sm"
+                      loading={isPending}
+                    >
+                      {lookupResult?.originalUrl ? 'Add Cast with Original URL' : 'Copy Hash to Add Form'}
+                    </Button>
+                  )}
                 </div>
               )}
             </CardContent>
@@ -398,11 +695,36 @@ export function AdminPanelClient({ initialCasts, session }: AdminPanelClientProp
             </CardHeader>
             <CardContent className="space-y-3 sm:space-y-4">
               <Input
-                placeholder="0x1234567890abcdef..."
+                placeholder="0x1234567890abcdef... or cast URL"
                 value={newCastHash}
                 onChange={(e) => setNewCastHash(e.target.value)}
                 className="font-mono text-xs sm:text-sm"
               />
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 sm:gap-3">
+                <label className="space-y-1">
+                  <span className="text-[10px] sm:text-xs text-muted-foreground">Go live at (optional)</span>
+                  <Input
+                    type="datetime-local"
+                    value={newCastPublishAt}
+                    onChange={(e) => setNewCastPublishAt(e.target.value)}
+                    className="text-xs sm:text-sm"
+                  />
+                </label>
+                <label className="space-y-1">
+                  <span className="text-[10px] sm:text-xs text-muted-foreground">Expire at (optional)</span>
+                  <Input
+                    type="datetime-local"
+                    value={newCastExpiresAt}
+                    onChange={(e) => setNewCastExpiresAt(e.target.value)}
+                    className="text-xs sm:text-sm"
+                  />
+                </label>
+              </div>
+              {(newCastPublishAt || newCastExpiresAt) && (
+                <p className="text-[10px] sm:text-xs text-muted-foreground">
+                  Scheduled changes are applied by the hourly job, so a cast goes live or expires at the first run after the time picked (up to an hour later).
+                </p>
+              )}
               <Button
                 onClick={handleAddCast}
                 loading={isPending}
@@ -414,25 +736,47 @@ export function AdminPanelClient({ initialCasts, session }: AdminPanelClientProp
             </CardContent>
           </Card>
 
+          {/* Pinned / Featured Casts */}
+          <PinnedCastsManager
+            pins={pins}
+            casts={casts}
+            loading={isPending}
+            onReorder={handleReorderPins}
+            onUnpin={(hash) => handleTogglePin(hash, false)}
+          />
+
+          {/* Broken Chats */}
+          <BrokenCastsQueue
+            casts={casts}
+            loading={isPending}
+            onRecheck={handleRecheckCast}
+            onHide={handleRemoveCast}
+            onRestore={handleRestoreCast}
+            onPurge={handlePurgeCast}
+          />
+
+          {/* Tag Taxonomy */}
+          <TagManager
+            tags={tags}
+            loading={isPending}
+            onCreate={handleCreateTag}
+            onDelete={handleDeleteTag}
+          />
+
           {/* Export Data */}
-          <Card>
-            <CardHeader>
-              <CardTitle className="text-sm sm:text-base">Export Data</CardTitle>
-              <CardDescription className="text-xs sm:text-sm">
-                Download all cast data as CSV
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <Button
-                onClick={handleExportData}
-                variant="secondary"
-                className="w-full text-xs sm:text-sm"
-                loading={isPending}
-              >
-                Download CSV Export
-              </Button>
-            </CardContent>
-          </Card>
+          <CastExport />
+
+          {/* Import Data */}
+          <CastImport onImported={handleRefresh} />
+
+          {/* Backup & Restore */}
+          <BackupRestore onRestored={handleRefresh} />
+
+          {/* Schema Migrations */}
+          <MigrationRunner
+            initialStatus={initialMigrationStatus}
+            onMigrated={handleRefresh}
+          />
 
           {/* Stats */}
           <Card>
@@ -470,21 +814,74 @@ export function AdminPanelClient({ initialCasts, session }: AdminPanelClientProp
               </CardDescription>
             </CardHeader>
             <CardContent>
-              {casts.length === 0 ? (
+              {/* Search, Status and Reason Filters */}
+              <div className="space-y-2 mb-3 sm:mb-4">
+                <Input
+                  variant="search"
+                  placeholder="Search all casts..."
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                />
+                <SearchFilterFields
+                  value={{ ...searchFilters, status: statusFilter }}
+                  onChange={({ status, ...filters }) => {
+                    setStatusFilter(status ?? 'all')
+                    setSearchFilters(filters)
+                  }}
+                  showStatus
+                />
+                {statusFilter === 'hidden' && (
+                  <select
+                    value={reasonFilter}
+                    onChange={(e) => setReasonFilter(e.target.value as HideReason | 'all')}
+                    className="w-full rounded-md border border-border bg-input px-2 py-1 text-xs focus-ring"
+                  >
+                    <option value="all">All reasons</option>
+                    {(Object.keys(HIDE_REASON_LABELS) as HideReason[]).map((code) => (
+                      <option key={code} value={code}>
+                        {HIDE_REASON_LABELS[code]} ({casts.filter(cast => cast.status === 'hidden' && cast.hiddenReason === code).length})
+                      </option>
+                    ))}
+                  </select>
+                )}
+                {searchResults && (
+                  <p className="text-[10px] sm:text-xs text-muted-foreground">
+                    {filteredCasts.length} matching cast{filteredCasts.length === 1 ? '' : 's'}
+                  </p>
+                )}
+              </div>
+
+              {filteredCasts.length === 0 ? (
                 <div className="text-center py-6 sm:py-8">
                   <p className="text-xs sm:text-sm text-muted-foreground">No casts found</p>
                 </div>
               ) : (
                 <div className="space-y-3 sm:space-y-4 max-h-[70vh] sm:max-h-96 overflow-y-auto">
-                  {casts.map((cast) => (
-                    <CastCard
-                      key={cast.hash}
-                      cast={cast}
-                      onViewCast={(hash) => console.log('Viewing cast:', hash)}
-                      showMetadata={true}
-                      isAdmin={true}
-                      onRemove={handleRemoveCast}
-                    />
+                  {filteredCasts.map((cast) => (
+                    <div key={cast.hash} className="space-y-2">
+                      <CastCard
+                        cast={cast}
+                        onViewCast={(hash) => console.log('Viewing cast:', hash)}
+                        showMetadata={true}
+                        isAdmin={true}
+                        onRemove={handleRemoveCast}
+                        onRestore={handleRestoreCast}
+                        onPurge={handlePurgeCast}
+                        onTogglePin={handleTogglePin}
+                      />
+                      <CastTagEditor
+                        tags={tags}
+                        selected={cast.tags ?? []}
+                        disabled={isPending}
+                        onChange={(castTags) => handleSetCastTags(cast.hash, castTags)}
+                      />
+                      <CastChatEditor
+                        chat={cast.chat}
+                        disabled={isPending}
+                        onSave={(chat) => handleSetCastChat(cast.hash, chat)}
+                        onReset={() => handleSetCastChat(cast.hash, null)}
+                      />
+                    </div>
                   ))}
                 </div>
               )}
@@ -492,6 +889,13 @@ export function AdminPanelClient({ initialCasts, session }: AdminPanelClientProp
           </Card>
         </div>
       </div>
+
+      <HideReasonDialog
+        hash={pendingRemoval}
+        loading={isPending}
+        onConfirm={handleConfirmRemoval}
+        onClose={() => setPendingRemoval(null)}
+      />
     </div>
   )
 }
@@ -0,0 +1,237 @@
+'use client'
+
+import { useState } from 'react'
+import { BackupVerification, RestoreMode, RestoreReport } from '../../../lib/backup'
+import { Button } from '../../components/ui/Button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../components/ui/Card'
+
+interface BackupRestoreProps {
+  onRestored?: () => void
+}
+
+export function BackupRestore({ onRestored }: BackupRestoreProps) {
+  const [archive, setArchive] = useState<unknown>(null)
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [mode, setMode] = useState<RestoreMode>('merge')
+  const [report, setReport] = useState<RestoreReport | null>(null)
+  const [verificationErrors, setVerificationErrors] = useState<string[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  const handleDownload = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      setSuccess(null)
+
+      const response = await fetch('/api/admin/backup', {
+        method: 'GET',
+        credentials: 'include', // Include session cookies
+      })
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          setError('Authentication expired. Please refresh the page and try again.')
+          return
+        }
+        const errorData = await response.json().catch(() => ({ error: 'Backup failed' }))
+        setError(errorData.error || 'Failed to create backup')
+        return
+      }
+
+      const blob = await response.blob()
+      const contentDisposition = response.headers.get('Content-Disposition')
+      const filename = contentDisposition?.match(/filename="?([^"]+)"?/)?.[1] ?? 'base-chat-feed-backup.json'
+
+      // Create secure download
+      const url = window.URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = filename
+      link.style.display = 'none'
+      document.body.appendChild(link)
+      link.click()
+      document.body.removeChild(link)
+      window.URL.revokeObjectURL(url)
+
+      setSuccess('Backup downloaded')
+    } catch (error) {
+      console.error('Backup failed:', error)
+      setError('Failed to create backup. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleFile = async (file: File | undefined) => {
+    setArchive(null)
+    setReport(null)
+    setVerificationErrors([])
+    setError(null)
+    setSuccess(null)
+    if (!file) {
+      setFileName(null)
+      return
+    }
+
+    setFileName(file.name)
+    try {
+      setArchive(JSON.parse(await file.text()))
+    } catch {
+      setError('Backup file is not valid JSON')
+    }
+  }
+
+  const submit = async (dryRun: boolean) => {
+    if (!dryRun && !confirm(
+      mode === 'replace'
+        ? `Replace ALL app data with this backup? ${report?.deleted ?? 0} key(s) not in the backup will be deleted.`
+        : 'Merge this backup into the current data?'
+    )) {
+      return
+    }
+
+    try {
+      setLoading(true)
+      setError(null)
+      setSuccess(null)
+      setVerificationErrors([])
+
+      const response = await fetch('/api/admin/backup', {
+        method: 'POST',
+        credentials: 'include', // Include session cookies
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ archive, mode, dryRun }),
+      })
+
+      const data = await response.json().catch(() => ({ success: false, error: 'Restore failed' }))
+
+      if (!response.ok || !data.success) {
+        if (response.status === 401) {
+          setError('Authentication expired. Please refresh the page and try again.')
+          return
+        }
+        setReport(null)
+        setVerificationErrors((data.verification as BackupVerification | undefined)?.errors ?? [])
+        setError(data.verification ? 'Backup failed verification' : data.error || 'Restore failed')
+        return
+      }
+
+      setReport(data.report)
+      if (!dryRun) {
+        setSuccess('Backup restored')
+        onRestored?.()
+      }
+    } catch (error) {
+      console.error('Restore failed:', error)
+      setError('Restore failed')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm sm:text-base">Backup &amp; Restore</CardTitle>
+        <CardDescription className="text-xs sm:text-sm">
+          Snapshot casts, notification tokens, signers and rate limits in one archive
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3 sm:space-y-4">
+        <Button
+          onClick={handleDownload}
+          variant="secondary"
+          className="w-full text-xs sm:text-sm"
+          loading={loading}
+        >
+          Download Backup
+        </Button>
+
+        <input
+          type="file"
+          accept=".json,application/json"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+          className="block w-full text-xs text-muted-foreground file:mr-3 file:rounded-md file:border-0 file:bg-secondary file:px-3 file:py-1.5 file:text-xs file:text-foreground"
+        />
+
+        <div className="flex items-center justify-between gap-2">
+          <select
+            value={mode}
+            onChange={(e) => {
+              setMode(e.target.value as RestoreMode)
+              setReport(null)
+            }}
+            className="rounded-md border border-border bg-input px-2 py-1 text-xs focus-ring"
+          >
+            <option value="merge">Merge</option>
+            <option value="replace">Replace</option>
+          </select>
+          {fileName && (
+            <span className="text-[10px] sm:text-xs text-muted-foreground truncate">{fileName}</span>
+          )}
+        </div>
+
+        <div className="flex gap-2">
+          <Button
+            onClick={() => submit(true)}
+            variant="secondary"
+            size="sm"
+            loading={loading}
+            disabled={!archive}
+            className="flex-1 text-xs sm:text-sm"
+          >
+            Verify
+          </Button>
+          <Button
+            onClick={() => submit(false)}
+            variant="primary"
+            size="sm"
+            loading={loading}
+            // Restore only after a clean verification in the selected mode
+            disabled={!report || !report.dryRun || report.mode !== mode}
+            className="flex-1 text-xs sm:text-sm"
+          >
+            Restore
+          </Button>
+        </div>
+
+        {error && (
+          <p className="text-xs text-red">{error}</p>
+        )}
+        {verificationErrors.length > 0 && (
+          <ul className="max-h-40 overflow-y-auto space-y-1 text-[10px] sm:text-xs text-red">
+            {verificationErrors.map((message, index) => (
+              <li key={index}>{message}</li>
+            ))}
+          </ul>
+        )}
+        {success && (
+          <p className="text-xs text-green">{success}</p>
+        )}
+
+        {report && (
+          <div className="space-y-1 text-[10px] sm:text-xs">
+            <p>
+              {report.dryRun ? 'Verified: ' : 'Restored: '}
+              {report.verification.keyCount} key(s)
+              {report.verification.createdAt
+                ? ` from ${new Date(report.verification.createdAt).toLocaleString()}`
+                : ''}
+            </p>
+            <p className="text-muted-foreground">
+              {report.created} new · {report.updated} existing
+              {report.mode === 'replace' ? ` · ${report.deleted} deleted` : ''}
+            </p>
+            {report.warnings.map((warning, index) => (
+              <p key={index} className="text-red">{warning}</p>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
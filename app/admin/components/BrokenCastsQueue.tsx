@@ -0,0 +1,110 @@
+'use client'
+
+import { EnrichedCast } from '../../../lib/cast-enrichment'
+import { formatRelativeTime } from '../../../lib/utils'
+import { Button } from '../../components/ui/Button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../components/ui/Card'
+
+interface BrokenCastsQueueProps {
+  casts: EnrichedCast[]
+  loading?: boolean
+  onRecheck: (hash: string) => void
+  onHide: (hash: string) => void
+  onRestore: (hash: string) => void
+  onPurge: (hash: string) => void
+}
+
+/**
+ * Casts Farcaster no longer returns: flagged by enrichment, or already
+ * auto-hidden after too many consecutive misses
+ */
+export function BrokenCastsQueue({ casts, loading = false, onRecheck, onHide, onRestore, onPurge }: BrokenCastsQueueProps) {
+  const broken = casts
+    .filter(cast => cast.upstreamMissing || cast.hiddenReason === 'deleted_upstream')
+    .sort((a, b) => (b.upstreamMissing?.since ?? b.hiddenAt ?? 0) - (a.upstreamMissing?.since ?? a.hiddenAt ?? 0))
+
+  const describeStatus = (cast: EnrichedCast) => {
+    if (!cast.upstreamMissing) {
+      return 'Hidden - available on Farcaster again'
+    }
+    const misses = `${cast.upstreamMissing.misses} miss${cast.upstreamMissing.misses === 1 ? '' : 'es'} since ${formatRelativeTime(cast.upstreamMissing.since)}`
+    return cast.status === 'hidden' ? `Hidden - ${misses}` : `Still in the feed - ${misses}`
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm sm:text-base">Broken Chats</CardTitle>
+        <CardDescription className="text-xs sm:text-sm">
+          Casts Farcaster reports as deleted or unavailable
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {broken.length === 0 ? (
+          <p className="text-xs sm:text-sm text-muted-foreground">
+            No broken chats. Every cast was found on its last check.
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {broken.map(cast => (
+              <li
+                key={cast.hash}
+                className="flex items-center gap-2 p-2 rounded-md border border-border bg-secondary"
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="text-xs sm:text-sm truncate">
+                    {cast.metadata?.content?.slice(0, 60) || `${cast.hash.slice(0, 10)}...`}
+                  </p>
+                  <p className="text-[10px] sm:text-xs text-muted-foreground truncate">{describeStatus(cast)}</p>
+                </div>
+                <div className="flex items-center flex-shrink-0">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onRecheck(cast.hash)}
+                    disabled={loading}
+                    className="text-xs px-2 py-1 h-auto"
+                  >
+                    Recheck
+                  </Button>
+                  {cast.status === 'active' ? (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onHide(cast.hash)}
+                      disabled={loading}
+                      className="text-red hover:text-red hover:bg-red/10 text-xs px-2 py-1 h-auto"
+                    >
+                      Hide
+                    </Button>
+                  ) : (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => onRestore(cast.hash)}
+                        disabled={loading}
+                        className="text-xs px-2 py-1 h-auto"
+                      >
+                        Restore
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => onPurge(cast.hash)}
+                        disabled={loading}
+                        className="text-red hover:text-red hover:bg-red/10 text-xs px-2 py-1 h-auto"
+                      >
+                        Purge
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
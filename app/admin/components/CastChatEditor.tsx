@@ -0,0 +1,152 @@
+'use client'
+
+import { useState } from 'react'
+import { CastChat, ChatPlatform, ChatStatus } from '../../../lib/types'
+import { CHAT_PLATFORM_LABELS, CHAT_STATUS_LABELS, getInvitePlatform } from '../../../lib/chat-metadata'
+import { Button } from '../../components/ui/Button'
+import { Input } from '../../components/ui/Input'
+
+interface CastChatEditorProps {
+  chat?: CastChat
+  disabled?: boolean
+  onSave: (chat: Omit<CastChat, 'source'>) => void
+  onReset: () => void
+}
+
+/**
+ * Inline editor for a cast's chat section. Saving marks the chat as
+ * admin-edited; resetting goes back to the chat extracted from the cast.
+ */
+export function CastChatEditor({ chat, disabled = false, onSave, onReset }: CastChatEditorProps) {
+  const [editing, setEditing] = useState(false)
+  const [inviteUrl, setInviteUrl] = useState('')
+  const [platform, setPlatform] = useState<ChatPlatform>('farcaster')
+  const [memberCap, setMemberCap] = useState('')
+  const [status, setStatus] = useState<ChatStatus>('open')
+
+  const startEditing = () => {
+    setInviteUrl(chat?.inviteUrl ?? '')
+    setPlatform(chat?.platform ?? 'farcaster')
+    setMemberCap(chat?.memberCap?.toString() ?? '')
+    setStatus(chat?.status ?? 'open')
+    setEditing(true)
+  }
+
+  const handleInviteUrlChange = (value: string) => {
+    setInviteUrl(value)
+    const detected = getInvitePlatform(value)
+    if (detected) {
+      setPlatform(detected)
+    }
+  }
+
+  const handleSave = () => {
+    onSave({
+      inviteUrl: inviteUrl.trim() || undefined,
+      platform,
+      memberCap: memberCap.trim() ? Number(memberCap) : undefined,
+      status
+    })
+    setEditing(false)
+  }
+
+  if (!editing) {
+    return (
+      <div className="flex flex-wrap items-center gap-1.5 px-1 text-[10px] sm:text-xs text-muted-foreground">
+        <span className="mr-1">Chat:</span>
+        {chat ? (
+          <span className="truncate max-w-[60%]">
+            {CHAT_PLATFORM_LABELS[chat.platform]} · {CHAT_STATUS_LABELS[chat.status]}
+            {chat.memberCap ? ` · max ${chat.memberCap}` : ''}
+            {chat.source === 'admin' ? ' · edited' : ' · extracted'}
+          </span>
+        ) : (
+          <span>No invite link found</span>
+        )}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={startEditing}
+          disabled={disabled}
+          className="text-xs px-2 py-0.5 h-auto"
+        >
+          Edit
+        </Button>
+        {chat?.source === 'admin' && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onReset}
+            disabled={disabled}
+            className="text-xs px-2 py-0.5 h-auto"
+          >
+            Reset
+          </Button>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-2 px-1">
+      <Input
+        value={inviteUrl}
+        onChange={(e) => handleInviteUrlChange(e.target.value)}
+        placeholder="Invite link (https://...)"
+        className="text-xs"
+        disabled={disabled}
+      />
+      <div className="grid grid-cols-3 gap-2">
+        <select
+          value={platform}
+          onChange={(e) => setPlatform(e.target.value as ChatPlatform)}
+          disabled={disabled}
+          className="w-full rounded-md border border-border bg-input px-2 py-1 text-xs focus-ring"
+        >
+          {(Object.keys(CHAT_PLATFORM_LABELS) as ChatPlatform[]).map((code) => (
+            <option key={code} value={code}>{CHAT_PLATFORM_LABELS[code]}</option>
+          ))}
+        </select>
+        <select
+          value={status}
+          onChange={(e) => setStatus(e.target.value as ChatStatus)}
+          disabled={disabled}
+          className="w-full rounded-md border border-border bg-input px-2 py-1 text-xs focus-ring"
+        >
+          {(Object.keys(CHAT_STATUS_LABELS) as ChatStatus[]).map((code) => (
+            <option key={code} value={code}>{CHAT_STATUS_LABELS[code]}</option>
+          ))}
+        </select>
+        <Input
+          type="number"
+          min={1}
+          value={memberCap}
+          onChange={(e) => setMemberCap(e.target.value)}
+          placeholder="Member cap"
+          className="text-xs"
+          disabled={disabled}
+        />
+      </div>
+      <div className="flex justify-end gap-2">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setEditing(false)}
+          disabled={disabled}
+          className="text-xs px-2 py-1 h-auto"
+        >
+          Cancel
+        </Button>
+        <Button
+          variant="primary"
+          size="sm"
+          onClick={handleSave}
+          disabled={disabled}
+          className="text-xs px-2 py-1 h-auto"
+        >
+          Save Chat
+        </Button>
+      </div>
+    </div>
+  )
+}
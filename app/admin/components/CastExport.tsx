@@ -0,0 +1,182 @@
+'use client'
+
+import { useState } from 'react'
+import { ExportColumn, ExportFormat } from '../../../lib/types'
+import { DEFAULT_EXPORT_COLUMNS, EXPORT_COLUMNS, METADATA_EXPORT_COLUMNS } from '../../../lib/export'
+import { Button } from '../../components/ui/Button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../components/ui/Card'
+
+type ExportStatus = 'all' | 'active' | 'hidden'
+
+const ALL_COLUMNS = Object.keys(EXPORT_COLUMNS) as ExportColumn[]
+
+export function CastExport() {
+  const [format, setFormat] = useState<ExportFormat>('csv')
+  const [status, setStatus] = useState<ExportStatus>('all')
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [columns, setColumns] = useState<ExportColumn[]>([...DEFAULT_EXPORT_COLUMNS, ...METADATA_EXPORT_COLUMNS])
+  const [error, setError] = useState<string | null>(null)
+  const [success, setSuccess] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  const toggleColumn = (column: ExportColumn) => {
+    setColumns(current => current.includes(column)
+      ? current.filter(item => item !== column)
+      // Keep the canonical column order
+      : ALL_COLUMNS.filter(item => item === column || current.includes(item)))
+  }
+
+  const handleExport = async () => {
+    try {
+      setLoading(true)
+      setError(null)
+      setSuccess(null)
+
+      const params = new URLSearchParams({ format, status, columns: columns.join(',') })
+      if (from) {
+        params.set('from', from)
+      }
+      if (to) {
+        params.set('to', to)
+      }
+
+      // Use the secure server-side export API
+      const response = await fetch(`/api/admin/export?${params}`, {
+        method: 'GET',
+        credentials: 'include', // Include session cookies
+      })
+
+      if (!response.ok) {
+        if (response.status === 401) {
+          setError('Authentication expired. Please refresh the page and try again.')
+          return
+        }
+        const errorData = await response.json().catch(() => ({ error: 'Export failed' }))
+        setError(errorData.error || 'Failed to export data')
+        return
+      }
+
+      const blob = await response.blob()
+
+      // Extract filename from Content-Disposition header or use default
+      const contentDisposition = response.headers.get('Content-Disposition')
+      let filename = `base-chat-feed-casts-${new Date().toISOString().split('T')[0]}.${format}`
+
+      if (contentDisposition) {
+        const filenameMatch = contentDisposition.match(/filename="?([^"]+)"?/)
+        if (filenameMatch) {
+          filename = filenameMatch[1]
+        }
+      }
+
+      // Create secure download
+      const url = window.URL.createObjectURL(blob)
+      const link = document.createElement('a')
+      link.href = url
+      link.download = filename
+      link.style.display = 'none'
+      document.body.appendChild(link)
+      link.click()
+      document.body.removeChild(link)
+      window.URL.revokeObjectURL(url)
+
+      setSuccess('Data exported successfully!')
+    } catch (error) {
+      console.error('Export failed:', error)
+      setError('Failed to export data. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm sm:text-base">Export Data</CardTitle>
+        <CardDescription className="text-xs sm:text-sm">
+          Download cast data as CSV, JSON or NDJSON
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3 sm:space-y-4">
+        <div className="grid grid-cols-2 gap-2">
+          <label className="space-y-1 text-[10px] sm:text-xs text-muted-foreground">
+            <span>Format</span>
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value as ExportFormat)}
+              className="w-full rounded-md border border-border bg-input px-2 py-1 text-xs text-foreground focus-ring"
+            >
+              <option value="csv">CSV</option>
+              <option value="json">JSON</option>
+              <option value="ndjson">NDJSON</option>
+            </select>
+          </label>
+          <label className="space-y-1 text-[10px] sm:text-xs text-muted-foreground">
+            <span>Status</span>
+            <select
+              value={status}
+              onChange={(e) => setStatus(e.target.value as ExportStatus)}
+              className="w-full rounded-md border border-border bg-input px-2 py-1 text-xs text-foreground focus-ring"
+            >
+              <option value="all">All</option>
+              <option value="active">Active</option>
+              <option value="hidden">Hidden</option>
+            </select>
+          </label>
+          <label className="space-y-1 text-[10px] sm:text-xs text-muted-foreground">
+            <span>Added from</span>
+            <input
+              type="date"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              className="w-full rounded-md border border-border bg-input px-2 py-1 text-xs text-foreground focus-ring"
+            />
+          </label>
+          <label className="space-y-1 text-[10px] sm:text-xs text-muted-foreground">
+            <span>Added to</span>
+            <input
+              type="date"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              className="w-full rounded-md border border-border bg-input px-2 py-1 text-xs text-foreground focus-ring"
+            />
+          </label>
+        </div>
+
+        <fieldset className="space-y-1">
+          <legend className="text-[10px] sm:text-xs text-muted-foreground">Columns</legend>
+          <div className="grid grid-cols-2 gap-1">
+            {ALL_COLUMNS.map((column) => (
+              <label key={column} className="flex items-center gap-1.5 text-[10px] sm:text-xs">
+                <input
+                  type="checkbox"
+                  checked={columns.includes(column)}
+                  onChange={() => toggleColumn(column)}
+                />
+                {EXPORT_COLUMNS[column].label}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+
+        <Button
+          onClick={handleExport}
+          variant="secondary"
+          className="w-full text-xs sm:text-sm"
+          loading={loading}
+          disabled={columns.length === 0}
+        >
+          Download {format.toUpperCase()} Export
+        </Button>
+
+        {error && (
+          <p className="text-xs text-red">{error}</p>
+        )}
+        {success && (
+          <p className="text-xs text-green">{success}</p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
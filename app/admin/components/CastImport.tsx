@@ -0,0 +1,193 @@
+'use client'
+
+import { useState } from 'react'
+import { ImportFormat, ImportPlan, ImportRowAction } from '../../../lib/import'
+import { Button } from '../../components/ui/Button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../components/ui/Card'
+
+interface CastImportProps {
+  onImported?: () => void
+}
+
+const ACTION_STYLES: Record<ImportRowAction, string> = {
+  create: 'text-green',
+  update: 'text-base-blue',
+  skip: 'text-muted-foreground'
+}
+
+export function CastImport({ onImported }: CastImportProps) {
+  const [content, setContent] = useState('')
+  const [format, setFormat] = useState<ImportFormat>('csv')
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [plan, setPlan] = useState<ImportPlan | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) {
+      return
+    }
+    setFileName(file.name)
+    setFormat(file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv')
+    setContent(await file.text())
+    setPlan(null)
+    setError(null)
+  }
+
+  const submit = async (commit: boolean) => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await fetch('/api/admin/import', {
+        method: 'POST',
+        credentials: 'include', // Include session cookies
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ format, content, commit }),
+      })
+
+      const data = await response.json().catch(() => ({ success: false, error: 'Import failed' }))
+
+      if (!response.ok || !data.success) {
+        if (response.status === 401) {
+          setError('Authentication expired. Please refresh the page and try again.')
+          return
+        }
+        setError(data.error || 'Import failed')
+        return
+      }
+
+      setPlan(data.plan)
+      if (commit) {
+        onImported?.()
+      }
+    } catch (error) {
+      console.error('Import failed:', error)
+      setError('Import failed')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const reset = () => {
+    setContent('')
+    setFileName(null)
+    setPlan(null)
+    setError(null)
+  }
+
+  const pendingChanges = plan && !plan.committed ? plan.summary.create + plan.summary.update : 0
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm sm:text-base">Import Data</CardTitle>
+        <CardDescription className="text-xs sm:text-sm">
+          Load casts from a CSV export or JSON - preview before anything is saved
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3 sm:space-y-4">
+        <input
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          onChange={(e) => handleFile(e.target.files?.[0])}
+          className="block w-full text-xs text-muted-foreground file:mr-3 file:rounded-md file:border-0 file:bg-secondary file:px-3 file:py-1.5 file:text-xs file:text-foreground"
+        />
+        <textarea
+          value={content}
+          onChange={(e) => {
+            setContent(e.target.value)
+            setFileName(null)
+            setPlan(null)
+          }}
+          placeholder={format === 'csv' ? '"Hash","Added By","Added At","Status","Hidden Reason",...' : '[{ "hash": "0x...", "status": "active" }]'}
+          rows={4}
+          className="w-full rounded-md border border-border bg-input px-3 py-2 font-mono text-[10px] sm:text-xs placeholder:text-muted-foreground focus-ring"
+        />
+        <div className="flex items-center justify-between gap-2">
+          <select
+            value={format}
+            onChange={(e) => {
+              setFormat(e.target.value as ImportFormat)
+              setPlan(null)
+            }}
+            className="rounded-md border border-border bg-input px-2 py-1 text-xs focus-ring"
+          >
+            <option value="csv">CSV</option>
+            <option value="json">JSON</option>
+          </select>
+          {fileName && (
+            <span className="text-[10px] sm:text-xs text-muted-foreground truncate">{fileName}</span>
+          )}
+        </div>
+
+        <div className="flex gap-2">
+          <Button
+            onClick={() => submit(false)}
+            variant="secondary"
+            size="sm"
+            loading={loading}
+            disabled={!content.trim()}
+            className="flex-1 text-xs sm:text-sm"
+          >
+            Preview
+          </Button>
+          {plan && !plan.committed ? (
+            <Button
+              onClick={() => submit(true)}
+              variant="primary"
+              size="sm"
+              loading={loading}
+              disabled={pendingChanges === 0}
+              className="flex-1 text-xs sm:text-sm"
+            >
+              Import {pendingChanges} Cast{pendingChanges === 1 ? '' : 's'}
+            </Button>
+          ) : plan?.committed ? (
+            <Button
+              onClick={reset}
+              variant="ghost"
+              size="sm"
+              className="flex-1 text-xs sm:text-sm"
+            >
+              Done
+            </Button>
+          ) : null}
+        </div>
+
+        {error && (
+          <p className="text-xs text-red">{error}</p>
+        )}
+
+        {plan && (
+          <div className="space-y-2">
+            <p className="text-xs">
+              {plan.committed ? 'Imported: ' : 'Preview: '}
+              {plan.summary.create} created · {plan.summary.update} updated · {plan.summary.skip} skipped
+            </p>
+            <ul className="max-h-64 overflow-y-auto space-y-1 text-[10px] sm:text-xs">
+              {plan.rows.map((row) => (
+                <li key={row.row} className="p-2 rounded-md border border-border bg-secondary">
+                  <div className="flex justify-between gap-2">
+                    <span className="font-mono truncate">
+                      #{row.row} {row.hash ?? '(no hash)'}
+                    </span>
+                    <span className={`flex-shrink-0 ${ACTION_STYLES[row.action]}`}>{row.action}</span>
+                  </div>
+                  {row.reason && (
+                    <div className="text-muted-foreground">{row.reason}</div>
+                  )}
+                  {row.changes?.map((change, index) => (
+                    <div key={index} className="text-muted-foreground truncate">{change}</div>
+                  ))}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
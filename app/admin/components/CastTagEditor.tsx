@@ -0,0 +1,49 @@
+'use client'
+
+import { CastTag } from '../../../lib/types'
+
+interface CastTagEditorProps {
+  tags: CastTag[]
+  selected: string[]
+  disabled?: boolean
+  onChange: (tags: string[]) => void
+}
+
+export function CastTagEditor({ tags, selected, disabled = false, onChange }: CastTagEditorProps) {
+  if (tags.length === 0) {
+    return null
+  }
+
+  const toggleTag = (slug: string) => {
+    onChange(
+      selected.includes(slug)
+        ? selected.filter(tag => tag !== slug)
+        : [...selected, slug]
+    )
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 px-1">
+      <span className="text-[10px] sm:text-xs text-muted-foreground mr-1">Tags:</span>
+      {tags.map((tag) => {
+        const active = selected.includes(tag.slug)
+        return (
+          <button
+            key={tag.slug}
+            type="button"
+            onClick={() => toggleTag(tag.slug)}
+            disabled={disabled}
+            aria-pressed={active}
+            className={`px-2 py-0.5 rounded-full text-[10px] sm:text-xs border transition-colors disabled:opacity-50 ${
+              active
+                ? 'bg-base-blue text-white border-base-blue'
+                : 'bg-secondary text-muted-foreground border-border hover:text-foreground'
+            }`}
+          >
+            {tag.label}
+          </button>
+        )
+      })}
+    </div>
+  )
+}
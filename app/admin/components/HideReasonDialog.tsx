@@ -0,0 +1,90 @@
+'use client'
+
+import { useState } from 'react'
+import { HideReason } from '../../../lib/types'
+import { HIDE_REASON_LABELS } from '../../../lib/utils'
+import { Button } from '../../components/ui/Button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../components/ui/Card'
+
+interface HideReasonDialogProps {
+  hash: string | null
+  loading?: boolean
+  onConfirm: (hash: string, reason: HideReason) => void
+  onClose: () => void
+}
+
+export function HideReasonDialog({ hash, loading = false, onConfirm, onClose }: HideReasonDialogProps) {
+  const [reason, setReason] = useState<HideReason | null>(null)
+
+  if (!hash) return null
+
+  const handleClose = () => {
+    setReason(null)
+    onClose()
+  }
+
+  const handleConfirm = () => {
+    if (reason) {
+      onConfirm(hash, reason)
+      setReason(null)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+      <Card className="w-full max-w-sm bg-card border-border shadow-lg">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="text-base">Hide Cast</CardTitle>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleClose}
+              className="h-auto p-1"
+            >
+              ✕
+            </Button>
+          </div>
+          <CardDescription>
+            Why is this cast being removed from the feed?
+          </CardDescription>
+        </CardHeader>
+
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            {(Object.keys(HIDE_REASON_LABELS) as HideReason[]).map((code) => (
+              <label
+                key={code}
+                className="flex items-center space-x-2 text-sm cursor-pointer"
+              >
+                <input
+                  type="radio"
+                  name="hide-reason"
+                  value={code}
+                  checked={reason === code}
+                  onChange={() => setReason(code)}
+                />
+                <span>{HIDE_REASON_LABELS[code]}</span>
+              </label>
+            ))}
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button variant="ghost" size="sm" onClick={handleClose}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              size="sm"
+              onClick={handleConfirm}
+              disabled={!reason}
+              loading={loading}
+            >
+              Hide Cast
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
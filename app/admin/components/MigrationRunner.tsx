@@ -0,0 +1,131 @@
+'use client'
+
+import { useState, useTransition } from 'react'
+import { MigrationReport, MigrationStatus } from '../../../lib/migrations'
+import { Button } from '../../components/ui/Button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../components/ui/Card'
+import { getMigrationStatusAction, runMigrationsAction } from '../actions/casts'
+
+interface MigrationRunnerProps {
+  initialStatus: MigrationStatus
+  onMigrated?: () => void
+}
+
+const STATUS_STYLES: Record<MigrationReport['results'][number]['status'], string> = {
+  migrated: 'text-green',
+  current: 'text-muted-foreground',
+  failed: 'text-red'
+}
+
+export function MigrationRunner({ initialStatus, onMigrated }: MigrationRunnerProps) {
+  const [status, setStatus] = useState<MigrationStatus>(initialStatus)
+  const [report, setReport] = useState<MigrationReport | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [isPending, startTransition] = useTransition()
+
+  const runMigrations = (dryRun: boolean) => {
+    if (!dryRun && !confirm(`Migrate ${status.pending} cast(s) to schema v${status.currentVersion}?`)) {
+      return
+    }
+
+    startTransition(async () => {
+      setError(null)
+      const result = await runMigrationsAction(dryRun)
+      if (!result.success || !result.report) {
+        setError(result.error || 'Failed to run migrations')
+        return
+      }
+      setReport(result.report)
+
+      if (!dryRun) {
+        const refreshed = await getMigrationStatusAction()
+        if (refreshed.success && refreshed.status) {
+          setStatus(refreshed.status)
+        }
+        onMigrated?.()
+      }
+    })
+  }
+
+  // Only show records that did (or would) change or failed
+  const changedResults = report?.results.filter(result => result.status !== 'current') ?? []
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm sm:text-base">Schema Migrations</CardTitle>
+        <CardDescription className="text-xs sm:text-sm">
+          Current schema v{status.currentVersion} · {status.pending} cast(s) pending
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3 sm:space-y-4">
+        <div className="space-y-1 text-[10px] sm:text-xs text-muted-foreground">
+          {status.migrations.map((migration) => (
+            <div key={migration.version}>
+              <span className="font-mono">v{migration.version}</span> {migration.name}
+              {status.versionCounts[migration.version] ? ` · ${status.versionCounts[migration.version]} cast(s)` : ''}
+            </div>
+          ))}
+          {status.versionCounts[0] ? (
+            <div><span className="font-mono">v0</span> unversioned · {status.versionCounts[0]} cast(s)</div>
+          ) : null}
+        </div>
+
+        <div className="flex gap-2">
+          <Button
+            onClick={() => runMigrations(true)}
+            variant="secondary"
+            size="sm"
+            loading={isPending}
+            className="flex-1 text-xs sm:text-sm"
+          >
+            Dry Run
+          </Button>
+          <Button
+            onClick={() => runMigrations(false)}
+            variant="primary"
+            size="sm"
+            loading={isPending}
+            disabled={status.pending === 0}
+            className="flex-1 text-xs sm:text-sm"
+          >
+            Migrate
+          </Button>
+        </div>
+
+        {error && (
+          <p className="text-xs text-red">{error}</p>
+        )}
+
+        {report && (
+          <div className="space-y-2">
+            <p className="text-xs">
+              {report.dryRun ? 'Dry run: ' : ''}
+              {report.summary.migrated} migrated · {report.summary.current} up to date · {report.summary.failed} failed
+            </p>
+            {changedResults.length > 0 && (
+              <ul className="max-h-64 overflow-y-auto space-y-2 text-[10px] sm:text-xs">
+                {changedResults.map((result) => (
+                  <li key={result.hash} className="p-2 rounded-md border border-border bg-secondary">
+                    <div className="flex justify-between gap-2">
+                      <span className="font-mono truncate">{result.hash}</span>
+                      <span className={STATUS_STYLES[result.status]}>
+                        v{result.fromVersion} → v{result.toVersion} {result.status}
+                      </span>
+                    </div>
+                    {result.changes.map((change, index) => (
+                      <div key={index} className="text-muted-foreground">{change}</div>
+                    ))}
+                    {result.error && (
+                      <div className="text-red">{result.error}</div>
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
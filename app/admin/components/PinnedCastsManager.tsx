@@ -0,0 +1,129 @@
+'use client'
+
+import { useState } from 'react'
+import { EnrichedCast } from '../../../lib/cast-enrichment'
+import { Button } from '../../components/ui/Button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../components/ui/Card'
+
+interface PinnedCastsManagerProps {
+  pins: string[]
+  casts: EnrichedCast[]
+  loading?: boolean
+  onReorder: (pins: string[]) => void
+  onUnpin: (hash: string) => void
+}
+
+export function PinnedCastsManager({ pins, casts, loading = false, onReorder, onUnpin }: PinnedCastsManagerProps) {
+  const [draggedHash, setDraggedHash] = useState<string | null>(null)
+
+  const describeCast = (hash: string) => {
+    const cast = casts.find(item => item.hash === hash)
+    if (!cast) {
+      return { title: `${hash.slice(0, 10)}...`, subtitle: 'Cast not loaded' }
+    }
+    return {
+      title: cast.metadata?.content?.slice(0, 60) || `${hash.slice(0, 10)}...`,
+      subtitle: cast.status === 'hidden'
+        ? 'Hidden - not shown in the feed'
+        : cast.metadata?.username ? `@${cast.metadata.username}` : hash.slice(0, 10)
+    }
+  }
+
+  const moveTo = (hash: string, targetHash: string) => {
+    if (hash === targetHash) {
+      return
+    }
+    const reordered = pins.filter(pin => pin !== hash)
+    reordered.splice(reordered.indexOf(targetHash) + (pins.indexOf(hash) < pins.indexOf(targetHash) ? 1 : 0), 0, hash)
+    onReorder(reordered)
+  }
+
+  const moveBy = (hash: string, offset: number) => {
+    const index = pins.indexOf(hash)
+    const target = pins[index + offset]
+    if (target) {
+      moveTo(hash, target)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm sm:text-base">Pinned Chats</CardTitle>
+        <CardDescription className="text-xs sm:text-sm">
+          Featured above the feed - drag to reorder
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {pins.length === 0 ? (
+          <p className="text-xs sm:text-sm text-muted-foreground">
+            No pinned chats. Use &quot;Pin&quot; on a cast to feature it.
+          </p>
+        ) : (
+          <ol className="space-y-2">
+            {pins.map((hash, index) => {
+              const { title, subtitle } = describeCast(hash)
+              return (
+                <li
+                  key={hash}
+                  draggable={!loading}
+                  onDragStart={() => setDraggedHash(hash)}
+                  onDragEnd={() => setDraggedHash(null)}
+                  onDragOver={(e) => e.preventDefault()}
+                  onDrop={(e) => {
+                    e.preventDefault()
+                    if (draggedHash) {
+                      moveTo(draggedHash, hash)
+                    }
+                    setDraggedHash(null)
+                  }}
+                  className={`flex items-center gap-2 p-2 rounded-md border border-border bg-secondary cursor-move ${
+                    draggedHash === hash ? 'opacity-50' : ''
+                  }`}
+                >
+                  <span className="text-muted-foreground select-none" aria-hidden="true">⋮⋮</span>
+                  <span className="text-xs text-muted-foreground w-4">{index + 1}</span>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs sm:text-sm truncate">{title}</p>
+                    <p className="text-[10px] sm:text-xs text-muted-foreground truncate">{subtitle}</p>
+                  </div>
+                  <div className="flex items-center flex-shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => moveBy(hash, -1)}
+                      disabled={loading || index === 0}
+                      className="text-xs px-1.5 py-1 h-auto"
+                      aria-label="Move up"
+                    >
+                      ↑
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => moveBy(hash, 1)}
+                      disabled={loading || index === pins.length - 1}
+                      className="text-xs px-1.5 py-1 h-auto"
+                      aria-label="Move down"
+                    >
+                      ↓
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onUnpin(hash)}
+                      disabled={loading}
+                      className="text-red hover:text-red hover:bg-red/10 text-xs px-2 py-1 h-auto"
+                    >
+                      Unpin
+                    </Button>
+                  </div>
+                </li>
+              )
+            })}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,81 @@
+'use client'
+
+import { useState } from 'react'
+import { CastTag } from '../../../lib/types'
+import { Button } from '../../components/ui/Button'
+import { Input } from '../../components/ui/Input'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../../components/ui/Card'
+
+interface TagManagerProps {
+  tags: CastTag[]
+  loading?: boolean
+  onCreate: (label: string) => Promise<boolean>
+  onDelete: (slug: string) => void
+}
+
+export function TagManager({ tags, loading = false, onCreate, onDelete }: TagManagerProps) {
+  const [newTagLabel, setNewTagLabel] = useState('')
+
+  const handleCreate = async () => {
+    if (!newTagLabel.trim()) {
+      return
+    }
+    const created = await onCreate(newTagLabel.trim())
+    if (created) {
+      setNewTagLabel('')
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-sm sm:text-base">Tags</CardTitle>
+        <CardDescription className="text-xs sm:text-sm">
+          Topics users can filter the feed by
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3 sm:space-y-4">
+        {tags.length === 0 ? (
+          <p className="text-xs sm:text-sm text-muted-foreground">No tags yet</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {tags.map((tag) => (
+              <span
+                key={tag.slug}
+                className="inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs bg-secondary border border-border"
+              >
+                {tag.label}
+                <button
+                  type="button"
+                  onClick={() => onDelete(tag.slug)}
+                  disabled={loading}
+                  className="text-muted-foreground hover:text-red"
+                  aria-label={`Delete tag ${tag.label}`}
+                >
+                  ×
+                </button>
+              </span>
+            ))}
+          </div>
+        )}
+        <div className="flex gap-2">
+          <Input
+            placeholder="New tag name"
+            value={newTagLabel}
+            onChange={(e) => setNewTagLabel(e.target.value)}
+            className="text-xs sm:text-sm"
+          />
+          <Button
+            onClick={handleCreate}
+            variant="secondary"
+            size="sm"
+            loading={loading}
+            className="text-xs sm:text-sm flex-shrink-0"
+          >
+            Add
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -2,6 +2,9 @@
 import { getAdminSession } from './actions/auth'
 import { getAllCasts } from '../../lib/utils'
 import { enrichCastsWithMetadata } from '../../lib/cast-enrichment'
+import { getTagTaxonomy } from '../../lib/tags'
+import { getPinnedHashes } from '../../lib/pins'
+import { getMigrationStatus } from '../../lib/migrations'
 import { AdminPanelClient } from './components/AdminPanelClient'
 // import { logAdminAction } from '../../lib/admin-auth'
 
@@ -25,6 +28,9 @@ export default async function AdminPage() {
   // Fetch all casts for admin view and enrich with metadata
   const storedCasts = await getAllCasts()
   const casts = await enrichCastsWithMetadata(storedCasts)
+  const tags = await getTagTaxonomy()
+  const pins = await getPinnedHashes()
+  const migrationStatus = await getMigrationStatus()
 
   return (
     <div className="flex flex-col min-h-screen bg-background text-foreground">
@@ -38,6 +44,9 @@ export default async function AdminPage() {
         <main className="flex-1">
           <AdminPanelClient 
             initialCasts={casts}
+            initialTags={tags}
+            initialPins={pins}
+            initialMigrationStatus={migrationStatus}
             session={session}
           />
         </main>
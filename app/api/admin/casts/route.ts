@@ -2,8 +2,9 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { withAdminAuth } from '../../../../lib/admin-auth'
-import { addCast, removeCast, getAllCasts } from '../../../../lib/utils'
-import { AdminSession } from '../../../../lib/types'
+import { addCast, removeCast, restoreCast, purgeCast, getAllCasts, isHideReason } from '../../../../lib/utils'
+import { AdminSession, HideReason, CastSchedule, StoredCast, CastFeedError, CastFeedErrorCode } from '../../../../lib/types'
+import { validateCastSchedule } from '../../../../lib/schedule'
 import { 
   sanitizeAndValidateCastHash, 
   sanitizeRequestBody
@@ -113,6 +114,46 @@ export const POST = withAdminAuth(async (session: AdminSession, request: NextReq
     // Use sanitized hash
     const sanitizedHash = hashValidation.sanitized
     
+    // Optional go-live/expiry window (Unix timestamps in ms)
+    const { publishAt, expiresAt } = sanitized
+    if (
+      (publishAt !== undefined && publishAt !== null && typeof publishAt !== 'number') ||
+      (expiresAt !== undefined && expiresAt !== null && typeof expiresAt !== 'number')
+    ) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'publishAt and expiresAt must be Unix timestamps in milliseconds'
+        }),
+        {
+          status: 400,
+          headers: {
+            'Content-Type': 'application/json',
+          }
+        }
+      )
+    }
+    
+    const schedule: CastSchedule = {
+      publishAt: publishAt ?? undefined,
+      expiresAt: expiresAt ?? undefined
+    }
+    const scheduleError = validateCastSchedule(schedule)
+    if (scheduleError) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: scheduleError
+        }),
+        {
+          status: 400,
+          headers: {
+            'Content-Type': 'application/json',
+          }
+        }
+      )
+    }
+    
     /* Log admin action for audit trail
     await logAdminAction(session, 'ADD_CAST', {
       hash: sanitizedHash,
@@ -127,7 +168,28 @@ export const POST = withAdminAuth(async (session: AdminSession, request: NextReq
       timestamp: Date.now()
     }
     
-    const cast = await addCast(sanitizedHash, session.address, metadata)
+    let cast: StoredCast | null
+    try {
+      cast = await addCast(sanitizedHash, session.address, metadata, undefined, schedule)
+    } catch (error) {
+      if (error instanceof CastFeedError && error.code === CastFeedErrorCode.CAST_ALREADY_EXISTS) {
+        return new Response(
+          JSON.stringify({
+            success: false,
+            error: error.message,
+            code: error.code,
+            existing: (error.details as { existing: StoredCast }).existing
+          }),
+          {
+            status: 409,
+            headers: {
+              'Content-Type': 'application/json',
+            }
+          }
+        )
+      }
+      throw error
+    }
     
     if (!cast) {
       return new Response(
@@ -175,7 +237,7 @@ export const POST = withAdminAuth(async (session: AdminSession, request: NextReq
   }
 })
 
-// DELETE - Remove/hide cast (100% SECURE - Only authenticated admin wallets)
+// DELETE - Hide cast with a reason, or purge a hidden cast with { purge: true } (100% SECURE - Only authenticated admin wallets)
 export const DELETE = withAdminAuth(async (session: AdminSession, request: NextRequest) => {
   try {
     const rawBody = await request.json()
@@ -235,19 +297,80 @@ export const DELETE = withAdminAuth(async (session: AdminSession, request: NextR
     // Use sanitized hash
     const sanitizedHash = hashValidation.sanitized
     
+    // Optional go-live/expiry window (Unix timestamps in ms)
+    const { publishAt, expiresAt } = sanitized
+    if (
+      (publishAt !== undefined && publishAt !== null && typeof publishAt !== 'number') ||
+      (expiresAt !== undefined && expiresAt !== null && typeof expiresAt !== 'number')
+    ) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'publishAt and expiresAt must be Unix timestamps in milliseconds'
+        }),
+        {
+          status: 400,
+          headers: {
+            'Content-Type': 'application/json',
+          }
+        }
+      )
+    }
+    
+    const schedule: CastSchedule = {
+      publishAt: publishAt ?? undefined,
+      expiresAt: expiresAt ?? undefined
+    }
+    const scheduleError = validateCastSchedule(schedule)
+    if (scheduleError) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: scheduleError
+        }),
+        {
+          status: 400,
+          headers: {
+            'Content-Type': 'application/json',
+          }
+        }
+      )
+    }
+    
     /* Log admin action for audit trail
     await logAdminAction(session, 'REMOVE_CAST', {
       hash: sanitizedHash,
       timestamp: Date.now()
     })*/
     
-    const success = await removeCast(sanitizedHash)
+    const { reason, purge } = sanitized
+    
+    if (purge !== true && !isHideReason(reason)) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'A hide reason is required: spam, dead_chat, off_topic, author_request or deleted_upstream'
+        }),
+        {
+          status: 400,
+          headers: {
+            'Content-Type': 'application/json',
+          }
+        }
+      )
+    }
+    
+    const success = purge === true
+      ? await purgeCast(sanitizedHash)
+      : await removeCast(sanitizedHash, reason as HideReason, session.address)
     
     if (!success) {
       return new Response(
         JSON.stringify({
           success: false,
-          error: 'Cast not found or already removed'
+          error: purge === true
+            ? 'Cast not found or not hidden'
+            : 'Cast not found or already removed'
         }),
         {
           status: 404,
@@ -288,13 +411,116 @@ export const DELETE = withAdminAuth(async (session: AdminSession, request: NextR
   }
 })
 
+// PATCH - Restore a hidden cast to the feed (100% SECURE - Only authenticated admin wallets)
+export const PATCH = withAdminAuth(async (session: AdminSession, request: NextRequest) => {
+  try {
+    const rawBody = await request.json()
+    
+    // Enhanced input sanitization
+    const { sanitized, errors } = sanitizeRequestBody(rawBody)
+    
+    if (errors.length > 0) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Invalid request data: ' + errors.join(', ')
+        }),
+        {
+          status: 400,
+          headers: {
+            'Content-Type': 'application/json',
+          }
+        }
+      )
+    }
+    
+    const { hash, action } = sanitized
+    
+    if (action !== 'restore') {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Unsupported action. Expected "restore"'
+        }),
+        {
+          status: 400,
+          headers: {
+            'Content-Type': 'application/json',
+          }
+        }
+      )
+    }
+    
+    const hashValidation = sanitizeAndValidateCastHash(typeof hash === 'string' ? hash : '')
+    if (!hashValidation.isValid) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: hashValidation.error || 'Invalid cast hash format'
+        }),
+        {
+          status: 400,
+          headers: {
+            'Content-Type': 'application/json',
+          }
+        }
+      )
+    }
+    
+    const success = await restoreCast(hashValidation.sanitized)
+    
+    if (!success) {
+      return new Response(
+        JSON.stringify({
+          success: false,
+          error: 'Cast not found or not hidden'
+        }),
+        {
+          status: 404,
+          headers: {
+            'Content-Type': 'application/json',
+          }
+        }
+      )
+    }
+    
+    return new Response(
+      JSON.stringify({
+        success: true
+      }),
+      {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+        }
+      }
+    )
+    
+  } catch (error) {
+    console.error('Failed to restore cast:', error)
+    
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: 'Failed to restore cast'
+      }),
+      {
+        status: 500,
+        headers: {
+          'Content-Type': 'application/json',
+        }
+      }
+    )
+  }
+})
+
 // OPTIONS handler for CORS
 export async function OPTIONS() {
   return new NextResponse(null, {
     status: 200,
     headers: {
       'Access-Control-Allow-Origin': process.env.NEXT_PUBLIC_URL || '*',
-      'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+      'Access-Control-Allow-Methods': 'GET, POST, PATCH, DELETE, OPTIONS',
       'Access-Control-Allow-Headers': 'Content-Type, Authorization',
       'Access-Control-Allow-Credentials': 'true',
     },
@@ -1,12 +1,14 @@
-// 100% SECURE Admin CSV Export API - Protected by wallet signature authentication
+// 100% SECURE Admin Export API (CSV, JSON, NDJSON) - Protected by wallet signature authentication
 
-import { NextResponse } from 'next/server'
+import { NextRequest, NextResponse } from 'next/server'
 import { withAdminAuth } from '../../../../lib/admin-auth'
-import { getAllCasts, generateCSVExport, generateExportFilename } from '../../../../lib/utils'
+import { generateExportFilename } from '../../../../lib/utils'
+import { EXPORT_CONTENT_TYPES, parseExportParams, streamCastExport } from '../../../../lib/export'
 import { AdminSession } from '../../../../lib/types'
 
-// GET - Export all casts as CSV (100% SECURE - Only authenticated admin wallets)
-export const GET = withAdminAuth(async (session: AdminSession) => {
+// GET - Export casts (100% SECURE - Only authenticated admin wallets)
+// Query: format=csv|json|ndjson, status=active|hidden|all, from/to=YYYY-MM-DD, columns=hash,status,...
+export const GET = withAdminAuth(async (session: AdminSession, request: NextRequest) => {
   try {
     /* Log admin action for audit trail - this is sensitive data export
     await logAdminAction(session, 'EXPORT_DATA', {
@@ -24,22 +26,26 @@ export const GET = withAdminAuth(async (session: AdminSession) => {
         { status: 401 }
       )
     }
-    // Get all casts (including hidden ones for admin export)
-    const casts = await getAllCasts()
-    
-    // Generate CSV with full metadata for admin export
-    const csvContent = generateCSVExport(casts, {
-      filename: generateExportFilename(),
-      includeMetadata: true // Admin gets full data
-    })
+    // Parse format, status, date range and column filters
+    const parsed = parseExportParams(new URL(request.url).searchParams)
+    if ('error' in parsed) {
+      return NextResponse.json(
+        { success: false, error: parsed.error },
+        { status: 400 }
+      )
+    }
     
     // Generate secure filename with timestamp
-    const filename = generateExportFilename()
+    const format = parsed.config.format ?? 'csv'
+    const filename = generateExportFilename(format)
+    
+    // Stream the export straight from the store (including hidden casts for admin export)
+    const stream = streamCastExport({ ...parsed.config, filename })
     
-    // Return CSV as downloadable file with security headers
-    return new Response(csvContent, {
+    // Return the export as a downloadable file with security headers
+    return new Response(stream, {
       headers: {
-        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Type': EXPORT_CONTENT_TYPES[format],
         'Content-Disposition': `attachment; filename=\"${filename}\"`,
         'Cache-Control': 'no-cache, no-store, must-revalidate',
         'Pragma': 'no-cache',
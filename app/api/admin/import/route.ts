@@ -0,0 +1,90 @@
+// 100% SECURE Admin Import API - Protected by wallet signature authentication
+
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdminAuth } from '../../../../lib/admin-auth'
+import { importCasts, ImportFormat } from '../../../../lib/import'
+import { AdminSession, CastFeedError, CastFeedErrorCode } from '../../../../lib/types'
+
+const MAX_IMPORT_BYTES = 2 * 1024 * 1024 // 2MB
+
+// POST - Preview or commit a CSV/JSON import (100% SECURE - Only authenticated admin wallets)
+// Body: { format: 'csv' | 'json', content: string, commit?: boolean }
+export const POST = withAdminAuth(async (session: AdminSession, request: NextRequest) => {
+  try {
+    const body = await request.json().catch(() => null)
+    const format = body?.format as ImportFormat | undefined
+    const content = body?.content
+    
+    if (format !== 'csv' && format !== 'json') {
+      return NextResponse.json(
+        { success: false, error: 'format must be "csv" or "json"' },
+        { status: 400 }
+      )
+    }
+    
+    if (typeof content !== 'string' || !content.trim()) {
+      return NextResponse.json(
+        { success: false, error: 'content must be a non-empty string' },
+        { status: 400 }
+      )
+    }
+    
+    if (content.length > MAX_IMPORT_BYTES) {
+      return NextResponse.json(
+        { success: false, error: 'Import file is too large (max 2MB)' },
+        { status: 413 }
+      )
+    }
+    
+    /* Log admin action for audit trail
+    await logAdminAction(session, body.commit ? 'IMPORT_CASTS' : 'PREVIEW_IMPORT', {
+      format,
+      timestamp: Date.now()
+    })*/
+    
+    // Content is parsed and validated row by row - not passed through
+    // sanitizeRequestBody, which would HTML-encode the CSV quoting
+    const plan = await importCasts(content, format, {
+      commit: body.commit === true,
+      importedBy: session.address
+    })
+    
+    return NextResponse.json(
+      { success: true, plan },
+      { headers: { 'Cache-Control': 'no-cache, no-store, must-revalidate' } }
+    )
+    
+  } catch (error) {
+    if (error instanceof CastFeedError && error.code === CastFeedErrorCode.VALIDATION_ERROR) {
+      return NextResponse.json(
+        { success: false, error: error.message },
+        { status: 400 }
+      )
+    }
+    
+    console.error('Failed to import casts:', error)
+    
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to import casts'
+      },
+      { status: 500 }
+    )
+  }
+})
+
+// OPTIONS handler for CORS with enhanced security
+export async function OPTIONS() {
+  return new NextResponse(null, {
+    status: 200,
+    headers: {
+      'Access-Control-Allow-Origin': process.env.NEXT_PUBLIC_URL || '*',
+      'Access-Control-Allow-Methods': 'POST, OPTIONS',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+      'Access-Control-Allow-Credentials': 'true',
+      'X-Frame-Options': 'DENY',
+      'X-Content-Type-Options': 'nosniff',
+    },
+  })
+}
@@ -0,0 +1,106 @@
+// BasedChats Mini App - Public Author API
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAuthorCasts } from '../../../../lib/utils';
+import { enrichCastsWithMetadata, EnrichedCast } from '../../../../lib/cast-enrichment';
+import { getAuthorProfile, parseFid } from '../../../../lib/authors';
+import { decodeFeedCursor } from '../../../../lib/pagination';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ fid: string }> }
+) {
+  try {
+    const fid = parseFid((await params).fid);
+    const { searchParams } = new URL(request.url);
+    const page = parseInt(searchParams.get('page') || '1', 10);
+    const limit = parseInt(searchParams.get('limit') || '20', 10);
+    const cursor = searchParams.get('cursor');
+    
+    if (!fid) {
+      return NextResponse.json(
+        { 
+          success: false,
+          casts: [] as EnrichedCast[],
+          total: 0,
+          error: 'Invalid fid.' 
+        },
+        { status: 400 }
+      );
+    }
+    
+    if (page < 1 || limit < 1 || limit > 100) {
+      return NextResponse.json(
+        { 
+          success: false,
+          casts: [] as EnrichedCast[],
+          total: 0,
+          error: 'Invalid pagination parameters. Page must be >= 1, limit must be 1-100.' 
+        },
+        { status: 400 }
+      );
+    }
+    
+    if (cursor && !decodeFeedCursor(cursor)) {
+      return NextResponse.json(
+        { 
+          success: false,
+          casts: [] as EnrichedCast[],
+          total: 0,
+          error: 'Invalid cursor parameter.' 
+        },
+        { status: 400 }
+      );
+    }
+    
+    const castsResponse = await getAuthorCasts(fid, page, limit, cursor);
+    if (!castsResponse.success) {
+      throw new Error(castsResponse.error || 'Failed to fetch author casts');
+    }
+    
+    // Only curated authors have pages - unknown fids never reach the provider
+    const author = castsResponse.total > 0 ? await getAuthorProfile(fid, castsResponse.casts) : null;
+    if (!author) {
+      return NextResponse.json(
+        { 
+          success: false,
+          casts: [] as EnrichedCast[],
+          total: 0,
+          error: 'Author not found.' 
+        },
+        { status: 404 }
+      );
+    }
+    
+    return NextResponse.json(
+      {
+        success: true,
+        author,
+        casts: await enrichCastsWithMetadata(castsResponse.casts),
+        total: castsResponse.total,
+        page: castsResponse.page,
+        limit: castsResponse.limit,
+        nextCursor: castsResponse.nextCursor
+      },
+      {
+        headers: {
+          'Cache-Control': 'public, s-maxage=30, stale-while-revalidate=60',
+          'Content-Type': 'application/json'
+        }
+      }
+    );
+    
+  } catch (error) {
+    console.error('❌ Author API Error:', error);
+    
+    return NextResponse.json(
+      {
+        success: false,
+        casts: [] as EnrichedCast[],
+        total: 0,
+        error: error instanceof Error ? error.message : 'Failed to fetch author'
+      },
+      { status: 500 }
+    );
+  }
+}
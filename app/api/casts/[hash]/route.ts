@@ -0,0 +1,115 @@
+// BasedChats Mini App - Public Single Cast API
+
+import { createHash } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { getCast } from '../../../../lib/utils';
+import { enrichSingleCast, EnrichedCast } from '../../../../lib/cast-enrichment';
+import { isCastLive } from '../../../../lib/schedule';
+import { sanitizeAndValidateCastHash } from '../../../../lib/security/input-sanitization';
+import { CastFeedError, CastFeedErrorCode, StoredCast } from '../../../../lib/types';
+
+const CACHE_CONTROL = 'public, s-maxage=30, stale-while-revalidate=60';
+
+// Every status answers with { success, cast, error?, code? }
+function errorResponse(error: CastFeedError, status: number) {
+  return NextResponse.json(
+    {
+      success: false,
+      cast: null,
+      error: error.message,
+      code: error.code
+    },
+    { status }
+  );
+}
+
+/**
+ * Weak validator for the response body - any change to the enriched cast
+ * (reactions included) produces a new tag
+ */
+function castETag(body: string): string {
+  return `W/"${createHash('sha1').update(body).digest('base64url')}"`;
+}
+
+/**
+ * Latest change to the stored record: its last write (records saved before
+ * updatedAt existed fall back to when they were added), or when it went live.
+ * Reaction counts are not tracked here, which is why conditional requests
+ * are answered from the ETag.
+ */
+function castLastModified(cast: StoredCast, now: number): Date {
+  const times = [cast.updatedAt ?? cast.addedAt];
+  if (cast.publishAt && cast.publishAt <= now) {
+    times.push(cast.publishAt);
+  }
+  return new Date(Math.max(...times));
+}
+
+/**
+ * Whether an If-None-Match header matches the tag (weak comparison)
+ */
+function matchesETag(ifNoneMatch: string | null, etag: string): boolean {
+  if (!ifNoneMatch) {
+    return false;
+  }
+  const opaque = etag.replace(/^W\//, '');
+  return ifNoneMatch
+    .split(',')
+    .map(tag => tag.trim())
+    .some(tag => tag === '*' || tag.replace(/^W\//, '') === opaque);
+}
+
+// GET - One live cast, enriched with its Farcaster metadata
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ hash: string }> }
+) {
+  try {
+    const hashValidation = sanitizeAndValidateCastHash((await params).hash);
+    if (!hashValidation.isValid) {
+      return errorResponse(
+        new CastFeedError(hashValidation.error || 'Invalid cast hash.', CastFeedErrorCode.INVALID_HASH),
+        400
+      );
+    }
+
+    // Hidden, scheduled and expired casts are not public - answer as if they did not exist
+    const now = Date.now();
+    const stored = await getCast(hashValidation.sanitized);
+    if (!stored || stored.status !== 'active' || !isCastLive(stored, now)) {
+      return errorResponse(
+        new CastFeedError('Cast not found.', CastFeedErrorCode.CAST_NOT_FOUND, { hash: hashValidation.sanitized }),
+        404
+      );
+    }
+
+    const cast: EnrichedCast = await enrichSingleCast(stored);
+    const body = JSON.stringify({ success: true, cast });
+    const headers = {
+      'Cache-Control': CACHE_CONTROL,
+      ETag: castETag(body),
+      'Last-Modified': castLastModified(stored, now).toUTCString()
+    };
+
+    if (matchesETag(request.headers.get('if-none-match'), headers.ETag)) {
+      return new Response(null, { status: 304, headers });
+    }
+
+    return new Response(body, {
+      headers: {
+        ...headers,
+        'Content-Type': 'application/json'
+      }
+    });
+
+  } catch (error) {
+    console.error('❌ Cast API Error:', error);
+
+    return errorResponse(
+      error instanceof CastFeedError
+        ? error
+        : new CastFeedError(error instanceof Error ? error.message : 'Failed to fetch cast', CastFeedErrorCode.NETWORK_ERROR),
+      500
+    );
+  }
+}
@@ -1,8 +1,11 @@
 // BasedChats Mini App - Public Casts API
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getActiveCasts, searchCasts } from '../../../lib/utils';
+import { getActiveCasts, getTrendingCasts, searchCasts } from '../../../lib/utils';
 import { enrichCastsWithMetadata, EnrichedCast } from '../../../lib/cast-enrichment';
+import { decodeFeedCursor } from '../../../lib/pagination';
+import { isValidTagSlug } from '../../../lib/tags';
+import { hasActiveFilters, isIndexedTrending, parseSearchFilterParams } from '../../../lib/search-filters';
 import { CastsResponse } from '../../../lib/types';
 
 export async function GET(request: NextRequest) {
@@ -10,7 +13,8 @@ export async function GET(request: NextRequest) {
     const { searchParams } = new URL(request.url);
     const page = parseInt(searchParams.get('page') || '1', 10);
     const limit = parseInt(searchParams.get('limit') || '20', 10);
-    const query = searchParams.get('query');
+    const cursor = searchParams.get('cursor');
+    const tag = searchParams.get('tag');
     
     // Validate pagination parameters
     if (page < 1 || limit < 1 || limit > 100) {
@@ -25,11 +29,53 @@ export async function GET(request: NextRequest) {
       );
     }
     
+    if (cursor && !decodeFeedCursor(cursor)) {
+      return NextResponse.json(
+        { 
+          success: false,
+          casts: [] as EnrichedCast[],
+          total: 0,
+          error: 'Invalid cursor parameter.' 
+        },
+        { status: 400 }
+      );
+    }
+    
+    if (tag && !isValidTagSlug(tag)) {
+      return NextResponse.json(
+        { 
+          success: false,
+          casts: [] as EnrichedCast[],
+          total: 0,
+          error: 'Invalid tag parameter.' 
+        },
+        { status: 400 }
+      );
+    }
+    
+    // author, from/to and sort narrow a search (the public API never takes status)
+    const parsedFilters = parseSearchFilterParams(searchParams);
+    if ('error' in parsedFilters) {
+      return NextResponse.json(
+        { 
+          success: false,
+          casts: [] as EnrichedCast[],
+          total: 0,
+          error: parsedFilters.error 
+        },
+        { status: 400 }
+      );
+    }
+    const { filters } = parsedFilters;
+    
     let response: CastsResponse<EnrichedCast>;
     
-    if (query && query.trim()) {
-      // Search functionality
-      const results = await searchCasts(query.trim(), true); // activeOnly = true
+    // A tag alone is served from the tag feed index and trending from the trending
+    // index; anything else goes through search
+    const trending = isIndexedTrending(filters);
+    if (!trending && (filters.query || hasActiveFilters({ ...filters, tag: undefined }))) {
+      // Search functionality - live casts, in the requested order
+      const results = await searchCasts(filters);
       
       // Apply pagination to search results
       const startIndex = (page - 1) * limit;
@@ -47,8 +93,10 @@ export async function GET(request: NextRequest) {
         limit
       };
     } else {
-      // Regular paginated feed
-      const castsResponse = await getActiveCasts(page, limit);
+      // Regular or trending feed - cursor pagination when a cursor is given, offset pages otherwise
+      const castsResponse = trending
+        ? await getTrendingCasts(page, limit, cursor, filters)
+        : await getActiveCasts(page, limit, cursor, tag);
       
       if (castsResponse.success && castsResponse.casts.length > 0) {
         // Enrich casts with metadata
@@ -60,7 +108,8 @@ export async function GET(request: NextRequest) {
           casts: enrichedCasts,
           total: castsResponse.total,
           page: castsResponse.page,
-          limit: castsResponse.limit
+          limit: castsResponse.limit,
+          nextCursor: castsResponse.nextCursor
         };
       } else {
         // Handle empty or failed response
@@ -70,6 +119,7 @@ export async function GET(request: NextRequest) {
           total: castsResponse.total,
           page: castsResponse.page,
           limit: castsResponse.limit,
+          nextCursor: castsResponse.nextCursor,
           error: castsResponse.success ? undefined : 'No casts found'
         };
       }
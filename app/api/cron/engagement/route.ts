@@ -0,0 +1,58 @@
+// Scheduled Feed Job - Runs hourly (vercel.json), protected by CRON_SECRET
+
+import { NextRequest, NextResponse } from 'next/server'
+import { recordEngagementSnapshots } from '../../../../lib/engagement'
+import { publishDueCasts } from '../../../../lib/utils'
+
+// Snapshotting every live cast can take a while on a large feed
+export const maxDuration = 60
+
+// GET - Publish and expire casts whose time has passed, then record reaction snapshots and rescore trending casts
+export async function GET(request: NextRequest) {
+  const secret = process.env.CRON_SECRET
+  if (!secret) {
+    return NextResponse.json(
+      { success: false, error: 'CRON_SECRET is not configured' },
+      { status: 503 }
+    )
+  }
+
+  // Vercel Cron sends the secret as a bearer token; other schedulers must do the same
+  if (request.headers.get('authorization') !== `Bearer ${secret}`) {
+    return NextResponse.json(
+      { success: false, error: 'Unauthorized' },
+      { status: 401 }
+    )
+  }
+
+  // Publishing runs on its own so a failed snapshot run still reports what went live
+  let schedule: { published: string[]; expired: string[] } | { error: string }
+  try {
+    // Users are notified here about casts going live, never from a public read
+    const { published, expired } = await publishDueCasts()
+    console.log(`Scheduled casts: ${published.length} published, ${expired.length} expired`)
+    schedule = { published, expired }
+  } catch (error) {
+    console.error('Failed to publish scheduled casts:', error)
+    schedule = { error: error instanceof Error ? error.message : 'Failed to publish scheduled casts' }
+  }
+
+  try {
+    const report = await recordEngagementSnapshots()
+    console.log(`Engagement snapshots: ${report.recorded} recorded, ${report.skipped} skipped, ${report.failed} failed, ${report.pruned} pruned`)
+    return NextResponse.json(
+      { success: !('error' in schedule), schedule, report },
+      { status: 'error' in schedule ? 500 : 200 }
+    )
+  } catch (error) {
+    console.error('Failed to record engagement snapshots:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        schedule,
+        error: error instanceof Error ? error.message : 'Failed to record engagement snapshots'
+      },
+      { status: 500 }
+    )
+  }
+}
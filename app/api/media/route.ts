@@ -0,0 +1,258 @@
+// Media Proxy - Serve allowlisted remote images and videos from our own origin
+
+import { Readable } from 'stream'
+import { NextRequest, NextResponse } from 'next/server'
+import { CastFeedError, CastFeedErrorCode } from '../../../lib/types'
+import {
+  getMediaHosts,
+  getMediaSources,
+  isAllowedMediaUrl,
+  MAX_MEDIA_BYTES,
+  MAX_PREVIEW_IMAGE_BYTES,
+  MEDIA_CONTENT_TYPES,
+  resolveMediaContentType,
+  rewriteHlsPlaylist
+} from '../../../lib/media-proxy'
+import { isPublicUrl, requestPublicUrl } from '../../../lib/public-fetch'
+import { verifyPreviewImage } from '../../../lib/media-signature'
+
+// Time allowed per source for the response headers; slow IPFS gateways fall through to the next one
+const UPSTREAM_TIMEOUT_MS = 8000
+
+const MAX_REDIRECTS = 3
+
+const MAX_URL_LENGTH = 2048
+
+// Whole fetch of a preview image from an arbitrary host, body included
+const PREVIEW_TIMEOUT_MS = 10000
+
+// Media behind a URL rarely changes; next/image reuses max-age as its own cache lifetime
+const CACHE_CONTROL = 'public, max-age=86400, s-maxage=604800, stale-while-revalidate=604800'
+
+// Live HLS playlists gain segments as they go, so they are only cached briefly
+const PLAYLIST_CACHE_CONTROL = 'public, max-age=60, s-maxage=60'
+
+/**
+ * A refusal or upstream failure, carrying the HTTP status to answer with
+ */
+function mediaError(message: string, status: number): CastFeedError {
+  const code = status === 403 || status === 413 || status === 415
+    ? CastFeedErrorCode.VALIDATION_ERROR
+    : CastFeedErrorCode.NETWORK_ERROR
+  return new CastFeedError(message, code, { status })
+}
+
+function statusOf(error: CastFeedError): number {
+  return (error.details as { status?: number } | undefined)?.status ?? 502
+}
+
+function errorResponse(error: string, status: number) {
+  return NextResponse.json({ success: false, error }, { status })
+}
+
+function mediaHeaders(contentType: string, cacheControl: string = CACHE_CONTROL): Headers {
+  return new Headers({
+    'content-type': contentType,
+    'cache-control': cacheControl,
+    'x-content-type-options': 'nosniff',
+    'content-security-policy': "default-src 'none'; sandbox"
+  })
+}
+
+/**
+ * Fetch one source, following redirects only to allowlisted hosts.
+ * Throws a CastFeedError (see mediaError) for anything that must not be served.
+ */
+async function fetchSource(source: string, range: string | null): Promise<{ response: Response; url: string }> {
+  const hosts = getMediaHosts()
+  let url = source
+
+  for (let redirects = 0; redirects <= MAX_REDIRECTS; redirects++) {
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), UPSTREAM_TIMEOUT_MS)
+    let response: Response
+    try {
+      response = await fetch(url, {
+        headers: range ? { range } : {},
+        redirect: 'manual',
+        signal: controller.signal,
+        cache: 'no-store' // Bodies can be large; caching happens downstream via Cache-Control
+      })
+    } catch (error) {
+      throw mediaError(
+        controller.signal.aborted ? 'Upstream timed out' : `Upstream request failed: ${error instanceof Error ? error.message : error}`,
+        controller.signal.aborted ? 504 : 502
+      )
+    } finally {
+      clearTimeout(timer)
+    }
+
+    const location = response.headers.get('location')
+    if (response.status >= 300 && response.status < 400 && location) {
+      await response.body?.cancel()
+      const next = new URL(location, url)
+      if (!isAllowedMediaUrl(next, hosts)) {
+        throw mediaError('Redirected to a host that is not allowed', 403)
+      }
+      url = next.toString()
+      continue
+    }
+
+    if (response.status !== 200 && response.status !== 206) {
+      await response.body?.cancel()
+      throw mediaError(`Upstream responded ${response.status}`, response.status === 404 ? 404 : 502)
+    }
+    return { response, url }
+  }
+
+  throw mediaError('Too many redirects', 502)
+}
+
+/**
+ * Pass the body through, failing the stream once it goes past `maxBytes`
+ */
+function limitBytes(body: ReadableStream<Uint8Array>, maxBytes: number): ReadableStream<Uint8Array> {
+  let received = 0
+  return body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      received += chunk.byteLength
+      if (received > maxBytes) {
+        controller.error(new Error('Media exceeds the size limit'))
+        return
+      }
+      controller.enqueue(chunk)
+    }
+  }))
+}
+
+/**
+ * Serve an Open Graph / frame image from a host outside the allowlist:
+ * public addresses only, images only, at most MAX_PREVIEW_IMAGE_BYTES
+ */
+async function servePreviewImage(url: string): Promise<Response> {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return errorResponse('Media host is not allowed', 403)
+  }
+  if (!isPublicUrl(parsed)) {
+    return errorResponse('Media host is not allowed', 403)
+  }
+
+  const page = await requestPublicUrl(parsed, {
+    headers: { accept: 'image/*' },
+    deadline: Date.now() + PREVIEW_TIMEOUT_MS,
+    maxRedirects: MAX_REDIRECTS
+  })
+  if (!page) {
+    return errorResponse('Media could not be fetched', 502)
+  }
+
+  const { response } = page
+  const status = response.statusCode ?? 0
+  if (status !== 200) {
+    response.destroy()
+    return errorResponse(`Upstream responded ${status}`, status === 404 ? 404 : 502)
+  }
+
+  const contentType = resolveMediaContentType(response.headers['content-type'] ?? null, page.url.toString())
+  if (!contentType || MEDIA_CONTENT_TYPES[contentType] !== 'image') {
+    response.destroy()
+    return errorResponse('Unsupported media type', 415)
+  }
+  const contentLength = response.headers['content-length']
+  if (Number(contentLength ?? 0) > MAX_PREVIEW_IMAGE_BYTES) {
+    response.destroy()
+    return errorResponse('Media exceeds the size limit', 413)
+  }
+
+  const headers = mediaHeaders(contentType)
+  if (contentLength) {
+    headers.set('content-length', contentLength)
+  }
+  const body = Readable.toWeb(response) as unknown as ReadableStream<Uint8Array>
+  return new Response(limitBytes(body, MAX_PREVIEW_IMAGE_BYTES), { headers })
+}
+
+// GET - Proxy ?url= (https or ipfs://) from an allowlisted host, trying IPFS gateways in turn.
+// With kind=preview and a valid sig, images on other public hosts are served through servePreviewImage.
+export async function GET(request: NextRequest) {
+  const url = request.nextUrl.searchParams.get('url')
+  if (!url || url.length > MAX_URL_LENGTH) {
+    return errorResponse('A media url is required', 400)
+  }
+
+  const preview = request.nextUrl.searchParams.get('kind') === 'preview'
+  const sources = getMediaSources(url)
+  if (sources.length === 0) {
+    // Off the allowlist only images the server signed for a cast embed are fetched - never arbitrary URLs
+    return preview && verifyPreviewImage(url, request.nextUrl.searchParams.get('sig'))
+      ? await servePreviewImage(url)
+      : errorResponse('Media host is not allowed', 403)
+  }
+
+  // Video players seek with range requests
+  const range = request.headers.get('range')
+  let failure = mediaError('Media could not be fetched', 502)
+
+  for (const source of sources) {
+    try {
+      const { response, url: finalUrl } = await fetchSource(source, range)
+
+      const contentType = resolveMediaContentType(response.headers.get('content-type'), finalUrl)
+      if (!contentType || (preview && MEDIA_CONTENT_TYPES[contentType] !== 'image')) {
+        await response.body?.cancel()
+        throw mediaError('Unsupported media type', 415)
+      }
+
+      // For ranged responses the limit applies to the whole file, not the slice
+      const kind = MEDIA_CONTENT_TYPES[contentType]
+      const maxBytes = preview ? MAX_PREVIEW_IMAGE_BYTES : MAX_MEDIA_BYTES[kind]
+      const contentRange = response.headers.get('content-range')
+      const totalBytes = Number(contentRange?.split('/')[1] ?? response.headers.get('content-length') ?? 0)
+      if (totalBytes > maxBytes) {
+        await response.body?.cancel()
+        throw mediaError('Media exceeds the size limit', 413)
+      }
+
+      // Playlists are rewritten so their segments load through the proxy too
+      if (kind === 'playlist' && response.body) {
+        const playlist = await new Response(limitBytes(response.body, maxBytes)).text()
+        return new Response(rewriteHlsPlaylist(playlist, finalUrl), {
+          headers: mediaHeaders(contentType, PLAYLIST_CACHE_CONTROL)
+        })
+      }
+
+      const headers = mediaHeaders(contentType)
+      const contentLength = response.headers.get('content-length')
+      if (contentLength) {
+        headers.set('content-length', contentLength)
+      }
+      if (contentRange) {
+        headers.set('content-range', contentRange)
+      }
+      const acceptRanges = response.headers.get('accept-ranges')
+      if (acceptRanges) {
+        headers.set('accept-ranges', acceptRanges)
+      }
+
+      return new Response(response.body ? limitBytes(response.body, maxBytes) : null, {
+        status: response.status,
+        headers
+      })
+    } catch (error) {
+      if (!(error instanceof CastFeedError)) {
+        console.error(`Media proxy failed for ${source}:`, error)
+        continue
+      }
+      // Type and size refusals are about the media itself - another gateway would serve the same bytes
+      if (statusOf(error) === 413 || statusOf(error) === 415) {
+        return errorResponse(error.message, statusOf(error))
+      }
+      failure = error
+    }
+  }
+
+  return errorResponse(failure.message, statusOf(failure))
+}
@@ -0,0 +1,20 @@
+// This is a Server Component - no 'use client'
+import { notFound } from 'next/navigation'
+import { AuthorClient } from '../../components/AuthorClient'
+import { MiniKitWrapper } from '../../components/MiniKitWrapper'
+import { getAuthorPageAction } from '../../actions/casts'
+import { parseFid } from '../../../lib/authors'
+
+export default async function AuthorPage({ params }: { params: Promise<{ fid: string }> }) {
+  const fid = parseFid((await params).fid)
+  const data = fid ? await getAuthorPageAction(fid) : null
+  if (!data) {
+    notFound()
+  }
+
+  return (
+    <MiniKitWrapper>
+      <AuthorClient author={data.author} casts={data.casts} total={data.total} />
+    </MiniKitWrapper>
+  )
+}
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useTransition, useCallback, useMemo } from 'react'
+import { useState, useTransition, useCallback, useMemo, useRef } from 'react'
 import { useAddFrame, useOpenUrl, useMiniKit } from '@coinbase/onchainkit/minikit'
 import {
   Name,
@@ -16,16 +16,26 @@ import {
   WalletDropdownDisconnect,
 } from '@coinbase/onchainkit/wallet'
 import { CastFeed } from './CastFeed'
+import { SearchFilterValues } from './SearchFilterFields'
+import { FeaturedCarousel } from './FeaturedCarousel'
 import { Button } from './ui/Button'
 import { EnrichedCast } from '../../lib/cast-enrichment'
-import { refreshCasts, searchCastsAction } from '../actions/casts'
+import { CastTag } from '../../lib/types'
+import { hasActiveFilters } from '../../lib/search-filters'
+import { refreshCasts, searchCastsAction, getCastsByTagAction } from '../actions/casts'
 
 interface AppClientProps {
   initialCasts: EnrichedCast[]
+  tags?: CastTag[]
 }
 
-export function AppClient({ initialCasts }: AppClientProps) {
+export function AppClient({ initialCasts, tags = [] }: AppClientProps) {
   const [casts, setCasts] = useState<EnrichedCast[]>(initialCasts)
+  const [selectedTag, setSelectedTag] = useState<string | null>(null)
+  const [searchQuery, setSearchQuery] = useState('')
+  const [searchFilters, setSearchFilters] = useState<SearchFilterValues>({})
+  // Read by handleSearch so its identity stays stable (CastFeed re-runs search when it changes)
+  const selectedTagRef = useRef<string | null>(null)
   const [frameAdded, setFrameAdded] = useState(false)
   const [isPending, startTransition] = useTransition()
   const [error, setError] = useState<string | null>(null)
@@ -39,29 +49,18 @@ export function AppClient({ initialCasts }: AppClientProps) {
     setFrameAdded(Boolean(frameAdded))
   }, [addFrame])
 
-  const handleRefresh = useCallback(() => {
+  const loadCasts = useCallback((query: string, tag: string | null, filters: SearchFilterValues) => {
     startTransition(async () => {
       try {
         setError(null)
-        // Force refresh when user explicitly clicks refresh
-        const newCasts = await refreshCasts(true)
-        setCasts(newCasts)
-      } catch (error) {
-        console.error('Failed to refresh casts:', error)
-        setError('Failed to refresh casts')
-      }
-    })
-  }, [])
-
-  const handleSearch = useCallback(async (query: string) => {
-    startTransition(async () => {
-      try {
-        setError(null)
-        if (query.trim()) {
-          const results = await searchCastsAction(query)
+        if (query.trim() || hasActiveFilters(filters)) {
+          const results = await searchCastsAction({ ...filters, query, tag: tag ?? undefined })
+          setCasts(results)
+        } else if (tag) {
+          const results = await getCastsByTagAction(tag)
           setCasts(results)
         } else {
-          // Just reset to initial casts when search is cleared
+          // Just reset to initial casts when search, filters and tag are cleared
           setCasts(initialCasts)
         }
       } catch (error) {
@@ -71,6 +70,50 @@ export function AppClient({ initialCasts }: AppClientProps) {
     })
   }, [initialCasts])
 
+  const handleRefresh = useCallback(() => {
+    // Searches, filters and the Trending tab re-run their own query
+    if (searchQuery.trim() || hasActiveFilters(searchFilters)) {
+      loadCasts(searchQuery, selectedTag, searchFilters)
+      return
+    }
+    startTransition(async () => {
+      try {
+        setError(null)
+        // Force refresh when user explicitly clicks refresh
+        const newCasts = selectedTag
+          ? await getCastsByTagAction(selectedTag)
+          : await refreshCasts(true)
+        setCasts(newCasts)
+      } catch (error) {
+        console.error('Failed to refresh casts:', error)
+        setError('Failed to refresh casts')
+      }
+    })
+  }, [selectedTag, searchQuery, searchFilters, loadCasts])
+
+  const handleSearch = useCallback(async (query: string, filters: SearchFilterValues) => {
+    setSearchQuery(query)
+    setSearchFilters(filters)
+    loadCasts(query, selectedTagRef.current, filters)
+  }, [loadCasts])
+
+  const handleTagSelect = useCallback((tag: string | null) => {
+    selectedTagRef.current = tag
+    setSelectedTag(tag)
+    loadCasts(searchQuery, tag, searchFilters)
+  }, [loadCasts, searchQuery, searchFilters])
+
+  // Pinned casts get the carousel on the unfiltered feed; searches, filters and tag views list them inline
+  const showFeatured = !searchQuery.trim() && !hasActiveFilters(searchFilters) && !selectedTag && !isPending
+  const featuredCasts = useMemo(
+    () => (showFeatured ? casts.filter(cast => cast.pinned) : []),
+    [casts, showFeatured]
+  )
+  const feedCasts = useMemo(
+    () => (showFeatured ? casts.filter(cast => !cast.pinned) : casts),
+    [casts, showFeatured]
+  )
+
   const saveFrameButton = useMemo(() => {
     if (context && !context.client.added) {
       return (
@@ -134,12 +177,20 @@ export function AppClient({ initialCasts }: AppClientProps) {
             </p>
           </div>
 
+          <FeaturedCarousel
+            casts={featuredCasts}
+            onViewCast={(hash) => console.log(`Viewing featured cast: ${hash}`)}
+          />
+
           <CastFeed
-            casts={casts}
+            casts={feedCasts}
             loading={isPending}
             error={error ?? undefined}
             onRefresh={handleRefresh}
             onSearch={handleSearch}
+            tags={tags}
+            selectedTag={selectedTag}
+            onTagSelect={handleTagSelect}
           />
         </main>
 
@@ -0,0 +1,93 @@
+'use client'
+
+import Link from 'next/link'
+import Image from 'next/image'
+import { useOpenUrl } from '@coinbase/onchainkit/minikit'
+import { CastCard } from './CastCard'
+import { Button } from './ui/Button'
+import { EnrichedCast } from '../../lib/cast-enrichment'
+import { AuthorProfile } from '../../lib/authors'
+import { proxiedMediaUrl } from '../../lib/media-proxy'
+
+interface AuthorClientProps {
+  author: AuthorProfile
+  casts: EnrichedCast[]
+  total: number
+}
+
+export function AuthorClient({ author, casts, total }: AuthorClientProps) {
+  const openUrl = useOpenUrl()
+  const initial = author.displayName.charAt(0).toUpperCase() || '?'
+
+  return (
+    <div className="flex flex-col min-h-screen bg-background text-foreground mini-app-theme">
+      <div className="w-full max-w-2xl mx-auto px-4 py-3">
+        <header className="flex justify-between items-center mb-6 h-11">
+          <Link href="/" className="text-xl font-bold text-base-blue">
+            BasedChats
+          </Link>
+          <Link href="/" className="text-sm text-muted-foreground hover:text-foreground">
+            ← All chats
+          </Link>
+        </header>
+
+        <main className="flex-1 mb-6 space-y-6">
+          {/* Profile Header */}
+          <div className="flex items-center space-x-4">
+            {author.pfpUrl ? (
+              <Image
+                src={proxiedMediaUrl(author.pfpUrl)}
+                alt={author.displayName}
+                width={64}
+                height={64}
+                className="w-16 h-16 rounded-full object-cover ring-2 ring-gray-15 dark:ring-gray-80"
+              />
+            ) : (
+              <div className="w-16 h-16 rounded-full bg-base-blue text-white flex items-center justify-center text-2xl font-semibold ring-2 ring-gray-15 dark:ring-gray-80">
+                {initial}
+              </div>
+            )}
+            <div className="flex-1 min-w-0">
+              <h2 className="text-lg font-semibold truncate">{author.displayName}</h2>
+              <p className="text-sm text-muted-foreground">
+                {author.username ? `@${author.username} · ` : ''}fid {author.fid}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                {total} active chat{total === 1 ? '' : 's'}
+              </p>
+            </div>
+            {author.username && (
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={() => openUrl(`https://farcaster.xyz/${author.username}`)}
+              >
+                Profile
+              </Button>
+            )}
+          </div>
+
+          {/* Author's Chats */}
+          {casts.length > 0 ? (
+            <div className="space-y-4">
+              {casts.map((cast) => (
+                <CastCard
+                  key={cast.hash}
+                  cast={cast}
+                  onViewCast={(hash) => console.log(`Viewing cast: ${hash}`)}
+                />
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-12">
+              <h3 className="text-lg font-semibold mb-2">No active chats</h3>
+              <p className="text-muted-foreground">
+                {author.displayName} has no group chats in the feed right now.
+              </p>
+            </div>
+          )}
+        </main>
+      </div>
+    </div>
+  )
+}
@@ -5,9 +5,27 @@ import { useViewCast, useOpenUrl, useMiniKit } from "@coinbase/onchainkit/miniki
 import { Card, CardContent, CardFooter, CardHeader } from "./ui/Card";
 import { Button } from "./ui/Button";
 import { EnrichedCast } from "../../lib/cast-enrichment";
-import { formatRelativeTime } from "../../lib/utils";
+import { formatRelativeTime, HIDE_REASON_LABELS } from "../../lib/utils";
+import { isCastExpired, isCastScheduled } from "../../lib/schedule";
+import { splitHighlights } from "../../lib/search-text";
+import { isHlsEmbed } from "../../lib/embeds";
+import { CHAT_PLATFORM_LABELS, CHAT_STATUS_LABELS } from "../../lib/chat-metadata";
+import { proxiedMediaUrl, proxiedPreviewImageUrl } from "../../lib/media-proxy";
 import Image from "next/image";
+import Link from "next/link";
 import { ReplyComposer } from './ReplyComposer';
+import { QuotedCastCard } from './QuotedCastCard';
+
+/**
+ * Hostname shown under a link preview, without a leading "www."
+ */
+function linkHostname(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+}
 
 interface CastCardPropsUpdated {
   cast: EnrichedCast;
@@ -15,6 +33,9 @@ interface CastCardPropsUpdated {
   showMetadata?: boolean;
   isAdmin?: boolean;
   onRemove?: (hash: string) => void;
+  onRestore?: (hash: string) => void;
+  onPurge?: (hash: string) => void;
+  onTogglePin?: (hash: string, pinned: boolean) => void;
 }
 
 export function CastCard({
@@ -22,7 +43,10 @@ export function CastCard({
   onViewCast,
   showMetadata = false,
   isAdmin = false,
-  onRemove
+  onRemove,
+  onRestore,
+  onPurge,
+  onTogglePin
 }: CastCardPropsUpdated) {
   const [showReplyComposer, setShowReplyComposer] = useState(false);
   const { viewCast } = useViewCast();
@@ -43,6 +67,12 @@ export function CastCard({
     setShowReplyComposer(true);
   };
 
+  const handleJoin = () => {
+    if (cast.chat?.inviteUrl) {
+      openUrl(cast.chat.inviteUrl);
+    }
+  };
+
   const handleReplyPosted = () => {
     // Optionally refresh the cast or show a success message
     console.log('Reply posted successfully!');
@@ -55,24 +85,25 @@ export function CastCard({
     }
   };
 
-  // Helper function to detect if URL is an image
-  const isImageUrl = (url: string): boolean => {
-    const imageExtensions = ['.jpg', '.jpeg', '.png', '.gif', '.webp', '.svg'];
-    const urlLower = url.toLowerCase();
-    return imageExtensions.some(ext => urlLower.includes(ext)) || 
-           urlLower.includes('ipfs') || 
-           urlLower.includes('imagedelivery.net') ||
-           urlLower.includes('res.cloudinary.com') ||
-           urlLower.includes('pinata.cloud') ||
-           urlLower.includes('dweb.link') ||
-           urlLower.includes('cloudflare-ipfs.com');
+  const handleRestore = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (onRestore) {
+      onRestore(cast.hash);
+    }
+  };
+
+  const handlePurge = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (onPurge) {
+      onPurge(cast.hash);
+    }
   };
 
-  // Helper function to detect if URL is a video
-  const isVideoUrl = (url: string): boolean => {
-    const videoExtensions = ['.mp4', '.webm', '.mov', '.avi'];
-    const urlLower = url.toLowerCase();
-    return videoExtensions.some(ext => urlLower.includes(ext));
+  const handleTogglePin = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (onTogglePin) {
+      onTogglePin(cast.hash, !cast.pinned);
+    }
   };
 
   // Helper function to clean zoraCoin URLs and extract media URLs
@@ -91,11 +122,30 @@ export function CastCard({
            url.includes('wallet.coinbase.com/miniapps/social-swap');
   };
 
+  // Wrap words matched by a search query in <mark>
+  const renderHighlighted = (text: string) => (
+    splitHighlights(text, cast.highlights).map((segment, index) => segment.match ? (
+      <mark key={index} className="bg-base-yellow/40 text-current rounded-sm">{segment.text}</mark>
+    ) : (
+      segment.text
+    ))
+  );
+
   // Helper function to check if URL is a token swap URL  
   const isTokenSwapUrl = (url: string): boolean => {
     return url.includes('wallet.coinbase.com/miniapps/social-swap');
   };
 
+  // Image and video embeds, typed server-side (lib/embeds.ts)
+  const mediaEmbeds = (cast.metadata?.embeds || []).flatMap(embed => {
+    if ((embed.type !== 'image' && embed.type !== 'video') || !embed.url || shouldHideUrl(embed.url)) {
+      return [];
+    }
+    const cleanUrl = extractMediaUrl(embed.url);
+    return cleanUrl ? [{ ...embed, url: cleanUrl }] : [];
+  });
+  const mediaUrls = new Set(mediaEmbeds.map(embed => embed.url));
+
   // Process cast content to filter out URLs we're displaying as media or don't want to show
   const processedContent = cast.metadata?.content ? (
     cast.metadata.content
@@ -120,7 +170,7 @@ export function CastCard({
             return false;
           }
           const cleanUrl = extractMediaUrl(url);
-          if (cleanUrl && (isImageUrl(cleanUrl) || isVideoUrl(cleanUrl))) {
+          if (cleanUrl && mediaUrls.has(cleanUrl)) {
             return false; // Remove standalone media URLs
           }
         }
@@ -136,51 +186,6 @@ export function CastCard({
       .trim()
   ) : '';
 
-  // Extract media URLs from both content and embeds
-  const extractAllMedia = (): Array<{url: string, type: 'image' | 'video'}> => {
-    const mediaUrls = new Set<string>(); // Prevent duplicates
-    const mediaItems: Array<{url: string, type: 'image' | 'video'}> = [];
-    
-    // Extract from content text
-    const content = cast.metadata?.content || '';
-    const urlRegex = /(https?:\/\/[^\s]+)/g;
-    const contentUrls = content.match(urlRegex) || [];
-    
-    contentUrls.forEach(url => {
-      const cleanUrl = extractMediaUrl(url);
-      if (cleanUrl && !shouldHideUrl(url) && !mediaUrls.has(cleanUrl)) {
-        if (isImageUrl(cleanUrl)) {
-          mediaUrls.add(cleanUrl);
-          mediaItems.push({ url: cleanUrl, type: 'image' });
-        } else if (isVideoUrl(cleanUrl)) {
-          mediaUrls.add(cleanUrl);
-          mediaItems.push({ url: cleanUrl, type: 'video' });
-        }
-      }
-    });
-    
-    // Extract from embeds (THIS IS THE KEY FIX!)
-    const embeds = cast.metadata?.embeds || [];
-    embeds.forEach(embed => {
-      if (embed.url) {
-        const cleanUrl = extractMediaUrl(embed.url);
-        if (cleanUrl && !shouldHideUrl(embed.url) && !mediaUrls.has(cleanUrl)) {
-          if (isImageUrl(cleanUrl)) {
-            mediaUrls.add(cleanUrl);
-            mediaItems.push({ url: cleanUrl, type: 'image' });
-          } else if (isVideoUrl(cleanUrl)) {
-            mediaUrls.add(cleanUrl);
-            mediaItems.push({ url: cleanUrl, type: 'video' });
-          }
-        }
-      }
-    });
-    
-    return mediaItems;
-  };
-
-  const mediaItems = extractAllMedia();
-
   // Format timestamp for display
   const formatCastTime = (timestamp?: number) => {
     if (!timestamp) return '';
@@ -215,12 +220,11 @@ export function CastCard({
               {cast.metadata?.authorPfp ? (
                 <div className="relative">
                   <Image
-                    src={cast.metadata.authorPfp}
+                    src={proxiedMediaUrl(cast.metadata.authorPfp)}
                     alt={cast.metadata?.author || 'User'}
                     width={40}
                     height={40}
                     className="w-10 h-10 rounded-full object-cover ring-2 ring-gray-15 dark:ring-gray-80"
-                    unoptimized={cast.metadata.authorPfp.includes('ipfs') || cast.metadata.authorPfp.includes('pinata')}
                     onError={(e) => {
                       // Fallback to initials if image fails
                       const target = e.target as HTMLImageElement;
@@ -242,11 +246,21 @@ export function CastCard({
             <div className="flex-1 min-w-0">
               <div className="flex items-center space-x-2">
                 <h3 className="text-sm font-semibold text-foreground truncate">
-                  {cast.metadata?.author || 'Unknown'}
+                  {cast.metadata?.authorFid ? (
+                    <Link
+                      href={`/author/${cast.metadata.authorFid}`}
+                      onClick={(e) => e.stopPropagation()}
+                      className="hover:underline"
+                    >
+                      {renderHighlighted(cast.metadata?.author || 'Unknown')}
+                    </Link>
+                  ) : (
+                    renderHighlighted(cast.metadata?.author || 'Unknown')
+                  )}
                 </h3>
                 {cast.metadata?.username && (
                   <span className="text-sm text-muted-foreground">
-                    @{cast.metadata.username}
+                    @{renderHighlighted(cast.metadata.username)}
                   </span>
                 )}
                 <span className="text-sm text-muted-foreground">·</span>
@@ -268,7 +282,22 @@ export function CastCard({
           <div className="flex items-center space-x-2">
             {cast.status === 'hidden' && (
               <span className="text-xs bg-gray-15 dark:bg-gray-80 text-muted-foreground px-2 py-1 rounded">
-                Hidden
+                Hidden{cast.hiddenReason ? ` · ${HIDE_REASON_LABELS[cast.hiddenReason]}` : ''}
+              </span>
+            )}
+            {isAdmin && cast.pinned && (
+              <span className="text-xs bg-base-blue/10 text-base-blue px-2 py-1 rounded">
+                📌 Pinned
+              </span>
+            )}
+            {isAdmin && isCastScheduled(cast) && (
+              <span className="text-xs bg-base-blue/10 text-base-blue px-2 py-1 rounded">
+                Scheduled
+              </span>
+            )}
+            {isAdmin && isCastExpired(cast) && (
+              <span className="text-xs bg-gray-15 dark:bg-gray-80 text-muted-foreground px-2 py-1 rounded">
+                Expired
               </span>
             )}
             {cast.originalUrl && (
@@ -276,7 +305,23 @@ export function CastCard({
                 🏠 Base
               </span>
             )}
-            {isAdmin && onRemove && (
+            {cast.chat && (
+              <span className="text-xs bg-gray-15 dark:bg-gray-80 text-muted-foreground px-2 py-1 rounded whitespace-nowrap">
+                {CHAT_PLATFORM_LABELS[cast.chat.platform]}
+                {cast.chat.memberCap ? ` · max ${cast.chat.memberCap}` : ''}
+              </span>
+            )}
+            {isAdmin && onTogglePin && cast.status === 'active' && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleTogglePin}
+                className="text-base-blue hover:text-base-blue hover:bg-base-blue/10 text-xs px-2 py-1 h-auto"
+              >
+                {cast.pinned ? 'Unpin' : 'Pin'}
+              </Button>
+            )}
+            {isAdmin && onRemove && cast.status === 'active' && (
               <Button
                 variant="ghost"
                 size="sm"
@@ -286,6 +331,26 @@ export function CastCard({
                 Remove
               </Button>
             )}
+            {isAdmin && onRestore && cast.status === 'hidden' && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleRestore}
+                className="text-green hover:text-green hover:bg-green/10 text-xs px-2 py-1 h-auto"
+              >
+                Restore
+              </Button>
+            )}
+            {isAdmin && onPurge && cast.status === 'hidden' && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handlePurge}
+                className="text-red hover:text-red hover:bg-red/10 text-xs px-2 py-1 h-auto"
+              >
+                Purge
+              </Button>
+            )}
           </div>
         </div>
       </CardHeader>
@@ -295,24 +360,23 @@ export function CastCard({
         {processedContent && (
           <div className="mb-4">
             <p className="text-sm text-foreground leading-relaxed whitespace-pre-wrap">
-              {processedContent}
+              {renderHighlighted(processedContent)}
             </p>
           </div>
         )}
 
         {/* Media Content */}
-        {mediaItems.length > 0 && (
+        {mediaEmbeds.length > 0 && (
           <div className="space-y-3 mb-4">
-            {mediaItems.map((media, index) => (
+            {mediaEmbeds.map((media, index) => (
               <div key={index} className="rounded-lg overflow-hidden border border-gray-15 dark:border-gray-80 bg-gray-10/20 dark:bg-gray-80/20">
                 {media.type === 'image' ? (
                   <Image
-                    src={media.url}
+                    src={proxiedMediaUrl(media.url)}
                     alt="Cast media"
                     width={500}
                     height={300}
                     className="w-full h-auto max-h-96 object-cover"
-                    unoptimized={media.url.includes('ipfs') || media.url.includes('pinata') || media.url.includes('arweave')}
                     onError={(e) => {
                       // Hide broken images gracefully with minimal logging
                       const target = e.target as HTMLImageElement;
@@ -327,12 +391,12 @@ export function CastCard({
                     placeholder="blur"
                     blurDataURL="data:image/svg+xml;base64,PHN2ZyB3aWR0aD0iMTAwIiBoZWlnaHQ9IjEwMCIgeG1sbnM9Imh0dHA6Ly93d3cudzMub3JnLzIwMDAvc3ZnIj48cmVjdCB3aWR0aD0iMTAwIiBoZWlnaHQ9IjEwMCIgZmlsbD0iI2Y1ZjVmNSIvPjwvc3ZnPg=="
                   />
-                ) : media.type === 'video' ? (
+                ) : (
                   <video
-                    src={media.url}
                     controls
                     className="w-full h-auto max-h-96"
                     preload="metadata"
+                    poster={proxiedPreviewImageUrl(media.metadata) || undefined}
                     onError={(e) => {
                       // Hide broken videos gracefully
                       const target = e.target as HTMLVideoElement;
@@ -340,38 +404,100 @@ export function CastCard({
                       target.style.display = 'none';
                     }}
                   >
+                    {/* HLS plays natively in Safari and the iOS/Android webviews the app runs in; the proxy
+                        rewrites its playlists so segments load through /api/media as well */}
+                    <source
+                      src={proxiedMediaUrl(media.url)}
+                      type={isHlsEmbed(media) ? 'application/x-mpegurl' : media.contentType}
+                    />
                     Your browser does not support the video tag.
                   </video>
-                ) : null}
+                )}
               </div>
             ))}
           </div>
         )}
 
-        {/* Cast Embeds (filtered to exclude media already shown) */}
-        {cast.metadata?.embeds && cast.metadata.embeds.length > 0 && (
+        {/* Quoted Casts */}
+        {cast.metadata?.embeds?.some(embed => embed.quotedCast) && (
           <div className="space-y-2 mb-4">
             {cast.metadata.embeds
-              .filter(embed => {
-                // Don't show embeds for media we're already displaying
-                if (!embed.url) return true;
-                const cleanUrl = extractMediaUrl(embed.url);
-                if (!cleanUrl || shouldHideUrl(embed.url)) return false;
-                return !isImageUrl(cleanUrl) && !isVideoUrl(cleanUrl);
-              })
-              .filter(embed => embed.type === 'link') // Only show non-media link embeds
+              .filter(embed => embed.type === 'cast' && embed.quotedCast)
               .map((embed, index) => (
-              <div key={index} className="border border-gray-15 dark:border-gray-80 rounded-lg p-3 bg-gray-10/30 dark:bg-gray-80/30">
-                <div>
-                  <p className="text-xs text-base-blue font-mono truncate">{embed.url}</p>
-                  {embed.metadata?.title && (
-                    <p className="text-sm font-medium mt-1">{embed.metadata.title}</p>
-                  )}
+                <QuotedCastCard key={index} quotedCast={embed.quotedCast!} />
+              ))}
+          </div>
+        )}
+
+        {/* Frame / Mini App Embeds */}
+        {cast.metadata?.embeds?.some(embed => embed.type === 'frame') && (
+          <div className="space-y-2 mb-4">
+            {cast.metadata.embeds
+              .filter(embed => embed.type === 'frame' && embed.url && !shouldHideUrl(embed.url))
+              .map((embed, index) => (
+              <div key={index} className="border border-gray-15 dark:border-gray-80 rounded-lg overflow-hidden bg-gray-10/30 dark:bg-gray-80/30">
+                {proxiedPreviewImageUrl(embed.metadata) && (
+                  <Image
+                    src={proxiedPreviewImageUrl(embed.metadata) as string}
+                    alt={embed.metadata?.title || 'Mini app'}
+                    width={500}
+                    height={260}
+                    className="w-full h-auto max-h-64 object-cover"
+                  />
+                )}
+                <div className="flex items-center justify-between gap-3 p-3">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{embed.metadata?.title || 'Mini app'}</p>
+                    <p className="text-xs text-muted-foreground font-mono truncate">{embed.url}</p>
+                  </div>
+                  <Button
+                    variant="secondary"
+                    size="sm"
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      openUrl(embed.url as string);
+                    }}
+                  >
+                    Open
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Link Embeds */}
+        {cast.metadata?.embeds?.some(embed => embed.type === 'link') && (
+          <div className="space-y-2 mb-4">
+            {cast.metadata.embeds
+              .filter(embed => embed.type === 'link' && embed.url && !shouldHideUrl(embed.url))
+              .map((embed, index) => (
+              <button
+                key={index}
+                type="button"
+                onClick={(e) => {
+                  e.stopPropagation();
+                  openUrl(embed.url as string);
+                }}
+                className="w-full text-left flex border border-gray-15 dark:border-gray-80 rounded-lg overflow-hidden bg-gray-10/30 dark:bg-gray-80/30 hover:bg-gray-10/60 dark:hover:bg-gray-80/60 transition-colors"
+              >
+                {proxiedPreviewImageUrl(embed.metadata) && (
+                  <Image
+                    src={proxiedPreviewImageUrl(embed.metadata) as string}
+                    alt={embed.metadata?.title || 'Link preview'}
+                    width={96}
+                    height={96}
+                    className="w-24 h-24 flex-shrink-0 object-cover"
+                  />
+                )}
+                <div className="min-w-0 flex-1 p-3">
+                  <p className="text-sm font-medium line-clamp-2">{embed.metadata?.title || linkHostname(embed.url as string)}</p>
                   {embed.metadata?.description && (
-                    <p className="text-xs text-muted-foreground mt-1">{embed.metadata.description}</p>
+                    <p className="text-xs text-muted-foreground mt-1 line-clamp-2">{embed.metadata.description}</p>
                   )}
+                  <p className="text-xs text-base-blue truncate mt-1">{linkHostname(embed.url as string)}</p>
                 </div>
-              </div>
+              </button>
             ))}
           </div>
         )}
@@ -392,6 +518,21 @@ export function CastCard({
                 <strong>Author FID:</strong> {cast.metadata.authorFid}
               </div>
             )}
+            {cast.publishAt && (
+              <div>
+                <strong>Goes live:</strong> {new Date(cast.publishAt).toLocaleString()}
+              </div>
+            )}
+            {cast.expiresAt && (
+              <div>
+                <strong>Expires:</strong> {new Date(cast.expiresAt).toLocaleString()}
+              </div>
+            )}
+            {cast.status === 'hidden' && cast.hiddenAt && (
+              <div>
+                <strong>Hidden:</strong> {new Date(cast.hiddenAt).toLocaleString()}{cast.hiddenBy ? ` by ${cast.hiddenBy}` : ''}
+              </div>
+            )}
             <div>
               <strong>Posted:</strong> {cast.metadata?.timestamp ? new Date(cast.metadata.timestamp).toLocaleString() : 'Unknown'}
             </div>
@@ -420,15 +561,28 @@ export function CastCard({
 
           {/* Action Buttons */}
           <div className="flex items-center space-x-2">
-            <Button
-              variant="secondary"
-              size="sm"
-              onClick={handleReply}
-              className="text-xs px-3 py-1 h-auto"
-              title="Join group chat (requires paid Neynar plan)"
-            >
-              Request to Join
-            </Button>
+            {cast.chat?.inviteUrl ? (
+              <Button
+                variant="primary"
+                size="sm"
+                onClick={handleJoin}
+                disabled={cast.chat.status !== 'open'}
+                className="text-xs px-3 py-1 h-auto"
+                title={`Join on ${CHAT_PLATFORM_LABELS[cast.chat.platform]}`}
+              >
+                {cast.chat.status === 'open' ? 'Join' : CHAT_STATUS_LABELS[cast.chat.status]}
+              </Button>
+            ) : (
+              <Button
+                variant="secondary"
+                size="sm"
+                onClick={handleReply}
+                className="text-xs px-3 py-1 h-auto"
+                title="Join group chat (requires paid Neynar plan)"
+              >
+                Request to Join
+              </Button>
+            )}
             <Button
               variant="secondary"
               size="sm"
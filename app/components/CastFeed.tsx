@@ -6,34 +6,55 @@ import { Input } from "./ui/Input";
 import { Button } from "./ui/Button";
 // import { StoredCast } from "../../lib/types"; // Commented out as it's not used
 import { EnrichedCast } from "../../lib/cast-enrichment";
+import { CastTag } from "../../lib/types";
+import { hasActiveFilters } from "../../lib/search-filters";
+import { SearchFilterFields, SearchFilterValues } from "./SearchFilterFields";
 
 interface CastFeedProps {
   casts: EnrichedCast[]
   loading?: boolean
   error?: string
   onRefresh?: () => void
-  onSearch?: (query: string) => void
+  onSearch?: (query: string, filters: SearchFilterValues) => void
+  tags?: CastTag[]
+  selectedTag?: string | null
+  onTagSelect?: (tag: string | null) => void
 }
 
+type FeedTab = "latest" | "trending";
+
+const FEED_TABS: { value: FeedTab; label: string }[] = [
+  { value: "latest", label: "Latest" },
+  { value: "trending", label: "Trending" }
+];
+
 export function CastFeed({ 
   casts = [], 
   loading = false, 
   error, 
   onRefresh,
-  onSearch
+  onSearch,
+  tags = [],
+  selectedTag = null,
+  onTagSelect
 }: CastFeedProps) {
   const [searchQuery, setSearchQuery] = useState("");
+  const [filters, setFilters] = useState<SearchFilterValues>({});
+  const [showFilters, setShowFilters] = useState(false);
+  const [tab, setTab] = useState<FeedTab>("latest");
+  const filtering = hasActiveFilters(filters);
 
   // Handle search with debouncing
   useEffect(() => {
     if (!onSearch) return;
     
     const debounceTimer = setTimeout(() => {
-      onSearch(searchQuery);
+      // The Trending tab overrides the sort picked in the filter drawer
+      onSearch(searchQuery, tab === "trending" ? { ...filters, sort: "trending" } : filters);
     }, 300);
     
     return () => clearTimeout(debounceTimer);
-  }, [searchQuery, onSearch]);
+  }, [searchQuery, filters, tab, onSearch]);
 
   const handleViewCast = (hash: string) => {
     console.log(`Viewing cast: ${hash}`);
@@ -42,6 +63,7 @@ export function CastFeed({
 
   const clearSearch = () => {
     setSearchQuery("");
+    setFilters({});
   };
 
   if (error) {
@@ -75,6 +97,28 @@ export function CastFeed({
 
   return (
     <div className="space-y-6">
+      {/* Latest / Trending Tabs */}
+      {onSearch && (
+        <div className="flex border-b border-border" role="tablist">
+          {FEED_TABS.map(({ value, label }) => (
+            <button
+              key={value}
+              type="button"
+              role="tab"
+              aria-selected={tab === value}
+              onClick={() => setTab(value)}
+              className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px transition-colors focus-ring ${
+                tab === value
+                  ? "border-base-blue text-base-blue"
+                  : "border-transparent text-muted-foreground hover:text-foreground"
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
       {/* Search and Filter Section */}
       <div className="flex flex-col sm:flex-row gap-4 items-start sm:items-center justify-between">
         <div className="flex-1 max-w-md">
@@ -88,7 +132,17 @@ export function CastFeed({
         </div>
         
         <div className="flex items-center space-x-2">
-          {searchQuery && (
+          {onSearch && (
+            <Button
+              variant={showFilters || filtering ? "secondary" : "ghost"}
+              size="sm"
+              onClick={() => setShowFilters(!showFilters)}
+              aria-expanded={showFilters}
+            >
+              Filters{filtering ? " •" : ""}
+            </Button>
+          )}
+          {(searchQuery || filtering) && (
             <Button
               variant="ghost"
               size="sm"
@@ -110,13 +164,39 @@ export function CastFeed({
         </div>
       </div>
 
+      {/* Filter Drawer */}
+      {onSearch && showFilters && (
+        <div className="max-w-md rounded-md border border-border bg-secondary/40 p-3">
+          <SearchFilterFields value={filters} onChange={setFilters} />
+        </div>
+      )}
+
+      {/* Tag Filter Chips */}
+      {onTagSelect && tags.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          <TagChip
+            label="All"
+            active={selectedTag === null}
+            onClick={() => onTagSelect(null)}
+          />
+          {tags.map((tag) => (
+            <TagChip
+              key={tag.slug}
+              label={tag.label}
+              active={selectedTag === tag.slug}
+              onClick={() => onTagSelect(selectedTag === tag.slug ? null : tag.slug)}
+            />
+          ))}
+        </div>
+      )}
+
       {/* Results Summary */}
-      {searchQuery && (
+      {(searchQuery || filtering) && (
         <div className="text-sm text-muted-foreground">
           {loading ? (
             "Searching..."
           ) : (
-            `Found ${casts.length} result${casts.length === 1 ? '' : 's'} for "${searchQuery}"`
+            `Found ${casts.length} result${casts.length === 1 ? '' : 's'}${searchQuery ? ` for "${searchQuery}"` : ''}`
           )}
         </div>
       )}
@@ -156,14 +236,14 @@ export function CastFeed({
             </svg>
           </div>
           <h3 className="text-lg font-semibold mb-2">
-            {searchQuery ? "No results found" : "No group chats yet"}
+            {searchQuery || selectedTag || filtering ? "No results found" : "No group chats yet"}
           </h3>
           <p className="text-muted-foreground mb-4">
-            {searchQuery 
-              ? "Try adjusting your search terms or check back later."
+            {searchQuery || selectedTag || filtering
+              ? "Try adjusting your search terms or filters, or check back later."
               : "Check back soon for curated group chat invites!"}
           </p>
-          {searchQuery && (
+          {(searchQuery || filtering) && (
             <Button
               variant="secondary"
               onClick={clearSearch}
@@ -176,3 +256,28 @@ export function CastFeed({
     </div>
   );
 }
+
+function TagChip({
+  label,
+  active,
+  onClick
+}: {
+  label: string
+  active: boolean
+  onClick: () => void
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      aria-pressed={active}
+      className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors focus-ring ${
+        active
+          ? "bg-base-blue text-white border-base-blue"
+          : "bg-secondary text-muted-foreground border-border hover:text-foreground"
+      }`}
+    >
+      {label}
+    </button>
+  );
+}
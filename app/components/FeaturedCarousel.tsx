@@ -0,0 +1,36 @@
+"use client";
+
+import { CastCard } from "./CastCard";
+import { EnrichedCast } from "../../lib/cast-enrichment";
+
+interface FeaturedCarouselProps {
+  casts: EnrichedCast[]
+  onViewCast: (hash: string) => void
+}
+
+export function FeaturedCarousel({ casts, onViewCast }: FeaturedCarouselProps) {
+  if (casts.length === 0) {
+    return null;
+  }
+
+  return (
+    <section className="mb-6" aria-label="Featured group chats">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold">📌 Featured</h3>
+        {casts.length > 1 && (
+          <span className="text-xs text-muted-foreground">Swipe for more</span>
+        )}
+      </div>
+      <div className="flex gap-4 overflow-x-auto snap-x snap-mandatory pb-2 -mx-4 px-4">
+        {casts.map((cast) => (
+          <div
+            key={cast.hash}
+            className={`snap-start flex-shrink-0 ${casts.length > 1 ? 'w-[85%]' : 'w-full'}`}
+          >
+            <CastCard cast={cast} onViewCast={onViewCast} />
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+}
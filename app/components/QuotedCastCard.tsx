@@ -0,0 +1,77 @@
+"use client";
+
+import { useViewCast } from "@coinbase/onchainkit/minikit";
+import Image from "next/image";
+import { QuotedCast } from "../../lib/types";
+import { formatRelativeTime } from "../../lib/utils";
+import { proxiedMediaUrl } from "../../lib/media-proxy";
+
+interface QuotedCastCardProps {
+  quotedCast: QuotedCast;
+}
+
+/**
+ * A quoted cast nested inside the card of the cast that quotes it.
+ * Tapping it opens the quoted cast in the Farcaster client.
+ */
+export function QuotedCastCard({ quotedCast }: QuotedCastCardProps) {
+  const { viewCast } = useViewCast();
+  const image = quotedCast.embeds.find(embed => embed.type === 'image' && embed.url);
+  const hasVideo = quotedCast.embeds.some(embed => embed.type === 'video');
+  const initial = quotedCast.author.charAt(0).toUpperCase() || quotedCast.username?.charAt(0).toUpperCase() || '?';
+
+  const handleOpen = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    viewCast({ hash: quotedCast.hash });
+  };
+
+  return (
+    <button
+      type="button"
+      onClick={handleOpen}
+      className="w-full text-left border border-gray-15 dark:border-gray-80 rounded-lg p-3 bg-gray-10/30 dark:bg-gray-80/30 hover:bg-gray-10/60 dark:hover:bg-gray-80/60 transition-colors"
+    >
+      <div className="flex items-center space-x-2 min-w-0">
+        {quotedCast.authorPfp ? (
+          <Image
+            src={proxiedMediaUrl(quotedCast.authorPfp)}
+            alt={quotedCast.author}
+            width={20}
+            height={20}
+            className="w-5 h-5 rounded-full object-cover"
+          />
+        ) : (
+          <div className="w-5 h-5 rounded-full bg-base-blue text-white flex items-center justify-center text-[10px] font-semibold">
+            {initial}
+          </div>
+        )}
+        <span className="text-xs font-semibold text-foreground truncate">{quotedCast.author}</span>
+        {quotedCast.username && (
+          <span className="text-xs text-muted-foreground truncate">@{quotedCast.username}</span>
+        )}
+        <span className="text-xs text-muted-foreground">·</span>
+        <span className="text-xs text-muted-foreground whitespace-nowrap">{formatRelativeTime(quotedCast.timestamp)}</span>
+      </div>
+
+      {quotedCast.content && (
+        <p className="text-sm text-foreground leading-relaxed whitespace-pre-wrap line-clamp-4 mt-2">
+          {quotedCast.content}
+        </p>
+      )}
+
+      {image?.url ? (
+        <div className="mt-2 rounded-md overflow-hidden border border-gray-15 dark:border-gray-80">
+          <Image
+            src={proxiedMediaUrl(image.url)}
+            alt="Quoted cast media"
+            width={400}
+            height={240}
+            className="w-full h-auto max-h-48 object-cover"
+          />
+        </div>
+      ) : hasVideo && (
+        <p className="text-xs text-muted-foreground mt-2">▶ Video</p>
+      )}
+    </button>
+  );
+}
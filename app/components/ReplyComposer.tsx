@@ -7,6 +7,7 @@ import { useOpenUrl } from '@coinbase/onchainkit/minikit';
 import Image from 'next/image';
 import { EnrichedCast } from '../../lib/cast-enrichment';
 import { FarcasterUser } from '../../lib/farcaster-auth';
+import { proxiedMediaUrl } from '../../lib/media-proxy';
 import { postReplyAction, initializeFarcasterAuth, checkUserSignerStatus, getUserProfileAction, testEnvironmentAction } from '../actions/replies';
 
 interface ReplyComposerProps {
@@ -165,7 +166,7 @@ export function ReplyComposer({
       console.log('Environment test results:', results);
       
       let debugMessage = 'Environment Test:\n';
-      debugMessage += `Neynar API: ${results.neynar.configured ? 'Configured' : 'Not configured'}`;
+      debugMessage += `Farcaster provider (${results.provider ?? 'none'}): ${results.neynar.configured ? 'Configured' : 'Not configured'}`;
       if (results.neynar.configured) {
         debugMessage += ` - ${results.neynar.working ? 'Working' : 'Failed'}`;
         if (results.neynar.planLimitation) {
@@ -241,7 +242,7 @@ export function ReplyComposer({
                 <div className="flex items-start space-x-2">
                   {cast.metadata?.authorPfp && (
                     <Image
-                      src={cast.metadata.authorPfp}
+                      src={proxiedMediaUrl(cast.metadata.authorPfp)}
                       alt={cast.metadata?.author || 'Unknown'}
                       width={32}
                       height={32}
@@ -329,7 +330,7 @@ export function ReplyComposer({
                 <div className="flex items-center space-x-2 text-sm text-muted-foreground">
                   {user.pfpUrl && (
                     <Image
-                      src={user.pfpUrl}
+                      src={proxiedMediaUrl(user.pfpUrl)}
                       alt={user.displayName}
                       width={24}
                       height={24}
@@ -0,0 +1,95 @@
+"use client";
+
+import { SearchFilters, SearchSort } from "../../lib/types";
+import { parseDateRange, toDateInputValue } from "../../lib/search-filters";
+import { Input } from "./ui/Input";
+
+export type SearchFilterValues = Omit<SearchFilters, 'query'>;
+
+interface SearchFilterFieldsProps {
+  value: SearchFilterValues
+  onChange: (value: SearchFilterValues) => void
+  showStatus?: boolean
+}
+
+const SORT_LABELS: Record<SearchSort, string> = {
+  relevance: 'Best match',
+  newest: 'Newest',
+  oldest: 'Oldest',
+  trending: 'Trending'
+};
+
+const selectClassName = "w-full rounded-md border border-border bg-input px-2 py-2 text-xs sm:text-sm focus-ring";
+
+/**
+ * Author, date range and sort fields (plus status for admins) for SearchFilters
+ */
+export function SearchFilterFields({ value, onChange, showStatus = false }: SearchFilterFieldsProps) {
+  const from = toDateInputValue(value.dateRange?.start);
+  const to = toDateInputValue(value.dateRange?.end);
+
+  const setDates = (nextFrom: string, nextTo: string) => {
+    const range = parseDateRange(nextFrom, nextTo);
+    // Keep the previous range while a half-typed or inverted one is invalid
+    if (!('error' in range)) {
+      onChange({ ...value, dateRange: range.dateRange });
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-2 gap-2">
+      <label className="col-span-2 space-y-1 text-xs text-muted-foreground">
+        <span>Author</span>
+        <Input
+          placeholder="Name or @username"
+          value={value.author ?? ''}
+          onChange={(e) => onChange({ ...value, author: e.target.value || undefined })}
+        />
+      </label>
+      <label className="space-y-1 text-xs text-muted-foreground">
+        <span>From</span>
+        <Input
+          type="date"
+          value={from}
+          max={to || undefined}
+          onChange={(e) => setDates(e.target.value, to)}
+        />
+      </label>
+      <label className="space-y-1 text-xs text-muted-foreground">
+        <span>To</span>
+        <Input
+          type="date"
+          value={to}
+          min={from || undefined}
+          onChange={(e) => setDates(from, e.target.value)}
+        />
+      </label>
+      <label className={`space-y-1 text-xs text-muted-foreground ${showStatus ? '' : 'col-span-2'}`}>
+        <span>Sort</span>
+        <select
+          value={value.sort ?? 'relevance'}
+          onChange={(e) => onChange({ ...value, sort: e.target.value as SearchSort })}
+          className={selectClassName}
+        >
+          {(Object.keys(SORT_LABELS) as SearchSort[]).map((sort) => (
+            <option key={sort} value={sort}>{SORT_LABELS[sort]}</option>
+          ))}
+        </select>
+      </label>
+      {showStatus && (
+        <label className="space-y-1 text-xs text-muted-foreground">
+          <span>Status</span>
+          <select
+            value={value.status ?? 'all'}
+            onChange={(e) => onChange({ ...value, status: e.target.value as SearchFilterValues['status'] })}
+            className={selectClassName}
+          >
+            <option value="all">All</option>
+            <option value="active">Active</option>
+            <option value="hidden">Hidden</option>
+          </select>
+        </label>
+      )}
+    </div>
+  );
+}
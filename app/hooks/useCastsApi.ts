@@ -1,8 +1,13 @@
 // Client-side API hook for fetching casts with pagination
 'use client'
 
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useRef } from 'react'
 import { EnrichedCast } from '../../lib/cast-enrichment'
+import { SearchFilters } from '../../lib/types'
+import { isIndexedTrending, parseSearchFilterParams, searchFiltersToParams } from '../../lib/search-filters'
+
+// Status is admin only and rejected by /api/casts
+export type CastsApiFilters = Omit<SearchFilters, 'query' | 'status'>
 
 export interface CastsApiResponse {
   success: boolean
@@ -10,6 +15,7 @@ export interface CastsApiResponse {
   total: number
   page?: number
   limit?: number
+  nextCursor?: string | null
   error?: string
 }
 
@@ -17,6 +23,8 @@ export interface UseCastsApiOptions {
   page?: number
   limit?: number
   query?: string
+  filters?: CastsApiFilters
+  cursor?: string | null
   autoFetch?: boolean
 }
 
@@ -25,17 +33,28 @@ export function useCastsApi(options: UseCastsApiOptions = {}) {
     page = 1,
     limit = 20,
     query = '',
+    filters,
+    cursor = null,
     autoFetch = true
   } = options
 
+  // Filters are compared as their encoded string so a new object each render does not refetch
+  const filterParams = encodeFilters(filters)
+
   const [data, setData] = useState<CastsApiResponse | null>(null)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
 
+  // Cursor that fetches each page number, learned from previous responses
+  const pageCursors = useRef(new Map<number, string>())
+
   const fetchCasts = useCallback(async (
     fetchPage: number = page,
     fetchLimit: number = limit,
-    fetchQuery: string = query
+    fetchQuery: string = query,
+    fetchCursor: string | null = cursor,
+    append: boolean = false,
+    fetchFilterParams: string = filterParams
   ) => {
     try {
       setLoading(true)
@@ -47,8 +66,18 @@ export function useCastsApi(options: UseCastsApiOptions = {}) {
         limit: fetchLimit.toString()
       })
 
+      const filterEntries = Array.from(new URLSearchParams(fetchFilterParams).entries())
+      filterEntries.forEach(([key, value]) => params.append(key, value))
+
+      // Searches and filtered results are paged by number; a tag alone and the
+      // trending feed still use the cursor
+      const parsed = parseSearchFilterParams(new URLSearchParams(fetchFilterParams))
+      const searching = fetchQuery.trim() ||
+        !(filterEntries.every(([key]) => key === 'tag') || ('filters' in parsed && isIndexedTrending(parsed.filters)))
       if (fetchQuery.trim()) {
         params.append('query', fetchQuery.trim())
+      } else if (fetchCursor && !searching) {
+        params.append('cursor', fetchCursor)
       }
 
       const response = await fetch(`/api/casts?${params.toString()}`)
@@ -63,7 +92,14 @@ export function useCastsApi(options: UseCastsApiOptions = {}) {
         throw new Error(result.error || 'Failed to fetch casts')
       }
 
-      setData(result)
+      if (result.nextCursor) {
+        pageCursors.current.set(fetchPage + 1, result.nextCursor)
+      }
+
+      setData(prev => append && prev
+        ? { ...result, casts: [...prev.casts, ...result.casts] }
+        : result
+      )
       
       return result
 
@@ -75,7 +111,7 @@ export function useCastsApi(options: UseCastsApiOptions = {}) {
     } finally {
       setLoading(false)
     }
-  }, [page, limit, query])
+  }, [page, limit, query, cursor, filterParams])
 
   // Auto-fetch on mount and when dependencies change
   useEffect(() => {
@@ -86,11 +122,15 @@ export function useCastsApi(options: UseCastsApiOptions = {}) {
 
   // Pagination helpers
   const nextPage = useCallback(() => {
-    if (data && data.page && data.total) {
+    if (data && data.page) {
       const currentPage = data.page
+      const nextCursor = pageCursors.current.get(currentPage + 1)
+      if (nextCursor) {
+        return fetchCasts(currentPage + 1, limit, query, nextCursor)
+      }
       const totalPages = Math.ceil(data.total / limit)
       if (currentPage < totalPages) {
-        return fetchCasts(currentPage + 1, limit, query)
+        return fetchCasts(currentPage + 1, limit, query, null)
       }
     }
     return Promise.resolve(null)
@@ -98,33 +138,46 @@ export function useCastsApi(options: UseCastsApiOptions = {}) {
 
   const prevPage = useCallback(() => {
     if (data && data.page && data.page > 1) {
-      return fetchCasts(data.page - 1, limit, query)
+      const prevCursor = pageCursors.current.get(data.page - 1) ?? null
+      return fetchCasts(data.page - 1, limit, query, prevCursor)
     }
     return Promise.resolve(null)
   }, [data, limit, query, fetchCasts])
 
   const goToPage = useCallback((targetPage: number) => {
-    return fetchCasts(targetPage, limit, query)
+    const targetCursor = pageCursors.current.get(targetPage) ?? null
+    return fetchCasts(targetPage, limit, query, targetCursor)
   }, [limit, query, fetchCasts])
 
-  const searchCasts = useCallback((searchQuery: string) => {
-    return fetchCasts(1, limit, searchQuery) // Reset to page 1 for new search
-  }, [limit, fetchCasts])
+  // Append the next page to the current list (infinite scroll)
+  const loadMore = useCallback(() => {
+    if (data?.nextCursor) {
+      return fetchCasts((data.page || 1) + 1, limit, query, data.nextCursor, true)
+    }
+    return Promise.resolve(null)
+  }, [data, limit, query, fetchCasts])
+
+  const searchCasts = useCallback((searchQuery: string, searchFilters?: CastsApiFilters) => {
+    pageCursors.current.clear()
+    // Reset to page 1 for new search
+    return fetchCasts(1, limit, searchQuery, null, false, searchFilters ? encodeFilters(searchFilters) : filterParams)
+  }, [limit, filterParams, fetchCasts])
 
   const refetch = useCallback(() => {
-    return fetchCasts(page, limit, query)
-  }, [page, limit, query, fetchCasts])
+    return fetchCasts(page, limit, query, cursor)
+  }, [page, limit, query, cursor, fetchCasts])
 
   // Computed properties
   const currentPage = data?.page || page
   const totalPages = data ? Math.ceil(data.total / limit) : 0
-  const hasNextPage = currentPage < totalPages
+  const hasNextPage = Boolean(data?.nextCursor) || currentPage < totalPages
   const hasPrevPage = currentPage > 1
 
   return {
     // Data
     casts: data?.casts || [],
     total: data?.total || 0,
+    nextCursor: data?.nextCursor ?? null,
     
     // State
     loading,
@@ -141,11 +194,16 @@ export function useCastsApi(options: UseCastsApiOptions = {}) {
     nextPage,
     prevPage,
     goToPage,
+    loadMore,
     searchCasts,
     refetch
   }
 }
 
+function encodeFilters(filters?: CastsApiFilters): string {
+  return filters ? searchFiltersToParams({ ...filters, query: '' }).toString() : ''
+}
+
 // Hook for debugging API calls
 export function useApiDebug() {
   const [calls, setCalls] = useState<Array<{
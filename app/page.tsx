@@ -2,13 +2,13 @@
 import { Suspense } from 'react'
 import { AppClient } from './components/AppClient'
 import { MiniKitWrapper } from './components/MiniKitWrapper'
-import { getCachedCasts } from './actions/casts'
+import { getCachedCasts, getTagsAction } from './actions/casts'
 import { CastCardSkeleton } from './components/CastCard'
 
 async function CastData() {
   // This will now intelligently wait for data on first load
-  const enrichedCasts = await getCachedCasts()
-  return <AppClient initialCasts={enrichedCasts} />
+  const [enrichedCasts, tags] = await Promise.all([getCachedCasts(), getTagsAction()])
+  return <AppClient initialCasts={enrichedCasts} tags={tags} />
 }
 
 export default function App() {
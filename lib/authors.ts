@@ -0,0 +1,62 @@
+// Authors - Per-host chat index and profile lookup for author pages
+
+import { getFarcasterProvider } from './farcaster';
+import { CastOrderedIndexKey } from './store';
+import { StoredCast } from './types';
+
+export interface AuthorProfile {
+  fid: number;
+  username?: string;
+  displayName: string;
+  pfpUrl?: string;
+}
+
+/**
+ * Parse a fid from a route segment or query string
+ */
+export function parseFid(value: string | null | undefined): number | null {
+  if (!value || !/^\d{1,12}$/.test(value)) {
+    return null;
+  }
+  const fid = Number(value);
+  return fid > 0 ? fid : null;
+}
+
+/**
+ * Ordered index holding the active casts by one author
+ */
+export function authorIndexKey(fid: number): CastOrderedIndexKey {
+  return `casts:author:${fid}`;
+}
+
+/**
+ * Profile for an author page. Comes from the Farcaster provider, falling back
+ * to the details stored on the author's casts when the provider has nothing
+ * (or cannot be reached). Null when neither knows the fid.
+ */
+export async function getAuthorProfile(fid: number, casts: StoredCast[] = []): Promise<AuthorProfile | null> {
+  try {
+    const user = await getFarcasterProvider().getUser(fid);
+    if (user) {
+      return {
+        fid,
+        username: user.username || undefined,
+        displayName: user.displayName,
+        pfpUrl: user.pfpUrl
+      };
+    }
+  } catch (error) {
+    console.error(`Failed to fetch profile for fid ${fid}:`, error);
+  }
+
+  const stored = casts.find(cast => cast.metadata?.authorFid === fid)?.metadata;
+  if (!stored) {
+    return null;
+  }
+  return {
+    fid,
+    username: stored.username,
+    displayName: stored.author || stored.username || `fid ${fid}`,
+    pfpUrl: stored.authorPfp
+  };
+}
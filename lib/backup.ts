@@ -0,0 +1,498 @@
+// Keyspace Backup - Versioned snapshots of every app-owned Redis key, with verified restore
+
+import { createHash } from 'crypto';
+import { rawRedis } from './redis';
+import { notificationServiceKey } from './notification';
+import { invalidateCachedMetadata } from './metadata-cache';
+import { saveCastRecord } from './utils';
+import { CastFeedError, CastFeedErrorCode, StoredCast } from './types';
+
+export const BACKUP_FORMAT = 'basedchats-backup';
+export const BACKUP_VERSION = 1;
+
+export type RestoreMode = 'merge' | 'replace';
+
+/**
+ * Keys owned by the app. Admin sessions are deliberately left out - a restored
+ * archive must never bring back (or carry around) live login sessions. So are
+ * the CastStore caches (metadata:*, unfurl:*): they live outside casts:* on
+ * purpose, are rebuilt on demand and never belong in a backup.
+ */
+export const BACKUP_KEY_PATTERNS = [
+  'casts:*',                              // Cast records and their indexes
+  'tags:taxonomy',
+  'pins:order',
+  `${notificationServiceKey}:user:*`,     // Mini app notification tokens
+  'signer:*',                             // Farcaster signers
+  'rate_limit:*',
+  'admins',
+  'audit:*'
+];
+
+/**
+ * App keys left out of archives because restoreBackup rebuilds them from the
+ * restored cast records: the feed, tag, author, schedule and search indexes.
+ * Engagement history and trending scores are archived - past hours cannot be
+ * sampled again.
+ */
+export const DERIVED_KEY_PATTERNS = [
+  'casts:all',
+  'casts:active',
+  'casts:feed',
+  'casts:feed-built',
+  'casts:tag:*',
+  'casts:author:*',
+  'casts:scheduled',
+  'casts:expiring',
+  'casts:terms',
+  'casts:term:*'
+];
+
+const ADMINS_KEY = 'admins';
+
+const READ_BATCH_SIZE = 100;
+const WRITE_BATCH_SIZE = 100;
+
+interface BackupEntryBase {
+  key: string;
+  ttl?: number;                // Seconds remaining when the snapshot was taken
+}
+
+export type BackupEntry = BackupEntryBase & (
+  | { type: 'string'; value: string }
+  | { type: 'set'; members: string[] }
+  | { type: 'zset'; members: { member: string; score: number }[] }
+  | { type: 'hash'; fields: Record<string, string> }
+  | { type: 'list'; items: string[] }
+);
+
+export interface BackupArchive {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: number;
+  createdBy: string;
+  keyCount: number;
+  checksum: string;            // sha256 of JSON.stringify(entries)
+  entries: BackupEntry[];
+}
+
+export interface BackupVerification {
+  valid: boolean;
+  errors: string[];
+  keyCount: number;
+  createdAt?: number;
+  createdBy?: string;
+}
+
+export interface RestoreReport {
+  mode: RestoreMode;
+  dryRun: boolean;
+  verification: BackupVerification;
+  created: number;             // Archive keys not currently in Redis
+  updated: number;             // Archive keys that already exist
+  deleted: number;             // App keys removed because they are not in the archive (replace only)
+  warnings: string[];          // Things to check before running the restore for real
+}
+
+function getClient() {
+  if (!rawRedis) {
+    throw new CastFeedError('Backups require Redis (REDIS_URL/REDIS_TOKEN)', CastFeedErrorCode.REDIS_ERROR);
+  }
+  return rawRedis;
+}
+
+function computeChecksum(entries: BackupEntry[]): string {
+  return createHash('sha256').update(JSON.stringify(entries)).digest('hex');
+}
+
+function matchesPattern(key: string, patterns: string[]): boolean {
+  return patterns.some(pattern =>
+    pattern.endsWith('*') ? key.startsWith(pattern.slice(0, -1)) : key === pattern
+  );
+}
+
+function isAppKey(key: string): boolean {
+  return matchesPattern(key, BACKUP_KEY_PATTERNS);
+}
+
+function isDerivedKey(key: string): boolean {
+  return matchesPattern(key, DERIVED_KEY_PATTERNS);
+}
+
+// casts:<hash> holds one cast record (older records may have mixed-case hashes)
+function isCastRecordKey(key: string): boolean {
+  return /^casts:0x[0-9a-f]+$/i.test(key);
+}
+
+/**
+ * Every key currently matching BACKUP_KEY_PATTERNS, sorted. Derived keys are
+ * only included when asked for (a replace restore clears them too).
+ */
+async function scanAppKeys(includeDerived = false): Promise<string[]> {
+  const client = getClient();
+  const keys = new Set<string>();
+
+  for (const pattern of BACKUP_KEY_PATTERNS) {
+    let cursor = '0';
+    do {
+      const [next, batch] = await client.scan(cursor, { match: pattern, count: 500 });
+      batch.forEach(key => keys.add(key));
+      cursor = String(next);
+    } while (cursor !== '0');
+  }
+
+  return Array.from(keys).filter(key => includeDerived || !isDerivedKey(key)).sort();
+}
+
+/**
+ * Pair up a flat [a, b, a, b] reply (raw HGETALL / ZRANGE WITHSCORES)
+ */
+function pairs(reply: unknown): [string, string][] {
+  if (Array.isArray(reply)) {
+    const result: [string, string][] = [];
+    for (let i = 0; i < reply.length; i += 2) {
+      result.push([String(reply[i]), String(reply[i + 1])]);
+    }
+    return result;
+  }
+  return Object.entries((reply ?? {}) as Record<string, unknown>).map(([field, value]) => [field, String(value)]);
+}
+
+/**
+ * Read a batch of keys in two pipelined round trips: TYPE and TTL for every
+ * key, then the read that matches each type
+ */
+async function readEntries(keys: string[]): Promise<BackupEntry[]> {
+  const client = getClient();
+
+  const meta = client.pipeline();
+  keys.forEach(key => meta.type(key).ttl(key));
+  const metaReplies = await meta.exec<unknown[]>();
+
+  const readable: { base: BackupEntryBase; type: BackupEntry['type'] }[] = [];
+  const reads = client.pipeline();
+  keys.forEach((key, index) => {
+    const type = String(metaReplies[index * 2]);
+    const ttl = Number(metaReplies[index * 2 + 1]);
+    const base: BackupEntryBase = ttl > 0 ? { key, ttl } : { key };
+
+    switch (type) {
+      case 'string':
+        reads.get(key);
+        break;
+      case 'set':
+        reads.smembers(key);
+        break;
+      case 'zset':
+        reads.zrange(key, 0, -1, { withScores: true });
+        break;
+      case 'hash':
+        reads.hgetall(key);
+        break;
+      case 'list':
+        reads.lrange(key, 0, -1);
+        break;
+      default:
+        // Expired between SCAN and TYPE ('none'), or a type the app never writes
+        return;
+    }
+    readable.push({ base, type: type as BackupEntry['type'] });
+  });
+
+  if (readable.length === 0) {
+    return [];
+  }
+  const values = await reads.exec<unknown[]>();
+
+  const entries: BackupEntry[] = [];
+  readable.forEach(({ base, type }, index) => {
+    const reply = values[index];
+    switch (type) {
+      case 'string':
+        if (reply !== null) {
+          entries.push({ ...base, type: 'string', value: String(reply) });
+        }
+        break;
+      case 'set':
+        entries.push({ ...base, type: 'set', members: (reply as unknown[]).map(String).sort() });
+        break;
+      case 'zset':
+        entries.push({
+          ...base,
+          type: 'zset',
+          members: pairs(reply).map(([member, score]) => ({ member, score: Number(score) }))
+        });
+        break;
+      case 'hash':
+        entries.push({ ...base, type: 'hash', fields: Object.fromEntries(pairs(reply)) });
+        break;
+      case 'list':
+        entries.push({ ...base, type: 'list', items: (reply as unknown[]).map(String) });
+        break;
+    }
+  });
+
+  // A key emptied between TYPE and the read comes back empty - there is nothing to restore
+  return entries.filter(entry =>
+    entry.type === 'string' ||
+    (entry.type === 'hash' ? Object.keys(entry.fields).length > 0 : (entry.type === 'list' ? entry.items : entry.members).length > 0)
+  );
+}
+
+/**
+ * Snapshot every app-owned key, except the derived ones, into a single archive
+ */
+export async function createBackup(createdBy: string): Promise<BackupArchive> {
+  const keys = await scanAppKeys();
+  const entries: BackupEntry[] = [];
+
+  for (let i = 0; i < keys.length; i += READ_BATCH_SIZE) {
+    entries.push(...await readEntries(keys.slice(i, i + READ_BATCH_SIZE)));
+  }
+
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    createdAt: Date.now(),
+    createdBy,
+    keyCount: entries.length,
+    checksum: computeChecksum(entries),
+    entries
+  };
+}
+
+function parseCastRecord(value: string): StoredCast | null {
+  try {
+    const cast = JSON.parse(value) as StoredCast;
+    return cast && typeof cast.hash === 'string' ? cast : null;
+  } catch {
+    return null;
+  }
+}
+
+function isCastRecordEntry(value: Record<string, unknown>): boolean {
+  return value.type === 'string' && typeof value.value === 'string' &&
+    parseCastRecord(value.value)?.hash === String(value.key).slice('casts:'.length);
+}
+
+function describeEntryError(entry: unknown): string | null {
+  const value = (entry ?? {}) as Record<string, unknown>;
+  if (typeof value.key !== 'string' || !value.key) {
+    return 'entry without a key';
+  }
+  if (!isAppKey(value.key)) {
+    return `"${value.key}" is not an app-owned key`;
+  }
+  if (value.ttl !== undefined && !(typeof value.ttl === 'number' && value.ttl > 0)) {
+    return `"${value.key}" has an invalid ttl`;
+  }
+  if (isCastRecordKey(value.key) && !isCastRecordEntry(value)) {
+    return `"${value.key}" is not a valid cast record`;
+  }
+
+  const isStringArray = (items: unknown) =>
+    Array.isArray(items) && items.length > 0 && items.every(item => typeof item === 'string');
+
+  switch (value.type) {
+    case 'string':
+      return typeof value.value === 'string' ? null : `"${value.key}" is missing its value`;
+    case 'set':
+      return isStringArray(value.members) ? null : `"${value.key}" has invalid set members`;
+    case 'list':
+      return isStringArray(value.items) ? null : `"${value.key}" has invalid list items`;
+    case 'zset':
+      return Array.isArray(value.members) && value.members.length > 0 && value.members.every(item =>
+        typeof item?.member === 'string' && typeof item?.score === 'number' && Number.isFinite(item.score)
+      ) ? null : `"${value.key}" has invalid sorted set members`;
+    case 'hash':
+      return value.fields && typeof value.fields === 'object' && Object.keys(value.fields).length > 0 &&
+        Object.values(value.fields).every(field => typeof field === 'string')
+        ? null : `"${value.key}" has invalid hash fields`;
+    default:
+      return `"${value.key}" has unknown type ${JSON.stringify(value.type)}`;
+  }
+}
+
+/**
+ * Check an uploaded archive before anything is written: format, version,
+ * key count, checksum and that every entry is a well-formed app-owned key
+ */
+export function verifyBackup(archive: unknown): BackupVerification {
+  const value = (archive ?? {}) as Partial<BackupArchive>;
+  const errors: string[] = [];
+
+  if (value.format !== BACKUP_FORMAT) {
+    errors.push('Not a BasedChats backup archive');
+  }
+  if (typeof value.version !== 'number' || value.version > BACKUP_VERSION) {
+    errors.push(`Unsupported backup version ${JSON.stringify(value.version)} (supported: ${BACKUP_VERSION})`);
+  }
+
+  const entries = Array.isArray(value.entries) ? value.entries : null;
+  if (!entries) {
+    errors.push('Archive has no entries array');
+  } else {
+    if (value.keyCount !== entries.length) {
+      errors.push(`Key count mismatch: header says ${value.keyCount}, archive has ${entries.length}`);
+    }
+    if (value.checksum !== computeChecksum(entries)) {
+      errors.push('Checksum mismatch - the archive is corrupt or was edited');
+    }
+
+    const seen = new Set<string>();
+    for (const entry of entries) {
+      const error = describeEntryError(entry);
+      if (error) {
+        errors.push(error);
+      } else if (seen.has(entry.key)) {
+        errors.push(`"${entry.key}" appears more than once`);
+      } else {
+        seen.add(entry.key);
+      }
+    }
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors: errors.slice(0, 50),
+    keyCount: entries?.length ?? 0,
+    createdAt: value.createdAt,
+    createdBy: value.createdBy
+  };
+}
+
+/**
+ * Admin addresses the archive would put back that are not admins now -
+ * typically addresses revoked since the snapshot was taken
+ */
+async function findRestoredAdmins(entries: BackupEntry[]): Promise<string[]> {
+  const archived = entries.find(entry => entry.key === ADMINS_KEY);
+  if (archived?.type !== 'set') {
+    return [];
+  }
+  const current = new Set((await getClient().smembers(ADMINS_KEY)).map(String));
+  return archived.members.filter(member => !current.has(member));
+}
+
+/**
+ * Restore an archive after verifying it.
+ *
+ * merge   - archive keys are written over existing values (sets, sorted sets
+ *           and hashes are unioned); app keys missing from the archive are kept.
+ * replace - every app-owned key is deleted first, leaving exactly the archive.
+ *
+ * Either way each restored cast record is written through saveCastRecord, so
+ * the feed, tag, author, schedule and search indexes match the restored
+ * status rather than whatever was indexed before. Derived keys in older
+ * archives are skipped.
+ *
+ * An archive that fails verification throws a CastFeedError with
+ * VALIDATION_ERROR and nothing is written. With dryRun only the report is built.
+ */
+export async function restoreBackup(
+  archive: unknown,
+  options: { mode: RestoreMode; dryRun: boolean }
+): Promise<RestoreReport> {
+  const verification = verifyBackup(archive);
+  if (!verification.valid) {
+    throw new CastFeedError(
+      `Backup failed verification: ${verification.errors.join('; ')}`,
+      CastFeedErrorCode.VALIDATION_ERROR,
+      verification
+    );
+  }
+
+  const client = getClient();
+  const archived = (archive as BackupArchive).entries;
+  const entries = archived.filter(entry => !isDerivedKey(entry.key));
+  const archiveKeys = new Set(entries.map(entry => entry.key));
+  const existingKeys = await scanAppKeys();
+  const existing = new Set(existingKeys);
+  const staleKeys = options.mode === 'replace' ? existingKeys.filter(key => !archiveKeys.has(key)) : [];
+
+  const warnings: string[] = [];
+  const restoredAdmins = await findRestoredAdmins(entries);
+  if (restoredAdmins.length > 0) {
+    warnings.push(
+      `Restores admin access for ${restoredAdmins.length} address(es) that are not admins now: ${restoredAdmins.join(', ')}`
+    );
+  }
+  if (options.mode === 'replace' && !archiveKeys.has(ADMINS_KEY) && existing.has(ADMINS_KEY)) {
+    warnings.push('The archive has no admins set - replace removes every current admin address');
+  }
+  if (entries.length < archived.length) {
+    warnings.push(`${archived.length - entries.length} derived index key(s) are skipped and rebuilt from the cast records`);
+  }
+
+  const report: RestoreReport = {
+    mode: options.mode,
+    dryRun: options.dryRun,
+    verification,
+    created: entries.filter(entry => !existing.has(entry.key)).length,
+    updated: entries.filter(entry => existing.has(entry.key)).length,
+    deleted: staleKeys.length,
+    warnings
+  };
+
+  if (options.dryRun) {
+    return report;
+  }
+
+  // Replace clears every app key, derived ones included, and the ones about to be rewritten
+  const keysToClear = options.mode === 'replace' ? await scanAppKeys(true) : [];
+  for (let i = 0; i < keysToClear.length; i += WRITE_BATCH_SIZE) {
+    await client.del(...keysToClear.slice(i, i + WRITE_BATCH_SIZE));
+  }
+
+  // Verification guarantees every cast record is a string holding valid JSON
+  const records = entries.filter((entry): entry is Extract<BackupEntry, { type: 'string' }> =>
+    entry.type === 'string' && isCastRecordKey(entry.key)
+  );
+  const others = entries.filter(entry => !isCastRecordKey(entry.key));
+
+  for (let i = 0; i < others.length; i += WRITE_BATCH_SIZE) {
+    const pipeline = client.pipeline();
+
+    for (const entry of others.slice(i, i + WRITE_BATCH_SIZE)) {
+      switch (entry.type) {
+        case 'string':
+          pipeline.set(entry.key, entry.value);
+          break;
+        case 'set': {
+          const [first, ...rest] = entry.members;
+          pipeline.sadd(entry.key, first, ...rest);
+          break;
+        }
+        case 'zset': {
+          const [first, ...rest] = entry.members;
+          pipeline.zadd(entry.key, first, ...rest);
+          break;
+        }
+        case 'hash':
+          pipeline.hset(entry.key, entry.fields);
+          break;
+        case 'list':
+          // Lists are never unioned - the archive copy wins
+          pipeline.del(entry.key);
+          pipeline.rpush(entry.key, ...entry.items);
+          break;
+      }
+
+      if (entry.ttl) {
+        pipeline.expire(entry.key, entry.ttl);
+      }
+    }
+
+    await pipeline.exec();
+  }
+
+  // After pins:order, so pinned casts stay out of the chronological feed
+  for (const entry of records) {
+    await saveCastRecord(parseCastRecord(entry.value)!);
+  }
+
+  // Restored records may not match what was cached for them
+  await invalidateCachedMetadata();
+
+  return report;
+}
@@ -1,6 +1,14 @@
 // Cast Enrichment Service - Dynamically fetch rich metadata for public feed
 
-import { StoredCast } from './types';
+import { refreshCastMetadata } from './utils';
+import { claimMetadataRefresh, getCachedMetadata, setCachedMetadata } from './metadata-cache';
+import { CastId, FarcasterCast, getFarcasterProvider } from './farcaster';
+import { classifyEmbeds } from './embeds';
+import { toCastId } from './cast-identity';
+import { getLinkPreview } from './link-preview';
+import { signEmbedImages } from './media-signature';
+import { clearUpstreamMiss, isUpstreamCheckDue, recordUpstreamMisses } from './upstream-health';
+import { CastEmbed, QuotedCast, StoredCast } from './types';
 
 // Define the enriched metadata structure
 interface EnrichedMetadata {
@@ -11,15 +19,7 @@ interface EnrichedMetadata {
   content: string;
   timestamp: number;
   parentHash?: string;
-  embeds?: Array<{
-    type: string;
-    url?: string;
-    metadata?: {
-      title?: string;
-      description?: string;
-      image?: string;
-    };
-  }>;
+  embeds?: CastEmbed[];
   reactions: {
     likes: number;
     recasts: number;
@@ -30,19 +30,55 @@ interface EnrichedMetadata {
 // EnrichedCast with properly typed metadata
 export interface EnrichedCast extends Omit<StoredCast, 'metadata'> {
   metadata?: EnrichedMetadata;
+  highlights?: string[];     // Search terms this cast matched (search results only)
 }
 
+// Hashes per bulk lookup request
+const BULK_LOOKUP_SIZE = 25;
+
+// Upstream requests in flight at once, across bulk and per-hash lookups
+const MAX_CONCURRENT_LOOKUPS = 3;
+
+// Link pages unfurled at once
+const MAX_CONCURRENT_UNFURLS = 4;
+
 /**
- * Fetch rich metadata for a single cast hash
+ * Run `task` over `items` with at most `limit` running at once
  */
-async function fetchCastMetadata(hash: string, retries: number = 2): Promise<EnrichedCast['metadata'] | null> {
-  const neynarApiKey = process.env.NEYNAR_API_KEY;
-  
-  if (!neynarApiKey) {
-    console.warn('Neynar API key not configured');
-    return null;
-  }
+async function runWithConcurrency<T>(items: T[], limit: number, task: (item: T) => Promise<void>): Promise<void> {
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      await task(items[next++]);
+    }
+  });
+  await Promise.all(workers);
+}
+
+/**
+ * Map a provider cast to enriched metadata
+ */
+function toEnrichedMetadata(cast: FarcasterCast): EnrichedMetadata {
+  return {
+    author: cast.author.displayName || cast.author.username || 'Unknown Author',
+    username: cast.author.username || undefined,
+    authorFid: cast.author.fid || undefined,
+    authorPfp: cast.author.pfpUrl,
+    content: cast.text,
+    timestamp: cast.timestamp,
+    parentHash: cast.parentHash,
+    embeds: classifyEmbeds(cast.embeds),
+    reactions: { ...cast.reactions }
+  };
+}
 
+/**
+ * Fetch rich metadata for a single cast. Resolves to 'missing' when the last
+ * attempt reported the cast as not found and to null when it failed, so only
+ * a real answer from Farcaster counts against the cast.
+ */
+async function fetchCastMetadata(id: CastId, retries: number = 2): Promise<EnrichedMetadata | 'missing' | null> {
+  let missing = false;
   for (let attempt = 0; attempt <= retries; attempt++) {
     try {
       // Add delay for retries to allow API propagation
@@ -50,72 +86,174 @@ async function fetchCastMetadata(hash: string, retries: number = 2): Promise<Enr
         await new Promise(resolve => setTimeout(resolve, 1000 * attempt));
       }
       
-      const response = await fetch(`https://api.neynar.com/v2/farcaster/cast?identifier=${hash}&type=hash`, {
-        method: 'GET',
-        headers: {
-          'x-api-key': neynarApiKey,
-          'Content-Type': 'application/json'
-        },
-        // Add caching for better performance
-        next: { revalidate: 300 } // Cache for 5 minutes
-      });
-
-      if (!response.ok) {
-        if (attempt === retries) {
-          console.warn(`Neynar API request failed for ${hash}: ${response.status}`);
-        }
-        continue;
-      }
-
-      const data = await response.json();
+      const cast = await getFarcasterProvider().getCast(id);
+      missing = !cast;
       
-      if (!data.cast) {
+      if (!cast) {
         if (attempt === retries) {
-          console.warn(`No cast data found for ${hash}`);
+          console.warn(`No cast data found for ${id.hash}`);
         }
         continue;
       }
 
-      const castData = data.cast;
-      
-      return {
-        author: castData.author?.display_name || castData.author?.username || 'Unknown Author',
-        username: castData.author?.username,
-        authorFid: castData.author?.fid,
-        authorPfp: castData.author?.pfp_url,
-        content: castData.text || '',
-        timestamp: castData.timestamp ? new Date(castData.timestamp).getTime() : Date.now(),
-        parentHash: castData.parent_hash,
-        embeds: castData.embeds?.map((embed: Record<string, unknown>) => ({
-          type: embed.cast ? 'cast' : (embed.url ? 'link' : 'unknown'),
-          url: embed.url as string,
-          metadata: {
-            title: (embed.metadata as Record<string, unknown>)?.title as string,
-            description: (embed.metadata as Record<string, unknown>)?.description as string,
-            image: (embed.metadata as Record<string, unknown>)?.image as string
-          }
-        })) || [],
-        reactions: {
-          likes: castData.reactions?.likes_count || 0,
-          recasts: castData.reactions?.recasts_count || 0,
-          replies: castData.replies?.count || 0
-        }
-      };
+      return toEnrichedMetadata(cast);
 
     } catch (error) {
+      missing = false;
       if (attempt === retries) {
-        console.error(`Failed to fetch metadata for cast ${hash}:`, error);
+        console.error(`Failed to fetch metadata for cast ${id.hash}:`, error);
       }
     }
   }
   
-  return null;
+  return missing ? 'missing' : null;
 }
 
 /**
- * Create fallback metadata for casts that fail to load
+ * Fetch one chunk with the provider's bulk lookup.
+ * Returns null when the request itself fails, so the caller can fall back.
+ */
+async function fetchCastMetadataChunk(ids: CastId[]): Promise<Map<string, FarcasterCast> | null> {
+  try {
+    return await getFarcasterProvider().getCasts(ids);
+  } catch (error) {
+    console.error(`Bulk lookup failed for ${ids.length} casts:`, error);
+    return null;
+  }
+}
+
+/**
+ * Fetch metadata for many casts in bulk chunks of BULK_LOOKUP_SIZE.
+ * Casts a chunk did not return (or every cast of a failed chunk) are retried
+ * one by one with fetchCastMetadata; casts that still fail are left out of
+ * `found`, and those Farcaster reported as not found are listed in `missing`.
+ */
+async function fetchCastMetadataBatch(
+  ids: CastId[]
+): Promise<{ found: Map<string, EnrichedMetadata>; missing: Set<string> }> {
+  const results = new Map<string, EnrichedMetadata>();
+  const missing = new Set<string>();
+
+  const chunks: CastId[][] = [];
+  for (let i = 0; i < ids.length; i += BULK_LOOKUP_SIZE) {
+    chunks.push(ids.slice(i, i + BULK_LOOKUP_SIZE));
+  }
+
+  const retry: CastId[] = [];
+  await runWithConcurrency(chunks, MAX_CONCURRENT_LOOKUPS, async (chunk) => {
+    const found = await fetchCastMetadataChunk(chunk);
+    for (const id of chunk) {
+      const cast = found?.get(id.hash.toLowerCase());
+      if (cast) {
+        results.set(id.hash, toEnrichedMetadata(cast));
+      } else {
+        retry.push(id);
+      }
+    }
+  });
+
+  // Casts published moments ago can be missing from a bulk response until they propagate
+  await runWithConcurrency(retry, MAX_CONCURRENT_LOOKUPS, async (id) => {
+    const metadata = await fetchCastMetadata(id);
+    if (metadata === 'missing') {
+      missing.add(id.hash);
+    } else if (metadata) {
+      results.set(id.hash, metadata);
+    }
+  });
+
+  return { found: results, missing };
+}
+
+/**
+ * Nested form of a quoted cast's metadata
+ */
+function toQuotedCast(hash: string, metadata: EnrichedMetadata): QuotedCast {
+  return {
+    hash,
+    author: metadata.author,
+    username: metadata.username,
+    authorFid: metadata.authorFid,
+    authorPfp: metadata.authorPfp,
+    content: metadata.content,
+    timestamp: metadata.timestamp,
+    embeds: metadata.embeds ?? []
+  };
+}
+
+/**
+ * Resolve the casts quoted by freshly fetched metadata and attach them to
+ * their 'cast' embeds. Quoted casts are fetched in one batch and their own
+ * quotes are left unresolved, so nesting stops at one level.
+ */
+async function attachQuotedCasts(fetched: Map<string, EnrichedMetadata>): Promise<void> {
+  const quoteEmbeds = Array.from(fetched.values())
+    .flatMap(metadata => metadata.embeds ?? [])
+    .filter(embed => embed.type === 'cast' && embed.castHash);
+  if (quoteEmbeds.length === 0) {
+    return;
+  }
+
+  const ids = new Map<string, CastId>();
+  quoteEmbeds.forEach(embed => {
+    const hash = (embed.castHash as string).toLowerCase();
+    ids.set(hash, { hash, fid: embed.castFid });
+  });
+
+  const { found: quoted } = await fetchCastMetadataBatch(Array.from(ids.values()));
+  quoteEmbeds.forEach(embed => {
+    const hash = (embed.castHash as string).toLowerCase();
+    const metadata = quoted.get(hash);
+    if (metadata) {
+      embed.quotedCast = toQuotedCast(hash, metadata);
+    }
+  });
+}
+
+/**
+ * Fill in title, description and image for link embeds that arrived without
+ * them, from the pages' Open Graph / Twitter card tags (lib/link-preview.ts).
+ * Fields the provider did report are kept.
+ */
+async function attachLinkPreviews(fetched: Map<string, EnrichedMetadata>): Promise<void> {
+  const bare = Array.from(fetched.values())
+    .flatMap(metadata => metadata.embeds ?? [])
+    .filter(embed => embed.type === 'link' && embed.url &&
+      !(embed.metadata?.title && embed.metadata?.description && embed.metadata?.image));
+  if (bare.length === 0) {
+    return;
+  }
+
+  const urls = Array.from(new Set(bare.map(embed => embed.url as string)));
+  const previews = new Map<string, NonNullable<CastEmbed['metadata']>>();
+  await runWithConcurrency(urls, MAX_CONCURRENT_UNFURLS, async (url) => {
+    const preview = await getLinkPreview(url);
+    if (preview) {
+      previews.set(url, preview);
+    }
+  });
+
+  bare.forEach(embed => {
+    const preview = previews.get(embed.url as string);
+    if (preview) {
+      embed.metadata = {
+        title: embed.metadata?.title || preview.title,
+        description: embed.metadata?.description || preview.description,
+        image: embed.metadata?.image || preview.image
+      };
+    }
+  });
+}
+
+/**
+ * Create fallback metadata for casts that fail to load. The stored metadata
+ * is used when the record has it, so a cast Farcaster stopped returning still
+ * shows what it was.
  */
 function createFallbackMetadata(cast: StoredCast): EnrichedCast['metadata'] {
+  if (cast.metadata?.content) {
+    return createMinimalEnrichedCast(cast).metadata;
+  }
   return {
     author: 'Unknown Author',
     content: 'Group chat invite',
@@ -128,28 +266,112 @@ function createFallbackMetadata(cast: StoredCast): EnrichedCast['metadata'] {
   };
 }
 
+let warnedUnresolvable = false;
+
 /**
- * Enrich a list of casts with metadata from Neynar API
- * Uses parallel fetching for better performance
+ * Casts the provider cannot look up (hub mode without an author fid or
+ * username) keep their stored metadata; say so once per process
  */
-export async function enrichCastsWithMetadata(casts: StoredCast[]): Promise<EnrichedCast[]> {  
-  // Fetch metadata for all casts in parallel (with rate limiting)
-  const enrichmentPromises = casts.map(async (cast, index) => {
-    // Add small delay to avoid rate limiting (stagger requests)
-    await new Promise(resolve => setTimeout(resolve, index * 50));
-    
-    const metadata = await fetchCastMetadata(cast.hash);
-    
-    return {
-      ...cast,
-      metadata: metadata || createFallbackMetadata(cast)
-    } as EnrichedCast;
-  });
+function warnUnresolvableCasts(count: number): void {
+  if (!warnedUnresolvable) {
+    warnedUnresolvable = true;
+    console.warn(`${count} cast(s) have no author fid or username - the hub provider cannot look them up, serving stored metadata`);
+  }
+}
+
+/**
+ * Fetch metadata for casts in bulk and write it to the shared cache and the stored records.
+ * Casts that could not be fetched are left out of the result; ones an
+ * authoritative provider reported as not found count a miss towards
+ * auto-hiding (lib/upstream-health.ts).
+ */
+export async function loadCastMetadata(casts: StoredCast[]): Promise<Map<string, EnrichedMetadata>> {
+  const provider = getFarcasterProvider();
+  const ids = casts.map(toCastId);
+  const lookups = ids.filter(id => provider.canLookup(id));
+  if (lookups.length < ids.length) {
+    warnUnresolvableCasts(ids.length - lookups.length);
+  }
+
+  const { found: fetched, missing } = await fetchCastMetadataBatch(lookups);
+  await attachQuotedCasts(fetched);
+  await attachLinkPreviews(fetched);
+  // Only a real upstream saying "not found" counts - fixtures just were not recorded
+  if (provider.authoritative) {
+    await recordUpstreamMisses(casts.filter(cast => missing.has(cast.hash)).map(cast => cast.hash));
+  }
+  for (const cast of casts) {
+    const metadata = fetched.get(cast.hash);
+    if (metadata) {
+      if (cast.upstreamMissing) {
+        await clearUpstreamMiss(cast.hash);
+      }
+      await setCachedMetadata(cast.hash, metadata);
+      // Keep the stored record (and search index) in step with Farcaster
+      await refreshCastMetadata(cast, metadata);
+    }
+  }
+  return fetched;
+}
 
+/**
+ * Background refresh of stale cache entries without blocking the response
+ */
+async function revalidateCastMetadata(casts: StoredCast[]): Promise<void> {
   try {
-    const enrichedCasts = await Promise.all(enrichmentPromises);
+    const claimed: StoredCast[] = [];
+    for (const cast of casts) {
+      if (await claimMetadataRefresh(cast.hash)) {
+        claimed.push(cast);
+      }
+    }
+    if (claimed.length > 0) {
+      await loadCastMetadata(claimed);
+    }
+  } catch (error) {
+    console.error('Background metadata refresh failed:', error);
+  }
+}
 
-    return enrichedCasts;
+/**
+ * Sign the embeds' preview images for /api/media. Done on the way out, so
+ * signatures never reach the metadata cache or the stored record.
+ */
+function withSignedImages(metadata: EnrichedCast['metadata']): EnrichedCast['metadata'] {
+  return metadata && { ...metadata, embeds: signEmbedImages(metadata.embeds) };
+}
+
+/**
+ * Enrich a list of casts with metadata, reading through the shared cache.
+ * Fresh entries are used as-is, stale ones are served and refreshed in the
+ * background, and misses are fetched from the Farcaster provider in bulk.
+ * Casts flagged as missing upstream are only refetched every UPSTREAM_RECHECK_MS.
+ * `forceRefresh` skips the cache and fetches every cast.
+ */
+export async function enrichCastsWithMetadata(
+  casts: StoredCast[],
+  options: { forceRefresh?: boolean } = {}
+): Promise<EnrichedCast[]> {
+  try {
+    const cached = options.forceRefresh
+      ? casts.map(() => null)
+      : await getCachedMetadata(casts.map(cast => cast.hash));
+
+    const stale = casts.filter((_, index) => cached[index]?.stale);
+    if (stale.length > 0) {
+      // Start background refresh (don't await)
+      revalidateCastMetadata(stale);
+    }
+
+    // Casts recently found missing are served from their stored record until the next check is due
+    const fetched = await loadCastMetadata(
+      casts.filter((cast, index) => !cached[index] && (options.forceRefresh || isUpstreamCheckDue(cast)))
+    );
+
+    return casts.map((cast, index) => ({
+      ...cast,
+      metadata: withSignedImages(cached[index]?.metadata || fetched.get(cast.hash) || createFallbackMetadata(cast))
+    })) as EnrichedCast[];
     
   } catch (error) {
     console.error('Failed to enrich casts:', error);
@@ -157,7 +379,7 @@ export async function enrichCastsWithMetadata(casts: StoredCast[]): Promise<Enri
     // Return casts with fallback metadata if enrichment fails
     return casts.map(cast => ({
       ...cast,
-      metadata: createFallbackMetadata(cast)
+      metadata: withSignedImages(createFallbackMetadata(cast))
     })) as EnrichedCast[];
   }
 }
@@ -166,12 +388,8 @@ export async function enrichCastsWithMetadata(casts: StoredCast[]): Promise<Enri
  * Enrich a single cast with metadata (for individual loading)
  */
 export async function enrichSingleCast(cast: StoredCast): Promise<EnrichedCast> {
-  const metadata = await fetchCastMetadata(cast.hash);
-  
-  return {
-    ...cast,
-    metadata: metadata || createFallbackMetadata(cast)
-  } as EnrichedCast;
+  const [enriched] = await enrichCastsWithMetadata([cast]);
+  return enriched;
 }
 
 /**
@@ -189,16 +407,7 @@ export function createMinimalEnrichedCast(storedCast: StoredCast): EnrichedCast
       content: storedCast.metadata?.content || 'Cast content',
       timestamp: storedCast.metadata?.timestamp || storedCast.addedAt,
       parentHash: storedCast.metadata?.parentHash,
-      // Properly preserve all embeds with their full structure
-      embeds: storedCast.metadata?.embeds?.map(embed => ({
-        type: embed.type as 'image' | 'video' | 'link' | 'cast',
-        url: embed.url,
-        metadata: {
-          title: embed.metadata?.title,
-          description: embed.metadata?.description,
-          image: embed.metadata?.image
-        }
-      })) || [],
+      embeds: storedCast.metadata?.embeds || [],
       reactions: {
         likes: storedCast.metadata?.reactions?.likes || 0,
         recasts: storedCast.metadata?.reactions?.recasts || 0,
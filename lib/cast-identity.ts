@@ -0,0 +1,129 @@
+// Cast Identity - Map every supported cast URL shape to one canonical hash
+
+import type { CastId } from './farcaster';
+import { getCastStore } from './store';
+import { StoredCast } from './types';
+
+/**
+ * What an admin pasted, reduced to the part that identifies the cast
+ */
+export type CastReference =
+  | { kind: 'hash'; hash: string; username?: string }     // Full 20-byte hash
+  | { kind: 'short'; prefix: string; username?: string }; // Truncated hash from a share URL
+
+const FULL_HASH_PATTERN = /^0x[a-f0-9]{40}$/;
+
+// Share links truncate the hash to 0x + 8 hex chars; anything from 6 up is accepted
+const SHORT_HASH_PATTERN = /^0x[a-f0-9]{6,39}$/;
+
+const FARCASTER_HOSTS = ['warpcast.com', 'farcaster.xyz'];
+const COINBASE_WALLET_HOST = 'wallet.coinbase.com';
+
+/**
+ * Lowercase form every stored hash uses
+ */
+export function canonicalCastHash(hash: string): string {
+  return hash.trim().toLowerCase();
+}
+
+function parseHash(value: string, username?: string): CastReference | null {
+  const hash = canonicalCastHash(value);
+  if (FULL_HASH_PATTERN.test(hash)) {
+    return { kind: 'hash', hash, username };
+  }
+  if (SHORT_HASH_PATTERN.test(hash)) {
+    return { kind: 'short', prefix: hash, username };
+  }
+  return null;
+}
+
+/**
+ * Parse a bare hash or a supported cast URL:
+ *   0x<40 hex>, 0x<short hex>
+ *   wallet.coinbase.com/post/0x...
+ *   warpcast.com|farcaster.xyz/<username>/0x...
+ *   warpcast.com|farcaster.xyz/~/conversations/0x...
+ * The scheme and a leading "www." are optional. Returns null for anything else.
+ */
+export function parseCastReference(input: string): CastReference | null {
+  const value = input.trim();
+  if (value.startsWith('0x')) {
+    return parseHash(value);
+  }
+
+  let url: URL;
+  try {
+    url = new URL(/^https?:\/\//i.test(value) ? value : `https://${value}`);
+  } catch {
+    return null;
+  }
+
+  const host = url.hostname.toLowerCase().replace(/^www\./, '');
+  const segments = url.pathname.split('/').filter(Boolean);
+
+  if (host === COINBASE_WALLET_HOST) {
+    return segments.length === 2 && segments[0] === 'post' ? parseHash(segments[1]) : null;
+  }
+
+  if (FARCASTER_HOSTS.includes(host) && segments.length === 3 && segments[0] === '~' && segments[1] === 'conversations') {
+    return parseHash(segments[2]);
+  }
+
+  if (FARCASTER_HOSTS.includes(host) && segments.length === 2 && segments[0] !== '~') {
+    return parseHash(segments[1], segments[0].replace(/^@/, '').toLowerCase());
+  }
+
+  return null;
+}
+
+/**
+ * Find the stored cast a reference points at, whatever case its hash was
+ * stored in. A short hash matches by prefix; when several stored casts share
+ * the prefix the username decides, and an unresolved tie returns null.
+ */
+export async function findExistingCast(reference: CastReference | string): Promise<StoredCast | null> {
+  const parsed = typeof reference === 'string' ? parseCastReference(reference) : reference;
+  if (!parsed) {
+    return null;
+  }
+
+  const store = getCastStore();
+  if (parsed.kind === 'hash') {
+    const direct = await store.getCast(parsed.hash);
+    if (direct) {
+      return direct;
+    }
+  }
+
+  // Records written before hashes were normalized may be mixed case
+  const target = parsed.kind === 'hash' ? parsed.hash : parsed.prefix;
+  const matches = (await store.getIndexMembers('casts:all')).filter(hash =>
+    parsed.kind === 'hash' ? hash.toLowerCase() === target : hash.toLowerCase().startsWith(target)
+  );
+  if (matches.length === 0) {
+    return null;
+  }
+
+  const casts = await store.getCasts(matches);
+  if (casts.length === 1) {
+    return casts[0];
+  }
+
+  const byUsername = parsed.username
+    ? casts.filter(cast => cast.metadata?.username?.toLowerCase() === parsed.username)
+    : [];
+  return byUsername.length === 1 ? byUsername[0] : null;
+}
+
+/**
+ * Provider lookup key for a stored cast. Hubs need the author fid, so the
+ * stored username (or the one in the URL the cast was added from) is passed
+ * along for casts stored without it.
+ */
+export function toCastId(cast: StoredCast): CastId {
+  return {
+    hash: cast.hash,
+    fid: cast.metadata?.authorFid,
+    username: cast.metadata?.username || (cast.originalUrl ? parseCastReference(cast.originalUrl)?.username : undefined)
+  };
+}
@@ -0,0 +1,32 @@
+// Cast Notifications - Tell subscribed users when a new chat goes live
+
+import { NeynarAPIClient } from '@neynar/nodejs-sdk';
+
+/**
+ * Send the new group chat notification to all users with notifications enabled.
+ * Failures are logged and swallowed so they never block a cast going live.
+ */
+export async function sendNewCastNotification(hash: string): Promise<void> {
+  try {
+    const neynarApiKey = process.env.NEYNAR_API_KEY;
+    if (!neynarApiKey) {
+      console.warn('NEYNAR_API_KEY not configured - skipping notifications');
+      return;
+    }
+
+    const client = new NeynarAPIClient({ apiKey: neynarApiKey });
+
+    await client.publishFrameNotifications({
+      targetFids: [], // Empty array = send to all users with notifications enabled
+      notification: {
+        title: '🎉 New Group Chat Added!',
+        body: 'A new Base group chat has been added to the feed. Check it out!',
+        target_url: process.env.NEXT_PUBLIC_URL || ''
+      }
+    });
+
+    console.log(`Sent notification for new cast: ${hash}`);
+  } catch (notificationError) {
+    console.error('Failed to send cast notifications:', notificationError);
+  }
+}
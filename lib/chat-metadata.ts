@@ -0,0 +1,163 @@
+// Chat Metadata - Extract the group chat a cast announces from its text and embeds (client-safe, no store access)
+
+import { CastChat, ChatPlatform, ChatStatus, StoredCast } from './types';
+
+export const CHAT_PLATFORM_LABELS: Record<ChatPlatform, string> = {
+  farcaster: 'Farcaster',
+  telegram: 'Telegram',
+  discord: 'Discord',
+  whatsapp: 'WhatsApp',
+  signal: 'Signal',
+  other: 'Other'
+};
+
+export const CHAT_STATUS_LABELS: Record<ChatStatus, string> = {
+  open: 'Open',
+  closed: 'Closed',
+  full: 'Full'
+};
+
+// Largest member cap accepted from text or the admin panel
+const MAX_MEMBER_CAP = 100000;
+
+// Invite link shapes per platform; `path` is matched against pathname + hash
+const INVITE_LINKS: Array<{ platform: ChatPlatform; hosts: string[]; path: RegExp }> = [
+  { platform: 'farcaster', hosts: ['farcaster.xyz', 'warpcast.com'], path: /^\/~\/group\/[\w-]+/ },
+  { platform: 'telegram', hosts: ['t.me', 'telegram.me'], path: /^\/(?:\+|joinchat\/)[\w-]+/ },
+  { platform: 'discord', hosts: ['discord.gg'], path: /^\/[\w-]+/ },
+  { platform: 'discord', hosts: ['discord.com', 'discordapp.com'], path: /^\/invite\/[\w-]+/ },
+  { platform: 'whatsapp', hosts: ['chat.whatsapp.com'], path: /^\/[\w-]+/ },
+  { platform: 'signal', hosts: ['signal.group'], path: /^\/#.+/ }
+];
+
+// Links in cast text, with or without a scheme
+const TEXT_URL_PATTERN = /(?:https?:\/\/)?(?:[a-z0-9-]+\.)+[a-z]{2,}\/[^\s<>"'()[\]]+/gi;
+
+// "42/50 members" - current count and cap
+const MEMBER_COUNT_PATTERN = /\b(\d{1,6})\s*\/\s*(\d{1,6})\s*(?:members?|people|spots?|seats?)\b/i;
+
+const MEMBER_CAP_PATTERNS = [
+  /\b(?:max(?:imum)?(?:\s+of)?|capped\s+at|cap(?:\s+of)?|limit(?:ed)?\s+to|up\s+to)\s+(\d{1,6})\s*(?:members?|people|spots?|seats?)\b/i,
+  /\b(\d{1,6})\s*(?:members?|people|spots?|seats?)\s*(?:max(?:imum)?|cap|limit|only)\b/i
+];
+
+const FULL_PATTERN = /\b(?:chat|group)\s+is\s+(?:now\s+)?full\b|\bno\s+(?:more\s+)?spots\s+left\b|\b(?:at|reached)\s+capacity\b/i;
+
+const CLOSED_PATTERN = /\b(?:chat|group|invites?)\s+(?:is\s+|are\s+)?(?:now\s+)?closed\b|\bno\s+longer\s+(?:open|accepting)\b|\bnot\s+accepting\s+(?:new\s+)?members\b/i;
+
+/**
+ * Platform of a group chat invite link, or null when the URL is not one
+ */
+export function getInvitePlatform(url: string): ChatPlatform | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(/^https?:\/\//i.test(url) ? url : `https://${url}`);
+  } catch {
+    return null;
+  }
+
+  const host = parsed.hostname.toLowerCase().replace(/^www\./, '');
+  const path = parsed.pathname + parsed.hash;
+  const match = INVITE_LINKS.find(link => link.hosts.includes(host) && link.path.test(path));
+  return match?.platform ?? null;
+}
+
+/**
+ * First group chat invite among the cast's embeds and the links in its text
+ */
+function findInviteLink(content: string, embedUrls: string[]): { url: string; platform: ChatPlatform } | null {
+  const textUrls = (content.match(TEXT_URL_PATTERN) ?? [])
+    .map(url => url.replace(/[.,!?;:]+$/, ''))
+    .map(url => (/^https?:\/\//i.test(url) ? url : `https://${url}`));
+
+  for (const url of [...embedUrls, ...textUrls]) {
+    const platform = getInvitePlatform(url);
+    if (platform) {
+      return { url, platform };
+    }
+  }
+  return null;
+}
+
+function toMemberCap(value: string): number | undefined {
+  const cap = Number.parseInt(value, 10);
+  return cap > 0 && cap <= MAX_MEMBER_CAP ? cap : undefined;
+}
+
+/**
+ * Extract the announced chat from a cast's text and embeds. Returns null
+ * unless an invite link is found; the member cap and status are read from
+ * phrases like "max 50 members", "42/50 members" or "chat is full".
+ */
+export function extractChatMetadata(metadata: StoredCast['metadata']): CastChat | null {
+  const content = metadata?.content ?? '';
+  const embedUrls = (metadata?.embeds ?? []).flatMap(embed => (embed.url ? [embed.url] : []));
+
+  const invite = findInviteLink(content, embedUrls);
+  if (!invite) {
+    return null;
+  }
+
+  let memberCap: number | undefined;
+  let memberCount: number | undefined;
+  const counted = content.match(MEMBER_COUNT_PATTERN);
+  if (counted) {
+    memberCount = Number.parseInt(counted[1], 10);
+    memberCap = toMemberCap(counted[2]);
+  }
+  if (memberCap === undefined) {
+    const capped = MEMBER_CAP_PATTERNS.map(pattern => content.match(pattern)).find(Boolean);
+    memberCap = capped ? toMemberCap(capped[1]) : undefined;
+  }
+
+  let status: ChatStatus = 'open';
+  if (CLOSED_PATTERN.test(content)) {
+    status = 'closed';
+  } else if (FULL_PATTERN.test(content) || (memberCap !== undefined && memberCount !== undefined && memberCount >= memberCap)) {
+    status = 'full';
+  }
+
+  return {
+    inviteUrl: invite.url,
+    platform: invite.platform,
+    memberCap,
+    status,
+    source: 'extracted'
+  };
+}
+
+/**
+ * Validate an admin-edited chat, returning an error message or null
+ */
+export function validateCastChat(chat: Omit<CastChat, 'source'>): string | null {
+  if (!(chat.platform in CHAT_PLATFORM_LABELS)) {
+    return 'Unknown chat platform';
+  }
+  if (!(chat.status in CHAT_STATUS_LABELS)) {
+    return 'Unknown chat status';
+  }
+  if (chat.inviteUrl !== undefined) {
+    try {
+      if (!['http:', 'https:'].includes(new URL(chat.inviteUrl).protocol)) {
+        return 'Invite link must be an http(s) URL';
+      }
+    } catch {
+      return 'Invite link must be a valid URL';
+    }
+  }
+  if (chat.memberCap !== undefined && (!Number.isInteger(chat.memberCap) || chat.memberCap < 1 || chat.memberCap > MAX_MEMBER_CAP)) {
+    return `Member cap must be a whole number between 1 and ${MAX_MEMBER_CAP}`;
+  }
+  return null;
+}
+
+/**
+ * Whether two chats describe the same invite, cap, status and source
+ */
+export function isSameChat(a: CastChat | undefined | null, b: CastChat | undefined | null): boolean {
+  return a?.inviteUrl === b?.inviteUrl &&
+    a?.platform === b?.platform &&
+    a?.memberCap === b?.memberCap &&
+    a?.status === b?.status &&
+    a?.source === b?.source;
+}
@@ -0,0 +1,110 @@
+// Embed Classification - Turn provider embeds into typed CastEmbeds (client-safe, no store access)
+
+import type { FarcasterEmbed } from './farcaster/types';
+import { CastEmbed } from './types';
+
+// HTTP Live Streaming playlists, as served by Farcaster's video uploads
+const HLS_CONTENT_TYPES = ['application/x-mpegurl', 'application/vnd.apple.mpegurl'];
+
+// /api/media refuses SVG (see MEDIA_CONTENT_TYPES), so SVG embeds are shown as links
+const SVG_CONTENT_TYPE = 'image/svg+xml';
+
+// Fallbacks for embeds that arrive without a content type (hubs, older records)
+const IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.gif', '.webp', '.avif'];
+const VIDEO_EXTENSIONS = ['.mp4', '.webm', '.mov', '.m3u8'];
+const IMAGE_HOSTS = ['imagedelivery.net'];
+
+function normalizeContentType(contentType?: string): string | undefined {
+  return contentType?.split(';')[0].trim().toLowerCase() || undefined;
+}
+
+/**
+ * Media type implied by a URL's path, or null when it says nothing
+ */
+function mediaTypeFromUrl(url: string): 'image' | 'video' | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  const path = parsed.pathname.toLowerCase();
+  if (VIDEO_EXTENSIONS.some(extension => path.endsWith(extension))) {
+    return 'video';
+  }
+  if (IMAGE_EXTENSIONS.some(extension => path.endsWith(extension)) || IMAGE_HOSTS.includes(parsed.hostname)) {
+    return 'image';
+  }
+  return null;
+}
+
+/**
+ * Classify a URL embed. The content type wins when the source reported one;
+ * the URL path is only consulted when it did not.
+ */
+export function classifyEmbedUrl(url: string, contentType?: string): 'image' | 'video' | 'link' {
+  const type = normalizeContentType(contentType);
+  if (type) {
+    if (type.startsWith('image/') && type !== SVG_CONTENT_TYPE) {
+      return 'image';
+    }
+    if (type.startsWith('video/') || HLS_CONTENT_TYPES.includes(type)) {
+      return 'video';
+    }
+    return 'link';
+  }
+  return mediaTypeFromUrl(url) ?? 'link';
+}
+
+/**
+ * Classify every embed on a cast, dropping ones with nothing to show
+ */
+export function classifyEmbeds(embeds: FarcasterEmbed[]): CastEmbed[] {
+  return embeds.map(classifyEmbed).filter((embed): embed is CastEmbed => embed !== null);
+}
+
+/**
+ * Map a provider embed to the stored/rendered CastEmbed shape.
+ * Returns null for embeds with neither a URL nor a quoted cast.
+ */
+export function classifyEmbed(embed: FarcasterEmbed): CastEmbed | null {
+  const contentType = normalizeContentType(embed.contentType);
+  const metadata = embed.metadata && (embed.metadata.title || embed.metadata.description || embed.metadata.image)
+    ? { title: embed.metadata.title, description: embed.metadata.description, image: embed.metadata.image }
+    : undefined;
+
+  if (embed.castHash) {
+    return { type: 'cast', castHash: embed.castHash, castFid: embed.castFid, url: embed.url };
+  }
+  if (!embed.url) {
+    return null;
+  }
+  if (embed.frame) {
+    return { type: 'frame', url: embed.url, contentType, metadata };
+  }
+  return {
+    type: classifyEmbedUrl(embed.url, contentType),
+    url: embed.url,
+    contentType,
+    metadata
+  };
+}
+
+/**
+ * Whether a video embed is an HLS playlist rather than a single file
+ */
+export function isHlsEmbed(embed: CastEmbed): boolean {
+  if (embed.type !== 'video') {
+    return false;
+  }
+  const type = normalizeContentType(embed.contentType);
+  if (type) {
+    return HLS_CONTENT_TYPES.includes(type);
+  }
+  try {
+    return new URL(embed.url ?? '').pathname.toLowerCase().endsWith('.m3u8');
+  } catch {
+    return false;
+  }
+}
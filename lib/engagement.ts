@@ -0,0 +1,136 @@
+// Engagement - Periodic reaction snapshots and the trending score built from them
+
+import { loadCastMetadata } from './cast-enrichment';
+import { isCastLive } from './schedule';
+import { getCastStore } from './store';
+
+export interface EngagementSnapshot {
+  at: number;
+  likes: number;
+  recasts: number;
+  replies: number;
+}
+
+export interface EngagementSnapshotReport {
+  startedAt: number;
+  finishedAt: number;
+  recorded: number;            // Casts that got a new snapshot
+  skipped: number;             // Snapshotted less than MIN_SNAPSHOT_GAP_MS ago
+  failed: number;              // Reactions could not be fetched
+  pruned: number;              // Trending entries dropped for casts that are no longer live
+}
+
+// The job runs hourly; a cast snapshotted more recently than this is not snapshotted again
+const MIN_SNAPSHOT_GAP_MS = 10 * 60 * 1000;
+
+// History kept per cast
+const SNAPSHOT_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Growth older than this does not count towards the trending score
+export const TRENDING_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Growth loses half its weight every TRENDING_HALF_LIFE_MS, so the last few hours dominate
+const TRENDING_HALF_LIFE_MS = 6 * 60 * 60 * 1000;
+
+// Replies mean people are talking, which is what an active group chat looks like
+const ENGAGEMENT_WEIGHTS = { likes: 1, recasts: 2, replies: 3 };
+
+const TRENDING_PRUNE_BATCH_SIZE = 500;
+
+function engagementKey(hash: string): `casts:engagement:${string}` {
+  return `casts:engagement:${hash}`;
+}
+
+function weightedEngagement(snapshot: EngagementSnapshot): number {
+  return snapshot.likes * ENGAGEMENT_WEIGHTS.likes +
+    snapshot.recasts * ENGAGEMENT_WEIGHTS.recasts +
+    snapshot.replies * ENGAGEMENT_WEIGHTS.replies;
+}
+
+/**
+ * Snapshots recorded for a cast, oldest first
+ */
+export async function getEngagementHistory(hash: string): Promise<EngagementSnapshot[]> {
+  return (await getCastStore().getDocument<EngagementSnapshot[]>(engagementKey(hash))) ?? [];
+}
+
+/**
+ * Trending score from a cast's snapshot history: the weighted growth between
+ * consecutive snapshots inside TRENDING_WINDOW_MS, each step decayed by its
+ * age. Drops (unlikes, deleted replies) count as zero growth, and a cast with
+ * fewer than two snapshots scores 0.
+ */
+export function computeTrendingScore(history: EngagementSnapshot[], now: number = Date.now()): number {
+  let score = 0;
+  for (let i = 1; i < history.length; i++) {
+    const age = now - history[i].at;
+    if (age > TRENDING_WINDOW_MS) {
+      continue;
+    }
+    const growth = Math.max(0, weightedEngagement(history[i]) - weightedEngagement(history[i - 1]));
+    score += growth * Math.pow(0.5, Math.max(0, age) / TRENDING_HALF_LIFE_MS);
+  }
+  return Math.round(score * 1000) / 1000;
+}
+
+/**
+ * Record a reaction snapshot for every live cast and rescore `casts:trending`.
+ *
+ * Reactions come from a bulk metadata fetch, which also refreshes the shared
+ * metadata cache and the stored records. Casts snapshotted within
+ * MIN_SNAPSHOT_GAP_MS are only rescored, so overlapping runs are harmless.
+ */
+export async function recordEngagementSnapshots(now: number = Date.now()): Promise<EngagementSnapshotReport> {
+  const store = getCastStore();
+  const report: EngagementSnapshotReport = { startedAt: now, finishedAt: now, recorded: 0, skipped: 0, failed: 0, pruned: 0 };
+
+  const live = (await store.getCasts(await store.getIndexMembers('casts:active')))
+    .filter(cast => isCastLive(cast, now));
+  const histories = new Map<string, EngagementSnapshot[]>();
+  for (const cast of live) {
+    histories.set(cast.hash, await getEngagementHistory(cast.hash));
+  }
+
+  const due = live.filter(cast => {
+    const history = histories.get(cast.hash) ?? [];
+    const last = history[history.length - 1];
+    return !last || now - last.at >= MIN_SNAPSHOT_GAP_MS;
+  });
+  report.skipped = live.length - due.length;
+
+  const fetched = await loadCastMetadata(due);
+  for (const cast of due) {
+    const reactions = fetched.get(cast.hash)?.reactions;
+    if (!reactions) {
+      report.failed++;
+      continue;
+    }
+    const history = [...(histories.get(cast.hash) ?? []), { at: now, ...reactions }]
+      .filter(snapshot => now - snapshot.at <= SNAPSHOT_RETENTION_MS);
+    await store.saveDocument(engagementKey(cast.hash), history);
+    histories.set(cast.hash, history);
+    report.recorded++;
+  }
+
+  // Scores decay with time, so every live cast is rescored - not just the ones snapshotted now
+  for (const cast of live) {
+    await store.addToOrderedIndex('casts:trending', cast.hash, computeTrendingScore(histories.get(cast.hash) ?? [], now));
+  }
+
+  // Hidden and expired casts leave the index right away; this catches anything left behind
+  const stale: string[] = [];
+  for (let offset = 0; ; offset += TRENDING_PRUNE_BATCH_SIZE) {
+    const batch = await store.getOrderedIndexRange('casts:trending', { offset, count: TRENDING_PRUNE_BATCH_SIZE });
+    stale.push(...batch.filter(({ hash }) => !histories.has(hash)).map(({ hash }) => hash));
+    if (batch.length < TRENDING_PRUNE_BATCH_SIZE) {
+      break;
+    }
+  }
+  for (const hash of stale) {
+    await store.removeFromOrderedIndex('casts:trending', hash);
+    report.pruned++;
+  }
+
+  report.finishedAt = Date.now();
+  return report;
+}
@@ -0,0 +1,196 @@
+// Cast Export - Filtered CSV/JSON/NDJSON exports streamed from the cast store
+
+import { getCastStore } from './store';
+import { parseDateRange } from './search-filters';
+import { ExportColumn, ExportConfig, ExportFormat, StoredCast } from './types';
+
+const EXPORT_BATCH_SIZE = 100;
+
+const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json', 'ndjson'];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  ndjson: 'application/x-ndjson; charset=utf-8'
+};
+
+type ExportValue = string | string[] | null;
+
+const toISO = (timestamp?: number): string | null =>
+  timestamp !== undefined ? new Date(timestamp).toISOString() : null;
+
+/**
+ * Every exportable column. CSV headers match what lib/import.ts reads back.
+ */
+export const EXPORT_COLUMNS: Record<ExportColumn, { label: string; value: (cast: StoredCast) => ExportValue }> = {
+  hash: { label: 'Hash', value: cast => cast.hash },
+  addedBy: { label: 'Added By', value: cast => cast.addedBy },
+  addedAt: { label: 'Added At', value: cast => toISO(cast.addedAt) },
+  status: { label: 'Status', value: cast => cast.status },
+  author: { label: 'Author', value: cast => cast.metadata?.author ?? null },
+  username: { label: 'Username', value: cast => cast.metadata?.username ?? null },
+  content: { label: 'Content', value: cast => cast.metadata?.content ?? null },
+  timestamp: { label: 'Cast Timestamp', value: cast => toISO(cast.metadata?.timestamp) },
+  originalUrl: { label: 'Original URL', value: cast => cast.originalUrl ?? null },
+  tags: { label: 'Tags', value: cast => cast.tags ?? [] },
+  hiddenReason: { label: 'Hidden Reason', value: cast => cast.hiddenReason ?? null },
+  publishAt: { label: 'Publish At', value: cast => toISO(cast.publishAt) },
+  expiresAt: { label: 'Expires At', value: cast => toISO(cast.expiresAt) }
+};
+
+export const DEFAULT_EXPORT_COLUMNS: ExportColumn[] = ['hash', 'addedBy', 'addedAt', 'status'];
+export const METADATA_EXPORT_COLUMNS: ExportColumn[] = ['author', 'content', 'timestamp'];
+
+export function isExportColumn(value: string): value is ExportColumn {
+  return value in EXPORT_COLUMNS;
+}
+
+/**
+ * Columns an export writes, in order
+ */
+export function resolveExportColumns(config: ExportConfig): ExportColumn[] {
+  if (config.columns && config.columns.length > 0) {
+    return config.columns;
+  }
+  return config.includeMetadata
+    ? [...DEFAULT_EXPORT_COLUMNS, ...METADATA_EXPORT_COLUMNS]
+    : DEFAULT_EXPORT_COLUMNS;
+}
+
+/**
+ * Apply the status and dateRange (on addedAt, inclusive) filters
+ */
+export function matchesExportFilters(cast: StoredCast, config: ExportConfig): boolean {
+  if (config.status && config.status !== 'all' && cast.status !== config.status) {
+    return false;
+  }
+  if (config.dateRange) {
+    const castDate = new Date(cast.addedAt);
+    return castDate >= config.dateRange.start && castDate <= config.dateRange.end;
+  }
+  return true;
+}
+
+/**
+ * Quote every cell, doubling embedded quotes
+ */
+export function formatCSVRow(cells: ExportValue[]): string {
+  return cells
+    .map(cell => Array.isArray(cell) ? cell.join(';') : cell ?? '')
+    .map(cell => `"${cell.replace(/"/g, '""')}"`)
+    .join(',');
+}
+
+/**
+ * Format one cast as a CSV row or a JSON object (no trailing newline)
+ */
+export function formatExportRecord(cast: StoredCast, columns: ExportColumn[], format: ExportFormat): string {
+  if (format === 'csv') {
+    return formatCSVRow(columns.map(column => EXPORT_COLUMNS[column].value(cast)));
+  }
+
+  const record: Record<string, ExportValue> = {};
+  for (const column of columns) {
+    record[column] = EXPORT_COLUMNS[column].value(cast);
+  }
+  return JSON.stringify(record);
+}
+
+/**
+ * Stream every stored cast matching the config, reading the store in batches
+ * so the full file is never held in memory. Casts are ordered by hash.
+ */
+export function streamCastExport(config: ExportConfig): ReadableStream<Uint8Array> {
+  const store = getCastStore();
+  const encoder = new TextEncoder();
+  const format = config.format ?? 'csv';
+  const columns = resolveExportColumns(config);
+
+  let hashes: string[] | null = null;
+  let position = 0;
+  let written = 0;
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (format === 'csv') {
+        controller.enqueue(encoder.encode(formatCSVRow(columns.map(column => EXPORT_COLUMNS[column].label)) + '\n'));
+      } else if (format === 'json') {
+        controller.enqueue(encoder.encode('['));
+      }
+    },
+
+    // Read batches until one yields rows: a pull that enqueues nothing is not called again
+    async pull(controller) {
+      if (!hashes) {
+        hashes = (await store.getIndexMembers('casts:all')).sort();
+      }
+
+      while (position < hashes.length) {
+        const batch = hashes.slice(position, position + EXPORT_BATCH_SIZE);
+        position += batch.length;
+
+        const lines = (await store.getCasts(batch))
+          .filter(cast => matchesExportFilters(cast, config))
+          .map(cast => formatExportRecord(cast, columns, format));
+
+        if (lines.length > 0) {
+          const chunk = format === 'json'
+            ? lines.map((line, index) => (written + index > 0 ? ',\n' : '\n') + line).join('')
+            : lines.map(line => line + '\n').join('');
+          written += lines.length;
+
+          controller.enqueue(encoder.encode(chunk));
+          return;
+        }
+      }
+
+      if (format === 'json') {
+        controller.enqueue(encoder.encode(written > 0 ? '\n]\n' : ']\n'));
+      }
+      controller.close();
+    }
+  });
+}
+
+/**
+ * Build an ExportConfig from query parameters:
+ * format=csv|json|ndjson, status=active|hidden|all, from/to (ISO dates), columns=a,b,c
+ */
+export function parseExportParams(params: URLSearchParams): { config: ExportConfig } | { error: string } {
+  const format = (params.get('format') ?? 'csv') as ExportFormat;
+  if (!EXPORT_FORMATS.includes(format)) {
+    return { error: `Invalid format. Use one of: ${EXPORT_FORMATS.join(', ')}` };
+  }
+
+  const status = (params.get('status') ?? 'all') as NonNullable<ExportConfig['status']>;
+  if (!['active', 'hidden', 'all'].includes(status)) {
+    return { error: 'Invalid status. Use active, hidden or all' };
+  }
+
+  let columns: ExportColumn[] | undefined;
+  const columnsParam = params.get('columns');
+  if (columnsParam) {
+    const requested = columnsParam.split(',').map(column => column.trim()).filter(Boolean);
+    const unknown = requested.filter(column => !isExportColumn(column));
+    if (unknown.length > 0) {
+      return { error: `Unknown column(s): ${unknown.join(', ')}` };
+    }
+    columns = Array.from(new Set(requested)) as ExportColumn[];
+  }
+
+  const range = parseDateRange(params.get('from'), params.get('to'));
+  if ('error' in range) {
+    return range;
+  }
+
+  return {
+    config: {
+      filename: '',
+      includeMetadata: true,
+      format,
+      status,
+      columns,
+      dateRange: range.dateRange
+    }
+  };
+}
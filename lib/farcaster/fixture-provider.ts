@@ -0,0 +1,137 @@
+// Farcaster Provider - Offline backend serving recorded JSON fixtures
+
+import { createHash } from 'crypto';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { parseCastReference } from '../cast-identity';
+import { CastFeedError, CastFeedErrorCode } from '../types';
+import {
+  CastId,
+  FarcasterCast,
+  FarcasterProvider,
+  FarcasterSigner,
+  FarcasterUser,
+  PublishCastInput,
+  SignerStatus
+} from './types';
+
+export const DEFAULT_FIXTURES_PATH = 'fixtures/farcaster.json';
+
+/**
+ * Fixture file layout - casts and users as the provider returns them
+ */
+export interface FarcasterFixtures {
+  users: FarcasterUser[];
+  casts: FarcasterCast[];
+}
+
+/**
+ * Serves casts and users from a JSON file with no network access. Signers
+ * are approved as soon as they are created and published casts are kept in
+ * memory, so the reply flow works end to end.
+ */
+export class FixtureFarcasterProvider implements FarcasterProvider {
+  readonly name = 'fixture' as const;
+  readonly authoritative = false;
+
+  private casts = new Map<string, FarcasterCast>();
+  private users = new Map<number, FarcasterUser>();
+  private signers = new Set<string>();
+
+  constructor(fixtures: FarcasterFixtures) {
+    fixtures.users.forEach(user => this.users.set(user.fid, user));
+    fixtures.casts.forEach(cast => this.casts.set(cast.hash.toLowerCase(), cast));
+  }
+
+  /**
+   * Load fixtures from a JSON file (relative paths resolve from the project root)
+   */
+  static fromFile(path: string = DEFAULT_FIXTURES_PATH): FixtureFarcasterProvider {
+    try {
+      const fixtures = JSON.parse(readFileSync(resolve(process.cwd(), path), 'utf8')) as Partial<FarcasterFixtures>;
+      return new FixtureFarcasterProvider({ users: fixtures.users ?? [], casts: fixtures.casts ?? [] });
+    } catch (error) {
+      console.warn(`Could not read Farcaster fixtures from ${path} - serving none:`, error);
+      return new FixtureFarcasterProvider({ users: [], casts: [] });
+    }
+  }
+
+  canLookup(): boolean {
+    return true;
+  }
+
+  async getCast(id: CastId): Promise<FarcasterCast | null> {
+    return this.casts.get(id.hash.toLowerCase()) ?? null;
+  }
+
+  async getCasts(ids: CastId[]): Promise<Map<string, FarcasterCast>> {
+    const found = new Map<string, FarcasterCast>();
+    for (const id of ids) {
+      const cast = this.casts.get(id.hash.toLowerCase());
+      if (cast) {
+        found.set(id.hash.toLowerCase(), cast);
+      }
+    }
+    return found;
+  }
+
+  async getCastByUrl(url: string): Promise<FarcasterCast | null> {
+    const reference = parseCastReference(url);
+    if (!reference) {
+      return null;
+    }
+    if (reference.kind === 'hash') {
+      return this.casts.get(reference.hash) ?? null;
+    }
+
+    const matches = Array.from(this.casts.values()).filter(cast =>
+      cast.hash.toLowerCase().startsWith(reference.prefix) &&
+      (!reference.username || cast.author.username.toLowerCase() === reference.username)
+    );
+    return matches.length === 1 ? matches[0] : null;
+  }
+
+  async getUser(fid: number): Promise<FarcasterUser | null> {
+    return this.users.get(fid) ?? null;
+  }
+
+  async createSigner(): Promise<FarcasterSigner> {
+    const signerUuid = `fixture-signer-${this.signers.size + 1}`;
+    this.signers.add(signerUuid);
+    return {
+      signerUuid,
+      publicKey: `0x${createHash('sha256').update(signerUuid).digest('hex')}`,
+      approvalUrl: `https://warpcast.com/~/signer-requests?token=${signerUuid}`
+    };
+  }
+
+  async getSignerStatus(signerUuid: string): Promise<SignerStatus | null> {
+    return this.signers.has(signerUuid) ? 'approved' : null;
+  }
+
+  async publishCast(input: PublishCastInput): Promise<FarcasterCast> {
+    if (!this.signers.has(input.signerUuid)) {
+      throw new CastFeedError('Unknown signer', CastFeedErrorCode.UNAUTHORIZED);
+    }
+
+    const hash = `0x${createHash('sha1').update(`${input.signerUuid}:${input.text}:${Date.now()}`).digest('hex')}`;
+    const cast: FarcasterCast = {
+      hash,
+      author: { fid: 0, username: 'fixture', displayName: 'Fixture User' },
+      text: input.text.trim(),
+      timestamp: Date.now(),
+      parentHash: input.parentHash,
+      embeds: [],
+      reactions: { likes: 0, recasts: 0, replies: 0 }
+    };
+    this.casts.set(hash, cast);
+
+    const parent = input.parentHash ? this.casts.get(input.parentHash.toLowerCase()) : undefined;
+    if (parent) {
+      parent.reactions.replies += 1;
+    }
+    return cast;
+  }
+
+  async ping(): Promise<void> {}
+}
@@ -0,0 +1,229 @@
+// Farcaster Provider - Hub HTTP API backend (read-only)
+
+import { parseCastReference } from '../cast-identity';
+import { CastFeedError, CastFeedErrorCode } from '../types';
+import {
+  CastId,
+  FarcasterCast,
+  FarcasterProvider,
+  FarcasterSigner,
+  FarcasterUser,
+  SignerStatus
+} from './types';
+
+// Hub timestamps are seconds since the Farcaster epoch (2021-01-01T00:00:00Z)
+const FARCASTER_EPOCH_MS = 1609459200000;
+
+// Reaction and reply counts are read from one page, so they cap here
+const COUNT_PAGE_SIZE = 1000;
+
+// Recent casts scanned when a share link only has a truncated hash
+const SHORT_HASH_SCAN_SIZE = 1000;
+
+interface HubCastId {
+  fid: number;
+  hash: string;
+}
+
+interface HubMessage {
+  hash: string;
+  data: {
+    fid: number;
+    timestamp: number;
+    castAddBody?: {
+      text?: string;
+      embeds?: Array<{ url?: string; castId?: HubCastId }>;
+      parentCastId?: HubCastId;
+    };
+    userDataBody?: {
+      type: string;
+      value: string;
+    };
+  };
+}
+
+/**
+ * Reads casts and profiles straight from a Farcaster hub. Hubs key casts by
+ * author, so lookups need the author fid - CastId.fid, or one resolved from
+ * CastId.username or the username in a cast URL. Ids with neither fail
+ * canLookup and are never sent; getCast throws for them rather than report
+ * the cast missing. Hubs cannot manage Neynar-style signers, so replies are
+ * unavailable.
+ */
+export class HubFarcasterProvider implements FarcasterProvider {
+  readonly name = 'hub' as const;
+  readonly authoritative = true;
+
+  private users = new Map<number, FarcasterUser>();
+  private fids = new Map<string, number | null>();
+
+  constructor(private readonly hubUrl: string, private readonly apiKey?: string) {}
+
+  /**
+   * Call the hub. Not-found resolves to null; any other failure throws NETWORK_ERROR.
+   */
+  private async request<T>(path: string): Promise<T | null> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.hubUrl.replace(/\/$/, '')}/v1${path}`, {
+        headers: this.apiKey ? { 'x-api-key': this.apiKey } : {},
+        next: { revalidate: 300 } // Cache for 5 minutes
+      });
+    } catch (error) {
+      throw new CastFeedError(`Hub request failed: ${path}`, CastFeedErrorCode.NETWORK_ERROR, error);
+    }
+
+    if (response.ok) {
+      return await response.json() as T;
+    }
+
+    const body = await response.text().catch(() => '');
+    if (response.status === 404 || body.includes('not_found')) {
+      return null;
+    }
+    throw new CastFeedError(
+      `Hub request failed: ${response.status}`,
+      CastFeedErrorCode.NETWORK_ERROR,
+      { status: response.status, body }
+    );
+  }
+
+  private async countMessages(path: string): Promise<number> {
+    const data = await this.request<{ messages?: HubMessage[] }>(`${path}&pageSize=${COUNT_PAGE_SIZE}`);
+    return data?.messages?.length ?? 0;
+  }
+
+  private async toCast(message: HubMessage): Promise<FarcasterCast | null> {
+    const body = message.data.castAddBody;
+    if (!body) {
+      return null;
+    }
+
+    const { fid } = message.data;
+    const target = `target_fid=${fid}&target_hash=${message.hash}`;
+    const [author, likes, recasts, replies] = await Promise.all([
+      this.getUser(fid),
+      this.countMessages(`/reactionsByCast?${target}&reaction_type=REACTION_TYPE_LIKE`),
+      this.countMessages(`/reactionsByCast?${target}&reaction_type=REACTION_TYPE_RECAST`),
+      this.countMessages(`/castsByParent?fid=${fid}&hash=${message.hash}`)
+    ]);
+
+    return {
+      hash: message.hash,
+      author: author ?? { fid, username: '', displayName: 'Unknown Author' },
+      text: body.text ?? '',
+      timestamp: FARCASTER_EPOCH_MS + message.data.timestamp * 1000,
+      parentHash: body.parentCastId?.hash,
+      embeds: (body.embeds ?? []).map(embed => ({
+        url: embed.url,
+        castHash: embed.castId?.hash,
+        castFid: embed.castId?.fid
+      })),
+      reactions: { likes, recasts, replies }
+    };
+  }
+
+  /**
+   * Fid a username is registered to, or null when no account has it
+   */
+  private async resolveFid(username: string): Promise<number | null> {
+    const name = username.replace(/^@/, '').toLowerCase();
+    if (!this.fids.has(name)) {
+      const proof = await this.request<{ fid?: number }>(`/userNameProofByName?name=${encodeURIComponent(name)}`);
+      this.fids.set(name, proof?.fid ?? null);
+    }
+    return this.fids.get(name) ?? null;
+  }
+
+  canLookup(id: CastId): boolean {
+    return !!(id.fid || id.username);
+  }
+
+  async getCast(id: CastId): Promise<FarcasterCast | null> {
+    if (!this.canLookup(id)) {
+      throw new CastFeedError(`Hub lookups need the author fid or username: ${id.hash}`, CastFeedErrorCode.VALIDATION_ERROR);
+    }
+    const fid = id.fid || await this.resolveFid(id.username as string);
+    if (!fid) {
+      return null;
+    }
+    const message = await this.request<HubMessage>(`/castById?fid=${fid}&hash=${id.hash}`);
+    return message ? await this.toCast(message) : null;
+  }
+
+  async getCasts(ids: CastId[]): Promise<Map<string, FarcasterCast>> {
+    const found = new Map<string, FarcasterCast>();
+    const casts = await Promise.all(ids.filter(id => this.canLookup(id)).map(id => this.getCast(id)));
+    casts.forEach(cast => {
+      if (cast) {
+        found.set(cast.hash.toLowerCase(), cast);
+      }
+    });
+    return found;
+  }
+
+  async getCastByUrl(url: string): Promise<FarcasterCast | null> {
+    const reference = parseCastReference(url);
+    if (!reference?.username) {
+      return null;
+    }
+
+    const fid = await this.resolveFid(reference.username);
+    if (!fid) {
+      return null;
+    }
+
+    if (reference.kind === 'hash') {
+      return await this.getCast({ hash: reference.hash, fid });
+    }
+
+    const recent = await this.request<{ messages?: HubMessage[] }>(
+      `/castsByFid?fid=${fid}&reverse=true&pageSize=${SHORT_HASH_SCAN_SIZE}`
+    );
+    const message = recent?.messages?.find(candidate => candidate.hash.toLowerCase().startsWith(reference.prefix));
+    return message ? await this.toCast(message) : null;
+  }
+
+  async getUser(fid: number): Promise<FarcasterUser | null> {
+    const cached = this.users.get(fid);
+    if (cached) {
+      return cached;
+    }
+
+    const data = await this.request<{ messages?: HubMessage[] }>(`/userDataByFid?fid=${fid}`);
+    if (!data?.messages?.length) {
+      return null;
+    }
+
+    const fields = new Map(
+      data.messages.flatMap(message =>
+        message.data.userDataBody ? [[message.data.userDataBody.type, message.data.userDataBody.value] as const] : []
+      )
+    );
+    const username = fields.get('USER_DATA_TYPE_USERNAME') ?? '';
+    const user: FarcasterUser = {
+      fid,
+      username,
+      displayName: fields.get('USER_DATA_TYPE_DISPLAY') || username || 'Unknown Author',
+      pfpUrl: fields.get('USER_DATA_TYPE_PFP')
+    };
+    this.users.set(fid, user);
+    return user;
+  }
+
+  async createSigner(): Promise<FarcasterSigner> {
+    throw new CastFeedError('Replies are not available with the hub provider', CastFeedErrorCode.VALIDATION_ERROR);
+  }
+
+  async getSignerStatus(): Promise<SignerStatus | null> {
+    return null;
+  }
+
+  async publishCast(): Promise<FarcasterCast> {
+    throw new CastFeedError('Replies are not available with the hub provider', CastFeedErrorCode.VALIDATION_ERROR);
+  }
+
+  async ping(): Promise<void> {
+    await this.request('/info');
+  }
+}
@@ -0,0 +1,110 @@
+// Farcaster Provider - Backend selection
+
+import { CastFeedError, CastFeedErrorCode } from '../types';
+import { FixtureFarcasterProvider } from './fixture-provider';
+import { HubFarcasterProvider } from './hub-provider';
+import { NeynarFarcasterProvider } from './neynar-provider';
+import { FarcasterProvider, FarcasterProviderName } from './types';
+
+export type {
+  CastId,
+  FarcasterCast,
+  FarcasterEmbed,
+  FarcasterProvider,
+  FarcasterProviderName,
+  FarcasterSigner,
+  FarcasterUser,
+  PublishCastInput,
+  SignerStatus
+} from './types';
+export { NeynarFarcasterProvider } from './neynar-provider';
+export { HubFarcasterProvider } from './hub-provider';
+export { FixtureFarcasterProvider, DEFAULT_FIXTURES_PATH } from './fixture-provider';
+export type { FarcasterFixtures } from './fixture-provider';
+
+// Keep the provider on globalThis so fixture state survives dev-server hot reloads
+const globalForProvider = globalThis as unknown as { farcasterProvider?: FarcasterProvider };
+
+const PROVIDER_NAMES: FarcasterProviderName[] = ['neynar', 'hub', 'fixture'];
+
+/**
+ * Whether the recorded fixtures may stand in for a real backend: only when
+ * asked for explicitly, or outside production
+ */
+export function areFixturesAllowed(): boolean {
+  return process.env.FARCASTER_PROVIDER === 'fixture' || process.env.NODE_ENV !== 'production';
+}
+
+/**
+ * Whether replies may run on a provider. Hubs cannot manage signers, and
+ * fixture signers approve themselves and publish into memory, so the auth
+ * and reply flows only use fixtures in development.
+ */
+export function supportsReplies(provider: FarcasterProvider): boolean {
+  return provider.name === 'neynar' || (provider.name === 'fixture' && process.env.NODE_ENV !== 'production');
+}
+
+/**
+ * Pick a provider from the environment.
+ *
+ * FARCASTER_PROVIDER=neynar|hub|fixture selects one explicitly, and naming a
+ * backend that is not configured is an error. Otherwise Neynar is used when
+ * NEYNAR_API_KEY is set, then a hub when HUB_URL is set. With neither, the
+ * recorded fixtures (FARCASTER_FIXTURES) are served in development only;
+ * production refuses to start without a real backend.
+ */
+function createFarcasterProvider(): FarcasterProvider {
+  const requested = process.env.FARCASTER_PROVIDER as FarcasterProviderName | undefined;
+  const neynarApiKey = process.env.NEYNAR_API_KEY;
+  const hubUrl = process.env.HUB_URL;
+
+  if (requested && !PROVIDER_NAMES.includes(requested)) {
+    throw new CastFeedError(
+      `Unknown FARCASTER_PROVIDER "${requested}" - expected one of ${PROVIDER_NAMES.join(', ')}`,
+      CastFeedErrorCode.VALIDATION_ERROR
+    );
+  }
+  if (requested === 'neynar' && !neynarApiKey) {
+    throw new CastFeedError('FARCASTER_PROVIDER=neynar needs NEYNAR_API_KEY', CastFeedErrorCode.VALIDATION_ERROR);
+  }
+  if (requested === 'hub' && !hubUrl) {
+    throw new CastFeedError('FARCASTER_PROVIDER=hub needs HUB_URL', CastFeedErrorCode.VALIDATION_ERROR);
+  }
+
+  if ((requested === 'neynar' || !requested) && neynarApiKey) {
+    return new NeynarFarcasterProvider(neynarApiKey);
+  }
+  if ((requested === 'hub' || !requested) && hubUrl) {
+    return new HubFarcasterProvider(hubUrl, process.env.HUB_API_KEY);
+  }
+
+  if (!areFixturesAllowed()) {
+    throw new CastFeedError(
+      'No Farcaster provider configured - set NEYNAR_API_KEY or HUB_URL (or FARCASTER_PROVIDER=fixture to serve recorded fixtures)',
+      CastFeedErrorCode.VALIDATION_ERROR
+    );
+  }
+  if (requested !== 'fixture') {
+    console.warn('No Farcaster provider configured (NEYNAR_API_KEY or HUB_URL) - serving recorded Farcaster fixtures in development.');
+  }
+
+  return FixtureFarcasterProvider.fromFile(process.env.FARCASTER_FIXTURES);
+}
+
+/**
+ * Get the active Farcaster provider. Throws a CastFeedError (VALIDATION_ERROR)
+ * when none is configured (see createFarcasterProvider).
+ */
+export function getFarcasterProvider(): FarcasterProvider {
+  if (!globalForProvider.farcasterProvider) {
+    globalForProvider.farcasterProvider = createFarcasterProvider();
+  }
+  return globalForProvider.farcasterProvider;
+}
+
+/**
+ * Replace the active Farcaster provider (for tests and scripts)
+ */
+export function setFarcasterProvider(provider: FarcasterProvider): void {
+  globalForProvider.farcasterProvider = provider;
+}
@@ -0,0 +1,232 @@
+// Farcaster Provider - Neynar REST API backend
+
+import { CastFeedError, CastFeedErrorCode } from '../types';
+import {
+  CastId,
+  FarcasterCast,
+  FarcasterEmbed,
+  FarcasterProvider,
+  FarcasterSigner,
+  FarcasterUser,
+  PublishCastInput,
+  SignerStatus
+} from './types';
+
+const NEYNAR_API_URL = 'https://api.neynar.com/v2/farcaster';
+
+/**
+ * The parts of a Neynar user object the app reads
+ */
+interface NeynarUser {
+  fid: number;
+  username?: string;
+  display_name?: string;
+  pfp_url?: string;
+  custody_address?: string;
+}
+
+/**
+ * The parts of a Neynar cast object the app reads
+ */
+interface NeynarCast {
+  hash: string;
+  text?: string;
+  timestamp?: string;
+  parent_hash?: string | null;
+  author?: NeynarUser;
+  embeds?: NeynarEmbed[];
+  reactions?: { likes_count?: number; recasts_count?: number };
+  replies?: { count?: number };
+}
+
+function toUser(user: NeynarUser): FarcasterUser {
+  return {
+    fid: user.fid,
+    username: user.username ?? '',
+    displayName: user.display_name || user.username || 'Unknown Author',
+    pfpUrl: user.pfp_url,
+    custodyAddress: user.custody_address
+  };
+}
+
+/**
+ * The parts of a Neynar embed object the app reads. URL embeds carry the
+ * resolved content type and, for web pages, their Open Graph and frame tags.
+ */
+interface NeynarEmbed {
+  url?: string;
+  cast_id?: { fid?: number; hash?: string };
+  cast?: { hash?: string; author?: { fid?: number } };
+  metadata?: {
+    content_type?: string | null;
+    title?: string;
+    description?: string;
+    image?: string;
+    html?: {
+      ogTitle?: string;
+      ogDescription?: string;
+      ogImage?: Array<{ url?: string }>;
+      fcFrame?: unknown;
+      fcMiniapp?: unknown;
+      fcFrameEmbed?: unknown;
+    };
+  };
+}
+
+function toEmbed(embed: NeynarEmbed): FarcasterEmbed {
+  const metadata = embed.metadata;
+  const html = metadata?.html;
+  return {
+    url: embed.url,
+    castHash: (embed.cast ?? embed.cast_id)?.hash,
+    castFid: embed.cast_id?.fid ?? embed.cast?.author?.fid,
+    contentType: metadata?.content_type ?? undefined,
+    frame: !!(html?.fcFrame || html?.fcMiniapp || html?.fcFrameEmbed),
+    metadata: {
+      title: html?.ogTitle ?? metadata?.title,
+      description: html?.ogDescription ?? metadata?.description,
+      image: html?.ogImage?.[0]?.url ?? metadata?.image
+    }
+  };
+}
+
+function toCast(cast: NeynarCast): FarcasterCast {
+  return {
+    hash: cast.hash,
+    author: cast.author ? toUser(cast.author) : { fid: 0, username: '', displayName: 'Unknown Author' },
+    text: cast.text || '',
+    timestamp: cast.timestamp ? new Date(cast.timestamp).getTime() : Date.now(),
+    parentHash: cast.parent_hash ?? undefined,
+    embeds: (cast.embeds ?? []).map(toEmbed),
+    reactions: {
+      likes: cast.reactions?.likes_count || 0,
+      recasts: cast.reactions?.recasts_count || 0,
+      replies: cast.replies?.count || 0
+    }
+  };
+}
+
+export class NeynarFarcasterProvider implements FarcasterProvider {
+  readonly name = 'neynar' as const;
+  readonly authoritative = true;
+
+  constructor(private readonly apiKey: string) {}
+
+  /**
+   * Call the API. 404 resolves to null; any other failure throws NETWORK_ERROR.
+   */
+  private async request<T>(path: string, init: RequestInit & { next?: { revalidate: number } } = {}): Promise<T | null> {
+    let response: Response;
+    try {
+      response = await fetch(`${NEYNAR_API_URL}${path}`, {
+        ...init,
+        headers: {
+          'x-api-key': this.apiKey,
+          'Content-Type': 'application/json'
+        }
+      });
+    } catch (error) {
+      throw new CastFeedError(`Neynar request failed: ${path}`, CastFeedErrorCode.NETWORK_ERROR, error);
+    }
+
+    if (response.status === 404) {
+      return null;
+    }
+    if (response.status === 402) {
+      throw new Error('PAYMENT_REQUIRED: Signer creation requires a paid Neynar plan. Visit https://neynar.com/#pricing to upgrade.');
+    }
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      throw new CastFeedError(
+        `Neynar request failed: ${response.status}`,
+        CastFeedErrorCode.NETWORK_ERROR,
+        { status: response.status, body }
+      );
+    }
+    return await response.json() as T;
+  }
+
+  canLookup(): boolean {
+    return true;
+  }
+
+  async getCast(id: CastId): Promise<FarcasterCast | null> {
+    const data = await this.request<{ cast?: NeynarCast }>(
+      `/cast?identifier=${id.hash}&type=hash`,
+      { next: { revalidate: 300 } } // Cache for 5 minutes
+    );
+    return data?.cast ? toCast(data.cast) : null;
+  }
+
+  async getCasts(ids: CastId[]): Promise<Map<string, FarcasterCast>> {
+    const found = new Map<string, FarcasterCast>();
+    if (ids.length === 0) {
+      return found;
+    }
+
+    const data = await this.request<{ result?: { casts?: NeynarCast[] } }>(
+      `/casts?casts=${ids.map(id => id.hash).join(',')}`,
+      { next: { revalidate: 300 } } // Cache for 5 minutes
+    );
+    for (const cast of data?.result?.casts ?? []) {
+      if (typeof cast?.hash === 'string') {
+        found.set(cast.hash.toLowerCase(), toCast(cast));
+      }
+    }
+    return found;
+  }
+
+  async getCastByUrl(url: string): Promise<FarcasterCast | null> {
+    const data = await this.request<{ cast?: NeynarCast }>(
+      `/cast?identifier=${encodeURIComponent(url)}&type=url`
+    );
+    return data?.cast ? toCast(data.cast) : null;
+  }
+
+  async getUser(fid: number): Promise<FarcasterUser | null> {
+    const data = await this.request<{ users?: NeynarUser[] }>(`/user/bulk?fids=${fid}`);
+    const user = data?.users?.[0];
+    return user ? toUser(user) : null;
+  }
+
+  async createSigner(): Promise<FarcasterSigner> {
+    const data = await this.request<{ signer_uuid?: string; public_key?: string; signer_approval_url?: string }>(
+      '/signer',
+      { method: 'POST' }
+    );
+    if (!data?.signer_uuid || !data.public_key || !data.signer_approval_url) {
+      throw new CastFeedError('Invalid signer response from Neynar', CastFeedErrorCode.NETWORK_ERROR, data);
+    }
+    return {
+      signerUuid: data.signer_uuid,
+      publicKey: data.public_key,
+      approvalUrl: data.signer_approval_url
+    };
+  }
+
+  async getSignerStatus(signerUuid: string): Promise<SignerStatus | null> {
+    const data = await this.request<{ status?: SignerStatus }>(`/signer?signer_uuid=${signerUuid}`);
+    return data?.status ?? null;
+  }
+
+  async publishCast(input: PublishCastInput): Promise<FarcasterCast> {
+    const data = await this.request<{ success?: boolean; cast?: NeynarCast }>('/cast', {
+      method: 'POST',
+      body: JSON.stringify({
+        signer_uuid: input.signerUuid,
+        text: input.text.trim(),
+        ...(input.parentHash && { parent: input.parentHash }),
+        ...(input.parentAuthorFid && { parent_author_fid: input.parentAuthorFid }),
+        idem: `reply-${Date.now()}-${Math.random().toString(36).slice(2, 11)}` // Unique idempotency key
+      })
+    });
+    if (!data?.success || !data.cast) {
+      throw new CastFeedError('Neynar API returned success: false', CastFeedErrorCode.NETWORK_ERROR, data);
+    }
+    return toCast({ text: input.text.trim(), parent_hash: input.parentHash, ...data.cast });
+  }
+
+  async ping(): Promise<void> {
+    await this.request('/user/bulk?fids=1');
+  }
+}
@@ -0,0 +1,111 @@
+// Farcaster Provider - Read/write contract shared by every Farcaster data source
+
+export type FarcasterProviderName = 'neynar' | 'hub' | 'fixture';
+
+export interface FarcasterUser {
+  fid: number;
+  username: string;
+  displayName: string;
+  pfpUrl?: string;
+  custodyAddress?: string;     // Not every source exposes it (hubs do not)
+}
+
+export interface FarcasterEmbed {
+  url?: string;
+  castHash?: string;           // Quoted cast
+  castFid?: number;            // Quoted cast's author (hubs need it to look the cast up)
+  contentType?: string;        // MIME type of the URL, when the source resolved it
+  frame?: boolean;             // URL serves Farcaster frame / mini app meta tags
+  metadata?: {
+    title?: string;
+    description?: string;
+    image?: string;
+  };
+}
+
+export interface FarcasterCast {
+  hash: string;
+  author: FarcasterUser;
+  text: string;
+  timestamp: number;           // Unix ms
+  parentHash?: string;
+  embeds: FarcasterEmbed[];
+  reactions: {
+    likes: number;
+    recasts: number;
+    replies: number;
+  };
+}
+
+/**
+ * A cast to look up. Hubs key casts by author, so they need `fid` or a
+ * `username` to resolve it from; Neynar and fixtures ignore both.
+ */
+export interface CastId {
+  hash: string;
+  fid?: number;
+  username?: string;           // Author username, used when the fid is unknown
+}
+
+export type SignerStatus = 'pending' | 'approved' | 'revoked';
+
+export interface FarcasterSigner {
+  signerUuid: string;
+  publicKey: string;
+  approvalUrl: string;         // Deep link the user opens to approve the signer
+}
+
+export interface PublishCastInput {
+  signerUuid: string;
+  text: string;
+  parentHash?: string;
+  parentAuthorFid?: number;
+}
+
+/**
+ * Source of Farcaster data.
+ *
+ * Lookups resolve to null when the cast or user does not exist and throw a
+ * CastFeedError (NETWORK_ERROR) when the source cannot be reached, so callers
+ * can tell "missing" from "try again". Retries and caching are left to the
+ * caller (lib/cast-enrichment.ts).
+ */
+export interface FarcasterProvider {
+  readonly name: FarcasterProviderName;
+
+  /**
+   * Whether a null lookup means the cast is really gone from Farcaster.
+   * False for recorded fixtures, whose misses only mean "not recorded".
+   */
+  readonly authoritative: boolean;
+
+  /** Whether getCast can find this id at all (hubs need a fid or username) */
+  canLookup(id: CastId): boolean;
+
+  /** Get a single cast */
+  getCast(id: CastId): Promise<FarcasterCast | null>;
+
+  /**
+   * Get many casts at once, keyed by lowercase hash. Casts that were not
+   * found are left out; a failed request throws.
+   */
+  getCasts(ids: CastId[]): Promise<Map<string, FarcasterCast>>;
+
+  /** Resolve a warpcast.com / farcaster.xyz cast URL */
+  getCastByUrl(url: string): Promise<FarcasterCast | null>;
+
+  /** Get a user profile */
+  getUser(fid: number): Promise<FarcasterUser | null>;
+
+  /** Create a signer the user must approve before replying */
+  createSigner(): Promise<FarcasterSigner>;
+
+  /** Current approval state of a signer, or null if it is unknown */
+  getSignerStatus(signerUuid: string): Promise<SignerStatus | null>;
+
+  /** Publish a cast (a reply when `parentHash` is set) with an approved signer */
+  publishCast(input: PublishCastInput): Promise<FarcasterCast>;
+
+  /** Verify the source is reachable and credentials work, throwing if not */
+  ping(): Promise<void>;
+}
@@ -0,0 +1,393 @@
+// Cast Import - Load curated casts back in from a CSV export or JSON
+
+import { findExistingCast } from './cast-identity';
+import { HIDE_REASON_LABELS, isHideReason, saveCastRecord } from './utils';
+import { unpinCast } from './pins';
+import { invalidateCachedMetadata } from './metadata-cache';
+import { CURRENT_CAST_SCHEMA_VERSION } from './migrations';
+import { CastFeedError, CastFeedErrorCode, HideReason, StoredCast } from './types';
+import { sanitizeAndValidateCastHash } from './security/input-sanitization';
+
+export type ImportFormat = 'csv' | 'json';
+export type ImportRowAction = 'create' | 'update' | 'skip';
+
+export const MAX_IMPORT_ROWS = 1000;
+
+export interface ImportRowResult {
+  row: number;                 // 1-based data row (CSV header not counted)
+  hash?: string;
+  action: ImportRowAction;
+  reason?: string;             // Why a row is skipped
+  changes?: string[];          // Fields an update would change
+}
+
+export interface ImportPlan {
+  format: ImportFormat;
+  committed: boolean;
+  summary: Record<ImportRowAction, number> & { total: number };
+  rows: ImportRowResult[];
+}
+
+/**
+ * Fields an import can set - the columns written by generateCSVExport
+ */
+interface ImportRecord {
+  row: number;
+  hash: unknown;
+  addedBy?: unknown;
+  addedAt?: unknown;
+  status?: unknown;
+  hiddenReason?: unknown;
+  author?: unknown;
+  content?: unknown;
+  timestamp?: unknown;
+}
+
+const CSV_COLUMNS: Record<string, keyof Omit<ImportRecord, 'row'>> = {
+  'hash': 'hash',
+  'added by': 'addedBy',
+  'added at': 'addedAt',
+  'status': 'status',
+  'hidden reason': 'hiddenReason',
+  'author': 'author',
+  'content': 'content',
+  'cast timestamp': 'timestamp'
+};
+
+/**
+ * Split CSV text into rows of cells (RFC 4180 quoting, including quoted newlines)
+ */
+function parseCSV(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Ignore blank lines
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+}
+
+function parseCSVRecords(content: string): ImportRecord[] {
+  const [header, ...rows] = parseCSV(content);
+  if (!header) {
+    return [];
+  }
+
+  const columns = header.map(name => CSV_COLUMNS[name.trim().toLowerCase()]);
+  if (!columns.includes('hash')) {
+    throw new CastFeedError('CSV is missing the "Hash" column', CastFeedErrorCode.VALIDATION_ERROR);
+  }
+
+  return rows.map((cells, index) => {
+    const record: ImportRecord = { row: index + 1, hash: undefined };
+    columns.forEach((field, column) => {
+      if (field && cells[column] !== undefined && cells[column] !== '') {
+        record[field] = cells[column];
+      }
+    });
+    return record;
+  });
+}
+
+/**
+ * JSON may be a bare array or the `{ casts: [...] }` body returned by /api/admin/casts,
+ * with either flat export fields or StoredCast-style nested metadata
+ */
+function parseJSONRecords(content: string): ImportRecord[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new CastFeedError('Invalid JSON', CastFeedErrorCode.VALIDATION_ERROR);
+  }
+
+  const items = Array.isArray(parsed)
+    ? parsed
+    : (parsed as { casts?: unknown })?.casts;
+  if (!Array.isArray(items)) {
+    throw new CastFeedError(
+      'JSON must be an array of casts or an object with a "casts" array',
+      CastFeedErrorCode.VALIDATION_ERROR
+    );
+  }
+
+  return items.map((item, index) => {
+    const value = (item ?? {}) as Record<string, unknown>;
+    const metadata = (value.metadata ?? {}) as Record<string, unknown>;
+    return {
+      row: index + 1,
+      hash: value.hash,
+      addedBy: value.addedBy,
+      addedAt: value.addedAt,
+      status: value.status,
+      hiddenReason: value.hiddenReason,
+      author: value.author ?? metadata.author,
+      content: value.content ?? metadata.content,
+      timestamp: value.timestamp ?? metadata.timestamp
+    };
+  });
+}
+
+/**
+ * Accept Unix milliseconds or anything Date.parse understands (the export writes ISO)
+ */
+function parseTimestamp(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    const parsed = /^\d+$/.test(trimmed) ? Number(trimmed) : Date.parse(trimmed);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+/**
+ * Accept a reason code (as exported) or its display label
+ */
+function parseHideReason(value: unknown): HideReason | null {
+  const text = String(value).trim().toLowerCase();
+  if (isHideReason(text)) {
+    return text;
+  }
+  const match = Object.entries(HIDE_REASON_LABELS).find(([, label]) => label.toLowerCase() === text);
+  return match ? match[0] as HideReason : null;
+}
+
+function parseText(value: unknown): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  // Stored as plain text (React escapes it on render) - HTML-encoding here would
+  // corrupt it and make a re-imported export look changed
+  return String(value).replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '').trim() || undefined;
+}
+
+/**
+ * Build the record an import row would write, or a reason to skip it
+ */
+function buildCast(
+  record: ImportRecord,
+  hash: string,
+  existing: StoredCast | null,
+  importedBy: string,
+  now: number
+): { cast: StoredCast } | { reason: string } {
+  let addedAt = existing?.addedAt ?? now;
+  if (record.addedAt !== undefined) {
+    const parsed = parseTimestamp(record.addedAt);
+    if (parsed === null) {
+      return { reason: `Invalid "Added At": ${String(record.addedAt)}` };
+    }
+    addedAt = parsed;
+  }
+
+  let status: StoredCast['status'] = existing?.status ?? 'active';
+  if (record.status !== undefined) {
+    const value = String(record.status).trim().toLowerCase();
+    if (value !== 'active' && value !== 'hidden') {
+      return { reason: `Invalid "Status": ${String(record.status)}` };
+    }
+    status = value;
+  }
+
+  let hiddenReason = existing?.hiddenReason;
+  if (record.hiddenReason !== undefined) {
+    const parsed = parseHideReason(record.hiddenReason);
+    if (parsed === null) {
+      return { reason: `Invalid "Hidden Reason": ${String(record.hiddenReason)}` };
+    }
+    hiddenReason = parsed;
+  }
+  if (status === 'hidden' && !hiddenReason) {
+    return { reason: `Hidden rows need a "Hidden Reason" (${Object.keys(HIDE_REASON_LABELS).join(', ')})` };
+  }
+
+  let timestamp = existing?.metadata?.timestamp;
+  if (record.timestamp !== undefined) {
+    const parsed = parseTimestamp(record.timestamp);
+    if (parsed === null) {
+      return { reason: `Invalid "Cast Timestamp": ${String(record.timestamp)}` };
+    }
+    timestamp = parsed;
+  }
+
+  // Keep everything the export does not carry (tags, pins, schedule, enriched metadata)
+  const cast: StoredCast = {
+    ...existing,
+    schemaVersion: existing?.schemaVersion ?? CURRENT_CAST_SCHEMA_VERSION,
+    hash,
+    addedBy: parseText(record.addedBy) ?? existing?.addedBy ?? importedBy,
+    addedAt,
+    status
+  };
+
+  const author = parseText(record.author) ?? existing?.metadata?.author;
+  const content = parseText(record.content) ?? existing?.metadata?.content;
+  if (existing?.metadata || author || content || timestamp) {
+    cast.metadata = { ...existing?.metadata, author, content, timestamp };
+  }
+
+  if (status === 'active') {
+    delete cast.hiddenReason;
+    delete cast.hiddenAt;
+    delete cast.hiddenBy;
+  } else {
+    cast.hiddenReason = hiddenReason;
+    // Hidden casts are never pinned - importCasts takes them out of pins:order
+    delete cast.pinned;
+    if (existing?.status !== 'hidden') {
+      cast.hiddenAt = now;
+      cast.hiddenBy = importedBy;
+    }
+  }
+
+  return { cast };
+}
+
+function describeChanges(existing: StoredCast, cast: StoredCast): string[] {
+  const changes: string[] = [];
+  const compare = (label: string, before: unknown, after: unknown) => {
+    if (before !== after) {
+      changes.push(`${label}: ${JSON.stringify(before ?? null)} -> ${JSON.stringify(after ?? null)}`);
+    }
+  };
+
+  compare('addedBy', existing.addedBy, cast.addedBy);
+  compare('addedAt', existing.addedAt, cast.addedAt);
+  compare('status', existing.status, cast.status);
+  compare('hiddenReason', existing.hiddenReason, cast.hiddenReason);
+  compare('pinned', existing.pinned, cast.pinned);
+  compare('author', existing.metadata?.author, cast.metadata?.author);
+  compare('content', existing.metadata?.content, cast.metadata?.content);
+  compare('timestamp', existing.metadata?.timestamp, cast.metadata?.timestamp);
+
+  return changes;
+}
+
+/**
+ * Plan an import and, when `commit` is set, apply it.
+ *
+ * Every row is validated with sanitizeAndValidateCastHash and compared with the
+ * stored record, so the same call serves as the preview (commit = false) and the
+ * real run. Rows that are invalid, duplicated or identical to the stored record
+ * are skipped with a reason. A file that cannot be read at all throws a
+ * CastFeedError with VALIDATION_ERROR.
+ */
+export async function importCasts(
+  content: string,
+  format: ImportFormat,
+  options: { commit: boolean; importedBy: string }
+): Promise<ImportPlan> {
+  const records = format === 'csv' ? parseCSVRecords(content) : parseJSONRecords(content);
+  if (records.length > MAX_IMPORT_ROWS) {
+    throw new CastFeedError(
+      `Import is limited to ${MAX_IMPORT_ROWS} rows (got ${records.length})`,
+      CastFeedErrorCode.VALIDATION_ERROR
+    );
+  }
+
+  const now = Date.now();
+  const seen = new Map<string, number>();
+  const rows: ImportRowResult[] = [];
+
+  for (const record of records) {
+    const hashValidation = sanitizeAndValidateCastHash(typeof record.hash === 'string' ? record.hash : '');
+    if (!hashValidation.isValid) {
+      rows.push({
+        row: record.row,
+        hash: typeof record.hash === 'string' ? record.hash : undefined,
+        action: 'skip',
+        reason: hashValidation.error || 'Invalid cast hash format'
+      });
+      continue;
+    }
+
+    const canonical = hashValidation.sanitized;
+    const duplicateOf = seen.get(canonical);
+    if (duplicateOf !== undefined) {
+      rows.push({ row: record.row, hash: canonical, action: 'skip', reason: `Duplicate of row ${duplicateOf}` });
+      continue;
+    }
+    seen.set(canonical, record.row);
+
+    // Same lookup addCast uses, so a record stored in another case is updated rather than duplicated
+    const existing = await findExistingCast({ kind: 'hash', hash: canonical });
+    const hash = existing?.hash ?? canonical;
+    const built = buildCast(record, hash, existing, options.importedBy, now);
+    if ('reason' in built) {
+      rows.push({ row: record.row, hash, action: 'skip', reason: built.reason });
+      continue;
+    }
+
+    if (existing) {
+      const changes = describeChanges(existing, built.cast);
+      if (changes.length === 0) {
+        rows.push({ row: record.row, hash, action: 'skip', reason: 'Unchanged' });
+        continue;
+      }
+      rows.push({ row: record.row, hash, action: 'update', changes });
+    } else {
+      rows.push({ row: record.row, hash, action: 'create' });
+    }
+
+    if (options.commit) {
+      if (existing?.pinned && !built.cast.pinned) {
+        await unpinCast(hash);
+      }
+      await saveCastRecord(built.cast);
+    }
+  }
+
+  if (options.commit) {
+    await invalidateCachedMetadata(rows.filter(row => row.action !== 'skip').map(row => row.hash!));
+  }
+
+  return {
+    format,
+    committed: options.commit,
+    summary: {
+      total: rows.length,
+      create: rows.filter(row => row.action === 'create').length,
+      update: rows.filter(row => row.action === 'update').length,
+      skip: rows.filter(row => row.action === 'skip').length
+    },
+    rows
+  };
+}
@@ -0,0 +1,178 @@
+// Link Previews - Server-side Open Graph / Twitter card unfurling with a per-URL cache
+
+import { createHash } from 'crypto';
+import { requestPublicUrl } from './public-fetch';
+import { getCastStore, CastCacheKey } from './store';
+import { CastEmbed } from './types';
+
+export type LinkPreview = NonNullable<CastEmbed['metadata']>;
+
+interface LinkPreviewCacheEntry {
+  preview: LinkPreview | null;   // null = the page had no usable tags or could not be fetched
+  fetchedAt: number;
+}
+
+// Whole fetch, redirects included
+const UNFURL_TIMEOUT_MS = 3000;
+
+// Bytes read per page - the tags live in <head>, so the rest is never needed
+const MAX_HTML_BYTES = 512 * 1024;
+
+const MAX_REDIRECTS = 3;
+
+// Previews are kept a day; failures are retried after an hour
+const PREVIEW_MAX_AGE_SECONDS = 24 * 60 * 60;
+const FAILURE_MAX_AGE_SECONDS = 60 * 60;
+
+const MAX_TITLE_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 300;
+
+const HTML_CONTENT_TYPES = ['text/html', 'application/xhtml+xml'];
+
+const USER_AGENT = `Mozilla/5.0 (compatible; BasedChatsBot/1.0${process.env.NEXT_PUBLIC_URL ? `; +${process.env.NEXT_PUBLIC_URL}` : ''})`;
+
+function previewCacheKey(url: string): CastCacheKey {
+  return `unfurl:${createHash('sha1').update(url).digest('hex')}`;
+}
+
+/**
+ * Read an HTML page up to MAX_HTML_BYTES (or </head>), following redirects.
+ * Resolves to null for non-HTML responses, errors and timeouts.
+ */
+async function fetchHtml(url: URL, deadline: number): Promise<{ html: string; url: URL } | null> {
+  const page = await requestPublicUrl(url, {
+    headers: { 'user-agent': USER_AGENT, accept: 'text/html,application/xhtml+xml' },
+    deadline,
+    maxRedirects: MAX_REDIRECTS
+  });
+  if (!page) {
+    return null;
+  }
+
+  const { response } = page;
+  const status = response.statusCode ?? 0;
+  const contentType = response.headers['content-type']?.split(';')[0].trim().toLowerCase();
+  const declaredLength = Number(response.headers['content-length'] ?? 0);
+  if (status < 200 || status >= 300 || !contentType || !HTML_CONTENT_TYPES.includes(contentType) || declaredLength > MAX_HTML_BYTES) {
+    response.destroy();
+    return null;
+  }
+
+  return new Promise(resolve => {
+    const chunks: Buffer[] = [];
+    let received = 0;
+    const finish = () => resolve({ html: Buffer.concat(chunks).toString('utf8'), url: page.url });
+    response.on('data', (chunk: Buffer) => {
+      chunks.push(chunk);
+      received += chunk.length;
+      if (received >= MAX_HTML_BYTES || /<\/head>/i.test(chunk.toString('latin1'))) {
+        response.destroy();
+        finish();
+      }
+    });
+    response.on('end', finish);
+    response.on('error', () => resolve(null));
+    response.on('close', () => resolve(null)); // Cut off at the deadline - a no-op once finished
+  });
+}
+
+function decodeEntities(text: string): string {
+  const named: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) && code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return named[entity.toLowerCase()] ?? match;
+  });
+}
+
+function clean(value: string | undefined, maxLength: number): string | undefined {
+  const text = value && decodeEntities(value).replace(/\s+/g, ' ').trim();
+  if (!text) {
+    return undefined;
+  }
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+/**
+ * Pull title, description and image out of a page's OG / Twitter card tags,
+ * falling back to <title> and <meta name="description">
+ */
+export function parseLinkPreview(html: string, pageUrl: URL): LinkPreview | null {
+  const tags = new Map<string, string>();
+  for (const [tag] of html.matchAll(/<meta\s[^>]*>/gi)) {
+    const attributes = new Map<string, string>();
+    for (const [, name, doubleQuoted, singleQuoted, bare] of tag.matchAll(/([a-z:-]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/gi)) {
+      attributes.set(name.toLowerCase(), doubleQuoted ?? singleQuoted ?? bare ?? '');
+    }
+    const key = (attributes.get('property') ?? attributes.get('name'))?.toLowerCase();
+    const content = attributes.get('content');
+    if (key && content && !tags.has(key)) {
+      tags.set(key, content);
+    }
+  }
+
+  const first = (...keys: string[]) => keys.map(key => tags.get(key)).find(Boolean);
+  const title = clean(first('og:title', 'twitter:title') ?? html.match(/<title[^>]*>([^<]*)<\/title>/i)?.[1], MAX_TITLE_LENGTH);
+  const description = clean(first('og:description', 'twitter:description', 'description'), MAX_DESCRIPTION_LENGTH);
+
+  let image: string | undefined;
+  const rawImage = first('og:image:secure_url', 'og:image', 'og:image:url', 'twitter:image', 'twitter:image:src');
+  if (rawImage) {
+    try {
+      const resolved = new URL(decodeEntities(rawImage.trim()), pageUrl);
+      image = resolved.protocol === 'https:' || resolved.protocol === 'http:' ? resolved.href : undefined;
+    } catch {
+      image = undefined;
+    }
+  }
+
+  return title || description || image ? { title, description, image } : null;
+}
+
+async function readCache(url: string): Promise<LinkPreviewCacheEntry | null> {
+  try {
+    const [entry] = await getCastStore().getCacheEntries<LinkPreviewCacheEntry>([previewCacheKey(url)]);
+    return entry;
+  } catch (error) {
+    console.error('Failed to read link preview cache:', error);
+    return null;
+  }
+}
+
+async function writeCache(url: string, preview: LinkPreview | null): Promise<void> {
+  const entry: LinkPreviewCacheEntry = { preview, fetchedAt: Date.now() };
+  try {
+    await getCastStore().setCacheEntry(previewCacheKey(url), entry, {
+      ttlSeconds: preview ? PREVIEW_MAX_AGE_SECONDS : FAILURE_MAX_AGE_SECONDS
+    });
+  } catch (error) {
+    console.error('Failed to write link preview cache:', error);
+  }
+}
+
+/**
+ * Title, description and image for a link, read through the per-URL cache.
+ * Private and loopback addresses are never fetched; pages are read for at
+ * most UNFURL_TIMEOUT_MS and MAX_HTML_BYTES. Resolves to null when the page
+ * has no usable tags or could not be fetched (failures are cached too).
+ */
+export async function getLinkPreview(url: string): Promise<LinkPreview | null> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  const cached = await readCache(parsed.href);
+  if (cached) {
+    return cached.preview;
+  }
+
+  const page = await fetchHtml(parsed, Date.now() + UNFURL_TIMEOUT_MS);
+  const preview = page ? parseLinkPreview(page.html, page.url) : null;
+  await writeCache(parsed.href, preview);
+  return preview;
+}
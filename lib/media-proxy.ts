@@ -0,0 +1,227 @@
+// Media Proxy - Allowlisted remote images and videos served through /api/media
+
+import type { CastEmbed } from './types';
+
+export const MEDIA_PROXY_PATH = '/api/media';
+
+// Hosts media is fetched from; "*." entries match any subdomain (not the bare domain)
+const DEFAULT_MEDIA_HOSTS = [
+  'imagedelivery.net',
+  'res.cloudinary.com',
+  'i.imgur.com',
+  'wrpcd.net',
+  'openseauserdata.com',
+  'lh3.googleusercontent.com',
+  'pbs.twimg.com',
+  'avatars.githubusercontent.com',
+  'i.seadn.io',
+  'arweave.net',
+  '*.warpcast.com',
+  '*.farcaster.xyz',
+  // IPFS gateways
+  'ipfs.io',
+  'dweb.link',
+  '*.ipfs.dweb.link',
+  'nftstorage.link',
+  '*.ipfs.nftstorage.link',
+  'cloudflare-ipfs.com',
+  'gateway.pinata.cloud',
+  'pinata.cloud',
+  '*.pinata.cloud',
+  '*.mypinata.cloud'
+];
+
+// Tried in order when an IPFS gateway is slow or down
+const IPFS_GATEWAYS = ['https://ipfs.io', 'https://dweb.link', 'https://gateway.pinata.cloud', 'https://nftstorage.link'];
+
+export type MediaKind = 'image' | 'video' | 'playlist';
+
+// SVG is left out on purpose - it can carry script and would run on our origin
+export const MEDIA_CONTENT_TYPES: Record<string, MediaKind> = {
+  'image/jpeg': 'image',
+  'image/png': 'image',
+  'image/gif': 'image',
+  'image/webp': 'image',
+  'image/avif': 'image',
+  'video/mp4': 'video',
+  'video/webm': 'video',
+  'video/quicktime': 'video',
+  'video/mp2t': 'video',           // HLS segments
+  'video/iso.segment': 'video',    // HLS fMP4 segments
+  'application/vnd.apple.mpegurl': 'playlist',
+  'application/x-mpegurl': 'playlist'
+};
+
+// Used when a gateway answers with a generic binary content type
+const EXTENSION_CONTENT_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.mov': 'video/quicktime',
+  '.ts': 'video/mp2t',
+  '.m4s': 'video/iso.segment',
+  '.m3u8': 'application/vnd.apple.mpegurl'
+};
+
+export const MAX_MEDIA_BYTES: Record<MediaKind, number> = {
+  image: 10 * 1024 * 1024,
+  video: 50 * 1024 * 1024,
+  playlist: 1024 * 1024
+};
+
+// Open Graph and frame images come from whatever site a cast links to, so they get a tighter limit
+export const MAX_PREVIEW_IMAGE_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Allowlisted hosts: the defaults plus any in MEDIA_PROXY_HOSTS (comma-separated)
+ */
+export function getMediaHosts(): string[] {
+  const extra = (process.env.MEDIA_PROXY_HOSTS ?? '')
+    .split(',')
+    .map(host => host.trim().toLowerCase())
+    .filter(Boolean);
+  return [...DEFAULT_MEDIA_HOSTS, ...extra];
+}
+
+/**
+ * Whether a URL is https on an allowlisted host
+ */
+export function isAllowedMediaUrl(url: URL, hosts: string[] = getMediaHosts()): boolean {
+  if (url.protocol !== 'https:' || (url.port && url.port !== '443')) {
+    return false;
+  }
+  const hostname = url.hostname.toLowerCase();
+  return hosts.some(host => (host.startsWith('*.') ? hostname.endsWith(host.slice(1)) : hostname === host));
+}
+
+/**
+ * CID and path of an IPFS URL - ipfs://, a gateway path (/ipfs/<cid>/...)
+ * or a subdomain gateway (<cid>.ipfs.<gateway>) - or null for other URLs
+ */
+export function parseIpfsUrl(url: string): { cid: string; path: string } | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+
+  if (parsed.protocol === 'ipfs:') {
+    const [cid, ...rest] = `${parsed.hostname}${parsed.pathname}`.replace(/^\/+/, '').split('/');
+    return cid ? { cid, path: rest.length ? `/${rest.join('/')}` : '' } : null;
+  }
+
+  const pathMatch = parsed.pathname.match(/^\/ipfs\/([a-zA-Z0-9]+)(\/.*)?$/);
+  if (pathMatch) {
+    return { cid: pathMatch[1], path: pathMatch[2] ?? '' };
+  }
+
+  const subdomainMatch = parsed.hostname.match(/^([a-z0-9]+)\.ipfs\./i);
+  if (subdomainMatch) {
+    return { cid: subdomainMatch[1], path: parsed.pathname === '/' ? '' : parsed.pathname };
+  }
+  return null;
+}
+
+/**
+ * URLs to try for a media URL, in order: the URL itself (when allowlisted)
+ * followed by every IPFS gateway for IPFS content
+ */
+export function getMediaSources(url: string): string[] {
+  const sources: string[] = [];
+  try {
+    if (isAllowedMediaUrl(new URL(url))) {
+      sources.push(url);
+    }
+  } catch {
+    return [];
+  }
+
+  const ipfs = parseIpfsUrl(url);
+  if (ipfs) {
+    IPFS_GATEWAYS
+      .map(gateway => `${gateway}/ipfs/${ipfs.cid}${ipfs.path}`)
+      .filter(source => !sources.includes(source))
+      .forEach(source => sources.push(source));
+  }
+  return sources;
+}
+
+/**
+ * The allowed content type for an upstream response, or null when the media
+ * must not be served. A generic binary type falls back to the URL's extension.
+ */
+export function resolveMediaContentType(contentType: string | null, url: string): string | null {
+  const type = contentType?.split(';')[0].trim().toLowerCase();
+  if (type && type in MEDIA_CONTENT_TYPES) {
+    return type;
+  }
+  if (type && type !== 'application/octet-stream' && type !== 'binary/octet-stream') {
+    return null;
+  }
+  const path = new URL(url).pathname.toLowerCase();
+  const extension = Object.keys(EXTENSION_CONTENT_TYPES).find(candidate => path.endsWith(candidate));
+  return extension ? EXTENSION_CONTENT_TYPES[extension] : null;
+}
+
+/**
+ * Same-origin /api/media URL for a remote image or video, for use as an
+ * <img>/<video> or next/image src. Only https:// and ipfs:// URLs are
+ * proxied; anything else is returned unchanged.
+ */
+export function proxiedMediaUrl(url: string): string {
+  if (!/^(?:https|ipfs):\/\//i.test(url)) {
+    return url;
+  }
+  return `${MEDIA_PROXY_PATH}?url=${encodeURIComponent(url)}`;
+}
+
+/**
+ * Same-origin URL for an Open Graph or frame image. These may live on any
+ * host, so they use the proxy's restricted preview path: images only, at most
+ * MAX_PREVIEW_IMAGE_BYTES, never from a private address, and only with the
+ * signature enrichment put on the embed (lib/media-signature.ts). Returns
+ * null for images that cannot be proxied - drop the image rather than load
+ * it directly.
+ */
+export function proxiedPreviewImageUrl(metadata: CastEmbed['metadata']): string | null {
+  const url = metadata?.image;
+  if (!url || !metadata.imageSignature || !/^(?:https?|ipfs):\/\//i.test(url)) {
+    return null;
+  }
+  return `${MEDIA_PROXY_PATH}?url=${encodeURIComponent(url)}&kind=preview&sig=${encodeURIComponent(metadata.imageSignature)}`;
+}
+
+function proxyPlaylistUri(uri: string, playlistUrl: string): string {
+  try {
+    return proxiedMediaUrl(new URL(uri, playlistUrl).toString());
+  } catch {
+    return uri;
+  }
+}
+
+/**
+ * Point every segment, variant and key URI in an HLS playlist back at the
+ * proxy, resolved against the playlist's own URL, so players never contact
+ * the media host directly
+ */
+export function rewriteHlsPlaylist(playlist: string, playlistUrl: string): string {
+  return playlist
+    .split('\n')
+    .map(line => {
+      const trimmed = line.trim();
+      if (!trimmed) {
+        return line;
+      }
+      if (trimmed.startsWith('#')) {
+        return line.replace(/URI="([^"]*)"/g, (_, uri: string) => `URI="${proxyPlaylistUri(uri, playlistUrl)}"`);
+      }
+      return proxyPlaylistUri(trimmed, playlistUrl);
+    })
+    .join('\n');
+}
@@ -0,0 +1,53 @@
+// Media Signatures - Server-issued tokens that let /api/media fetch a preview image off the allowlist
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { CastEmbed } from './types';
+
+// Without MEDIA_PROXY_SECRET, development signs with a key that lives as long as the process
+const developmentKey = randomBytes(32).toString('hex');
+let warnedMissingSecret = false;
+
+function getSigningKey(): string | null {
+  if (process.env.MEDIA_PROXY_SECRET) {
+    return process.env.MEDIA_PROXY_SECRET;
+  }
+  if (process.env.NODE_ENV !== 'production') {
+    return developmentKey;
+  }
+  if (!warnedMissingSecret) {
+    warnedMissingSecret = true;
+    console.warn('MEDIA_PROXY_SECRET is not set - link and frame preview images will not be shown');
+  }
+  return null;
+}
+
+/**
+ * Signature for a preview image URL, or null when no signing key is configured
+ */
+export function signPreviewImage(url: string): string | null {
+  const key = getSigningKey();
+  return key ? createHmac('sha256', key).update(url).digest('base64url') : null;
+}
+
+/**
+ * Whether `signature` was issued by signPreviewImage for this URL
+ */
+export function verifyPreviewImage(url: string, signature: string | null): boolean {
+  const expected = signature ? signPreviewImage(url) : null;
+  if (!expected || expected.length !== signature!.length) {
+    return false;
+  }
+  return timingSafeEqual(Buffer.from(expected), Buffer.from(signature!));
+}
+
+/**
+ * Copy embeds with a signature on every preview image, so the client can
+ * build /api/media preview URLs for them (proxiedPreviewImageUrl)
+ */
+export function signEmbedImages(embeds: CastEmbed[] | undefined): CastEmbed[] | undefined {
+  return embeds?.map(embed => {
+    const image = embed.metadata?.image;
+    const imageSignature = image ? signPreviewImage(image) : null;
+    return imageSignature ? { ...embed, metadata: { ...embed.metadata, imageSignature } } : embed;
+  });
+}
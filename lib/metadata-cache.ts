@@ -0,0 +1,99 @@
+// Metadata Cache - Shared per-hash Farcaster metadata with stale-while-revalidate
+
+import { getCastStore, CastCacheKey } from './store';
+import type { EnrichedCast } from './cast-enrichment';
+
+export type CachedMetadata = NonNullable<EnrichedCast['metadata']>;
+
+interface MetadataCacheEntry {
+  metadata: CachedMetadata;
+  fetchedAt: number;
+}
+
+export interface MetadataCacheHit {
+  metadata: CachedMetadata;
+  stale: boolean;              // Past METADATA_FRESH_MS - serve it, but refresh in the background
+}
+
+// Served as-is for this long after a fetch
+export const METADATA_FRESH_MS = 10 * 60 * 1000;
+
+// After this the entry expires and the next read waits for a fetch
+export const METADATA_MAX_AGE_SECONDS = 24 * 60 * 60;
+
+// Only one instance refreshes a stale entry at a time
+const REFRESH_LOCK_SECONDS = 30;
+
+function metadataCacheKey(hash: string): CastCacheKey {
+  return `metadata:${hash}`;
+}
+
+function refreshLockKey(hash: string): CastCacheKey {
+  return `metadata:lock:${hash}`;
+}
+
+function toHit(entry: MetadataCacheEntry | null | undefined, now: number): MetadataCacheHit | null {
+  if (!entry?.metadata || now - entry.fetchedAt > METADATA_MAX_AGE_SECONDS * 1000) {
+    return null;
+  }
+  return { metadata: entry.metadata, stale: now - entry.fetchedAt > METADATA_FRESH_MS };
+}
+
+/**
+ * Read cached metadata for many hashes in one round trip, preserving order.
+ * Misses (and read errors) come back as null.
+ */
+export async function getCachedMetadata(hashes: string[]): Promise<Array<MetadataCacheHit | null>> {
+  if (hashes.length === 0) {
+    return [];
+  }
+
+  const now = Date.now();
+  try {
+    const entries = await getCastStore().getCacheEntries<MetadataCacheEntry>(hashes.map(metadataCacheKey));
+    return entries.map(entry => toHit(entry, now));
+  } catch (error) {
+    console.error('Failed to read metadata cache:', error);
+    return hashes.map(() => null);
+  }
+}
+
+/**
+ * Store freshly fetched metadata for a hash
+ */
+export async function setCachedMetadata(hash: string, metadata: CachedMetadata): Promise<void> {
+  const entry: MetadataCacheEntry = { metadata, fetchedAt: Date.now() };
+  try {
+    await getCastStore().setCacheEntry(metadataCacheKey(hash), entry, { ttlSeconds: METADATA_MAX_AGE_SECONDS });
+  } catch (error) {
+    console.error('Failed to write metadata cache:', error);
+  }
+}
+
+/**
+ * Drop cached metadata so the next read fetches it again.
+ * Pass no hashes to clear the whole cache.
+ */
+export async function invalidateCachedMetadata(hashes?: string[]): Promise<void> {
+  try {
+    await getCastStore().deleteCacheEntries(hashes ? hashes.map(metadataCacheKey) : 'metadata:');
+  } catch (error) {
+    console.error('Failed to invalidate metadata cache:', error);
+  }
+}
+
+/**
+ * Claim the right to refresh a stale entry. Returns false when another
+ * request (on any instance) already holds the claim.
+ */
+export async function claimMetadataRefresh(hash: string): Promise<boolean> {
+  try {
+    return await getCastStore().setCacheEntry(refreshLockKey(hash), 1, {
+      ttlSeconds: REFRESH_LOCK_SECONDS,
+      onlyIfAbsent: true
+    });
+  } catch (error) {
+    console.error('Failed to claim metadata refresh:', error);
+    return false;
+  }
+}
@@ -0,0 +1,159 @@
+// Cast Migrations - Ordered StoredCast schema upgrades and their runner
+
+import { getCastStore } from '../store';
+import { updateSearchIndex } from '../search';
+import { StoredCast } from '../types';
+import {
+  CastMigration,
+  MigrationRecordResult,
+  MigrationReport,
+  MigrationStatus
+} from './types';
+import { normalizeLegacyRecords } from './v1-normalize-legacy-records';
+import { backfillAuthorMetadata } from './v2-backfill-author-metadata';
+import { classifyStoredEmbeds } from './v3-classify-embeds';
+import { extractStoredChatMetadata } from './v4-extract-chat-metadata';
+import { indexAuthorCasts } from './v5-index-author-casts';
+import { retypeSvgEmbeds } from './v6-retype-svg-embeds';
+
+export type {
+  CastMigration,
+  MigrationContext,
+  MigrationRecordResult,
+  MigrationRecordStatus,
+  MigrationReport,
+  MigrationStatus
+} from './types';
+
+/**
+ * Every migration in order. Append new ones with the next version number -
+ * never reorder or edit a migration that has already shipped.
+ */
+export const CAST_MIGRATIONS: CastMigration[] = [
+  normalizeLegacyRecords,
+  backfillAuthorMetadata,
+  classifyStoredEmbeds,
+  extractStoredChatMetadata,
+  indexAuthorCasts,
+  retypeSvgEmbeds
+];
+
+/**
+ * Version stamped on newly written records
+ */
+export const CURRENT_CAST_SCHEMA_VERSION = CAST_MIGRATIONS[CAST_MIGRATIONS.length - 1].version;
+
+/**
+ * Records written before versioning have no schemaVersion and count as 0
+ */
+export function getSchemaVersion(cast: StoredCast): number {
+  return typeof cast.schemaVersion === 'number' ? cast.schemaVersion : 0;
+}
+
+/**
+ * Count records per schema version
+ */
+export async function getMigrationStatus(): Promise<MigrationStatus> {
+  const store = getCastStore();
+  const casts = await store.getCasts(await store.getIndexMembers('casts:all'));
+
+  const versionCounts: Record<number, number> = {};
+  let pending = 0;
+  for (const cast of casts) {
+    const version = getSchemaVersion(cast);
+    versionCounts[version] = (versionCounts[version] ?? 0) + 1;
+    if (version < CURRENT_CAST_SCHEMA_VERSION) {
+      pending++;
+    }
+  }
+
+  return {
+    currentVersion: CURRENT_CAST_SCHEMA_VERSION,
+    migrations: CAST_MIGRATIONS.map(({ version, name, description }) => ({ version, name, description })),
+    versionCounts,
+    pending
+  };
+}
+
+/**
+ * Apply every pending migration to a single record, stopping at the first failure.
+ * Each step works on a copy so a failing migration leaves no partial edits behind.
+ */
+async function migrateCast(
+  cast: StoredCast,
+  dryRun: boolean
+): Promise<{ result: MigrationRecordResult; cast: StoredCast }> {
+  const fromVersion = getSchemaVersion(cast);
+  let current = cast;
+  const result: MigrationRecordResult = {
+    hash: cast.hash,
+    status: 'current',
+    fromVersion,
+    toVersion: fromVersion,
+    changes: []
+  };
+
+  for (const migration of CAST_MIGRATIONS) {
+    if (migration.version <= result.toVersion) {
+      continue;
+    }
+
+    try {
+      const draft = structuredClone(current);
+      const changes = await migration.up(draft, { dryRun });
+      current = draft;
+      result.changes.push(...changes.map(change => `v${migration.version} ${change}`));
+      result.toVersion = migration.version;
+      result.status = 'migrated';
+    } catch (error) {
+      result.status = 'failed';
+      result.error = `v${migration.version} ${migration.name}: ${error instanceof Error ? error.message : String(error)}`;
+      break;
+    }
+  }
+
+  return { result, cast: current };
+}
+
+/**
+ * Bring every stored cast up to CURRENT_CAST_SCHEMA_VERSION.
+ *
+ * With `dryRun` nothing is written and migrations skip external calls; the
+ * report lists what each record would go through. Records that fail keep
+ * whatever versions they did reach, so the run can simply be repeated.
+ */
+export async function runCastMigrations(options: { dryRun: boolean }): Promise<MigrationReport> {
+  const store = getCastStore();
+  const startedAt = Date.now();
+  const results: MigrationRecordResult[] = [];
+
+  for (const hash of await store.getIndexMembers('casts:all')) {
+    const stored = await store.getCast(hash);
+    if (!stored) {
+      continue;
+    }
+
+    const { result, cast } = await migrateCast(stored, options.dryRun);
+    results.push(result);
+
+    if (!options.dryRun && result.toVersion > result.fromVersion) {
+      cast.schemaVersion = result.toVersion;
+      await store.saveCast(cast);
+      await updateSearchIndex(stored, cast);
+    }
+  }
+
+  return {
+    dryRun: options.dryRun,
+    targetVersion: CURRENT_CAST_SCHEMA_VERSION,
+    startedAt,
+    finishedAt: Date.now(),
+    summary: {
+      total: results.length,
+      migrated: results.filter(result => result.status === 'migrated').length,
+      current: results.filter(result => result.status === 'current').length,
+      failed: results.filter(result => result.status === 'failed').length
+    },
+    results
+  };
+}
@@ -0,0 +1,49 @@
+// Cast Migrations - Contract for versioned StoredCast upgrades
+
+import { StoredCast } from '../types';
+
+export interface MigrationContext {
+  dryRun: boolean;             // Report what would change without writing or calling out
+}
+
+/**
+ * One step in the StoredCast schema history.
+ *
+ * `up` receives a record at `version - 1` and upgrades it in place, returning
+ * a human-readable line per change (empty when the record already fits).
+ * Throwing marks the record as failed and leaves it at its previous version
+ * so the migration can be retried later.
+ */
+export interface CastMigration {
+  version: number;             // schemaVersion a record has after this migration
+  name: string;
+  description: string;
+  up(cast: StoredCast, context: MigrationContext): Promise<string[]>;
+}
+
+export type MigrationRecordStatus = 'migrated' | 'current' | 'failed';
+
+export interface MigrationRecordResult {
+  hash: string;
+  status: MigrationRecordStatus;
+  fromVersion: number;
+  toVersion: number;           // Version reached (or that would be reached on a dry run)
+  changes: string[];
+  error?: string;
+}
+
+export interface MigrationReport {
+  dryRun: boolean;
+  targetVersion: number;
+  startedAt: number;
+  finishedAt: number;
+  summary: Record<MigrationRecordStatus, number> & { total: number };
+  results: MigrationRecordResult[];
+}
+
+export interface MigrationStatus {
+  currentVersion: number;
+  migrations: Pick<CastMigration, 'version' | 'name' | 'description'>[];
+  versionCounts: Record<number, number>; // Records per schemaVersion
+  pending: number;             // Records below currentVersion
+}
@@ -0,0 +1,56 @@
+// v1 - Normalize records written before schemaVersion existed
+
+import { CastEmbed, StoredCast } from '../types';
+import { CastMigration } from './types';
+
+const EMBED_TYPES: CastEmbed['type'][] = ['image', 'video', 'link', 'cast'];
+
+export const normalizeLegacyRecords: CastMigration = {
+  version: 1,
+  name: 'normalize-legacy-records',
+  description: 'Fill in status, timestamps, tags and embed types on pre-versioned records',
+
+  async up(cast: StoredCast): Promise<string[]> {
+    const changes: string[] = [];
+    const raw = cast as unknown as Record<string, unknown>;
+
+    if (raw.status !== 'active' && raw.status !== 'hidden') {
+      changes.push(`status: ${JSON.stringify(raw.status)} -> "active"`);
+      cast.status = 'active';
+    }
+
+    if (typeof raw.addedAt !== 'number' || !Number.isFinite(raw.addedAt)) {
+      const parsed = typeof raw.addedAt === 'string' ? Date.parse(raw.addedAt) : NaN;
+      const addedAt = Number.isFinite(parsed) ? parsed : cast.metadata?.timestamp ?? 0;
+      changes.push(`addedAt: ${JSON.stringify(raw.addedAt)} -> ${addedAt}`);
+      cast.addedAt = addedAt;
+    }
+
+    if (raw.tags !== undefined && (!Array.isArray(raw.tags) || raw.tags.some(tag => typeof tag !== 'string'))) {
+      const tags = Array.isArray(raw.tags) ? raw.tags.filter((tag): tag is string => typeof tag === 'string') : [];
+      changes.push('tags: dropped non-string entries');
+      cast.tags = tags;
+    }
+
+    // Older backfills stored embeds with an "unknown" type
+    const embeds = cast.metadata?.embeds;
+    if (cast.metadata && embeds) {
+      const normalized = embeds
+        .filter(embed => EMBED_TYPES.includes(embed.type) || embed.url)
+        .map(embed => EMBED_TYPES.includes(embed.type) ? embed : { ...embed, type: 'link' as const });
+      const unknown = embeds.filter(embed => !EMBED_TYPES.includes(embed.type));
+      if (unknown.length > 0) {
+        const dropped = embeds.length - normalized.length;
+        changes.push(`metadata.embeds: retyped ${unknown.length - dropped} unknown embed(s) as links, dropped ${dropped} without a URL`);
+        cast.metadata.embeds = normalized;
+      }
+    }
+
+    if (cast.metadata && Object.keys(cast.metadata).length === 0) {
+      changes.push('metadata: removed empty object');
+      delete cast.metadata;
+    }
+
+    return changes;
+  }
+};
@@ -0,0 +1,63 @@
+// v2 - Fetch author details for records stored with stub or partial metadata
+
+import { toCastId } from '../cast-identity';
+import { classifyEmbeds } from '../embeds';
+import { getFarcasterProvider } from '../farcaster';
+import { StoredCast } from '../types';
+import { CastMigration } from './types';
+
+// Placeholder written by the admin API before metadata was fetched
+const STUB_AUTHOR = 'Unknown Author';
+
+function needsAuthorMetadata(cast: StoredCast): boolean {
+  const metadata = cast.metadata;
+  if (!metadata) {
+    return false; // Enriched on read - nothing stored to repair
+  }
+  return !metadata.author || metadata.author === STUB_AUTHOR || !metadata.username || !metadata.authorPfp;
+}
+
+export const backfillAuthorMetadata: CastMigration = {
+  version: 2,
+  name: 'backfill-author-metadata',
+  description: 'Replace stub or partial stored metadata with author details from the Farcaster provider',
+
+  async up(cast: StoredCast, context): Promise<string[]> {
+    if (!needsAuthorMetadata(cast)) {
+      return [];
+    }
+
+    if (context.dryRun) {
+      return ['metadata: would fetch author details from the Farcaster provider'];
+    }
+
+    const provider = getFarcasterProvider();
+    const id = toCastId(cast);
+    if (!provider.canLookup(id)) {
+      throw new Error('The hub provider needs the author fid or username to look this cast up - re-add it from its Farcaster URL');
+    }
+
+    const castData = await provider.getCast(id);
+    if (!castData) {
+      throw new Error('No cast data returned from the Farcaster provider');
+    }
+
+    cast.metadata = {
+      ...cast.metadata, // Preserve any existing metadata
+      author: castData.author.displayName || castData.author.username || STUB_AUTHOR,
+      username: castData.author.username,
+      authorFid: castData.author.fid,
+      authorPfp: castData.author.pfpUrl,
+      content: castData.text,
+      timestamp: castData.timestamp,
+      parentHash: castData.parentHash,
+      embeds: classifyEmbeds(castData.embeds),
+      reactions: castData.reactions
+    };
+
+    // Rate limiting - wait 100ms between requests
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    return [`metadata: fetched author details for @${castData.author.username || 'unknown'}`];
+  }
+};
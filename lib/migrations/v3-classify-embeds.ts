@@ -0,0 +1,43 @@
+// v3 - Retype stored link embeds that point at images or videos
+
+import { classifyEmbedUrl } from '../embeds';
+import { StoredCast } from '../types';
+import { CastMigration } from './types';
+
+export const classifyStoredEmbeds: CastMigration = {
+  version: 3,
+  name: 'classify-embeds',
+  description: 'Retype stored link embeds as image or video using their content type or URL',
+
+  async up(cast: StoredCast): Promise<string[]> {
+    const embeds = cast.metadata?.embeds;
+    if (!cast.metadata || !embeds) {
+      return [];
+    }
+
+    // Enrichment used to store every URL embed as a link
+    let image = 0;
+    let video = 0;
+    const classified = embeds.map(embed => {
+      if (embed.type !== 'link' || !embed.url) {
+        return embed;
+      }
+      const type = classifyEmbedUrl(embed.url, embed.contentType);
+      if (type === 'link') {
+        return embed;
+      }
+      if (type === 'image') {
+        image++;
+      } else {
+        video++;
+      }
+      return { ...embed, type };
+    });
+
+    if (image + video === 0) {
+      return [];
+    }
+    cast.metadata.embeds = classified;
+    return [`metadata.embeds: retyped ${image} link(s) as image, ${video} as video`];
+  }
+};
@@ -0,0 +1,24 @@
+// v4 - Extract the announced group chat from stored text and embeds
+
+import { extractChatMetadata } from '../chat-metadata';
+import { StoredCast } from '../types';
+import { CastMigration } from './types';
+
+export const extractStoredChatMetadata: CastMigration = {
+  version: 4,
+  name: 'extract-chat-metadata',
+  description: 'Fill in the chat section (invite link, platform, member cap, status) from stored cast text and embeds',
+
+  async up(cast: StoredCast): Promise<string[]> {
+    if (cast.chat) {
+      return [];
+    }
+
+    const chat = extractChatMetadata(cast.metadata);
+    if (!chat) {
+      return [];
+    }
+    cast.chat = chat;
+    return [`chat: extracted ${chat.platform} invite (${chat.status})`];
+  }
+};
@@ -0,0 +1,28 @@
+// v5 - Add live casts stored before author pages existed to their author's index
+
+import { authorIndexKey } from '../authors';
+import { getFeedScore, isCastLive } from '../schedule';
+import { getCastStore } from '../store';
+import { StoredCast } from '../types';
+import { CastMigration } from './types';
+
+export const indexAuthorCasts: CastMigration = {
+  version: 5,
+  name: 'index-author-casts',
+  description: 'Add live casts to the per-author index behind author pages (casts stored after v5 are indexed when written)',
+
+  async up(cast: StoredCast, context): Promise<string[]> {
+    const fid = cast.metadata?.authorFid;
+    if (!fid || !isCastLive(cast)) {
+      return [];
+    }
+
+    if (context.dryRun) {
+      return [`index: would add to the author index for fid ${fid}`];
+    }
+
+    // Re-adding an indexed cast only rewrites its score, so the run can be repeated
+    await getCastStore().addToOrderedIndex(authorIndexKey(fid), cast.hash, getFeedScore(cast));
+    return [`index: added to the author index for fid ${fid}`];
+  }
+};
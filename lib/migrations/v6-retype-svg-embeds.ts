@@ -0,0 +1,35 @@
+// v6 - Retype stored SVG image embeds as links, since /api/media will not serve SVG
+
+import { StoredCast } from '../types';
+import { CastMigration } from './types';
+
+export const retypeSvgEmbeds: CastMigration = {
+  version: 6,
+  name: 'retype-svg-embeds',
+  description: 'Retype stored SVG image embeds as links so they render as a link instead of a broken image',
+
+  async up(cast: StoredCast): Promise<string[]> {
+    const embeds = cast.metadata?.embeds;
+    if (!cast.metadata || !embeds) {
+      return [];
+    }
+
+    // v3 and enrichment used to classify .svg URLs and image/svg+xml as images
+    const isSvg = (url: string, contentType?: string) =>
+      contentType ? contentType === 'image/svg+xml' : /\.svg$/i.test(url.split(/[?#]/)[0]);
+    let retyped = 0;
+    const classified = embeds.map(embed => {
+      if (embed.type !== 'image' || !embed.url || !isSvg(embed.url, embed.contentType)) {
+        return embed;
+      }
+      retyped++;
+      return { ...embed, type: 'link' as const };
+    });
+
+    if (retyped === 0) {
+      return [];
+    }
+    cast.metadata.embeds = classified;
+    return [`metadata.embeds: retyped ${retyped} SVG image(s) as link`];
+  }
+};
@@ -1,7 +1,7 @@
 import type { MiniAppNotificationDetails } from "@farcaster/frame-sdk";
 import { redis } from "./redis";
 
-const notificationServiceKey =
+export const notificationServiceKey =
   process.env.NEXT_PUBLIC_ONCHAINKIT_PROJECT_NAME ?? "minikit";
 
 function getUserNotificationDetailsKey(fid: number): string {
@@ -0,0 +1,33 @@
+// Opaque cursor encoding for ordered feed pagination
+
+import { ScoredHash } from './store';
+
+/**
+ * Encode the last entry of a page as an opaque cursor string
+ */
+export function encodeFeedCursor(entry: ScoredHash): string {
+  return Buffer.from(`${entry.score}:${entry.hash}`, 'utf8').toString('base64url');
+}
+
+/**
+ * Decode a cursor produced by encodeFeedCursor, or null if it is malformed
+ */
+export function decodeFeedCursor(cursor: string): ScoredHash | null {
+  try {
+    const decoded = Buffer.from(cursor, 'base64url').toString('utf8');
+    const separator = decoded.indexOf(':');
+    if (separator <= 0) {
+      return null;
+    }
+
+    const score = Number(decoded.slice(0, separator));
+    const hash = decoded.slice(separator + 1);
+    if (!Number.isFinite(score) || !hash) {
+      return null;
+    }
+
+    return { score, hash };
+  } catch {
+    return null;
+  }
+}
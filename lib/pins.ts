@@ -0,0 +1,111 @@
+// Pinned Casts - Curator-ordered featured chats shown above the feed
+
+import { getCastStore } from './store';
+import { getFeedScore, isCastLive } from './schedule';
+import { StoredCast } from './types';
+
+export const MAX_PINNED_CASTS = 10;
+
+/**
+ * Get pinned cast hashes in their curated order
+ */
+export async function getPinnedHashes(): Promise<string[]> {
+  try {
+    return (await getCastStore().getDocument<string[]>('pins:order')) ?? [];
+  } catch (error) {
+    console.error('Failed to get pinned casts:', error);
+    return [];
+  }
+}
+
+/**
+ * Get the pinned casts that are currently live, in curated order
+ */
+export async function getPinnedCasts(): Promise<StoredCast[]> {
+  const hashes = await getPinnedHashes();
+  if (hashes.length === 0) {
+    return [];
+  }
+
+  const casts = await getCastStore().getCasts(hashes);
+  const now = Date.now();
+  return casts.filter(cast => isCastLive(cast, now));
+}
+
+/**
+ * Pin a cast to the featured section.
+ * Pinned casts leave the chronological feed index until they are unpinned.
+ */
+export async function pinCast(hash: string): Promise<{ success: boolean; pins?: string[]; error?: string }> {
+  const store = getCastStore();
+  const pins = await getPinnedHashes();
+
+  if (pins.includes(hash)) {
+    return { success: false, error: 'Cast is already pinned' };
+  }
+  if (pins.length >= MAX_PINNED_CASTS) {
+    return { success: false, error: `At most ${MAX_PINNED_CASTS} casts can be pinned` };
+  }
+
+  const cast = await store.getCast(hash);
+  if (!cast) {
+    return { success: false, error: 'Cast not found' };
+  }
+  if (cast.status !== 'active') {
+    return { success: false, error: 'Hidden casts cannot be pinned' };
+  }
+
+  cast.pinned = true;
+  await store.saveCast(cast);
+  await store.removeFromOrderedIndex('casts:feed', hash);
+
+  const updatedPins = [...pins, hash];
+  await store.saveDocument('pins:order', updatedPins);
+
+  return { success: true, pins: updatedPins };
+}
+
+/**
+ * Unpin a cast, returning it to its chronological place in the feed
+ */
+export async function unpinCast(hash: string): Promise<{ success: boolean; pins?: string[]; error?: string }> {
+  const store = getCastStore();
+  const pins = await getPinnedHashes();
+
+  if (!pins.includes(hash)) {
+    return { success: false, error: 'Cast is not pinned' };
+  }
+
+  const updatedPins = pins.filter(pinned => pinned !== hash);
+  await store.saveDocument('pins:order', updatedPins);
+
+  const cast = await store.getCast(hash);
+  if (cast) {
+    delete cast.pinned;
+    await store.saveCast(cast);
+    if (isCastLive(cast)) {
+      await store.addToOrderedIndex('casts:feed', hash, getFeedScore(cast));
+    }
+  }
+
+  return { success: true, pins: updatedPins };
+}
+
+/**
+ * Save a new order for the pinned casts.
+ * `hashes` must contain exactly the currently pinned hashes.
+ */
+export async function reorderPinnedCasts(hashes: string[]): Promise<{ success: boolean; pins?: string[]; error?: string }> {
+  const pins = await getPinnedHashes();
+
+  const samePins = hashes.length === pins.length
+    && new Set(hashes).size === hashes.length
+    && hashes.every(hash => pins.includes(hash));
+  if (!samePins) {
+    return { success: false, error: 'Pinned casts changed - refresh and try again' };
+  }
+
+  await getCastStore().saveDocument('pins:order', hashes);
+
+  return { success: true, pins: hashes };
+}
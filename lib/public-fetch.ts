@@ -0,0 +1,129 @@
+// Public Fetch - Outgoing HTTP(S) requests that never reach private, loopback or reserved addresses
+
+import { lookup, LookupAddress } from 'dns';
+import http, { IncomingMessage, OutgoingHttpHeaders } from 'http';
+import https from 'https';
+import { BlockList, isIP } from 'net';
+
+// Loopback, private, link-local, carrier-grade NAT, documentation, multicast and reserved ranges
+const BLOCKED_ADDRESSES = new BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15],
+  ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4]
+].forEach(([network, prefix]) => BLOCKED_ADDRESSES.addSubnet(network as string, prefix as number, 'ipv4'));
+[
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['2001:db8::', 32], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+].forEach(([network, prefix]) => BLOCKED_ADDRESSES.addSubnet(network as string, prefix as number, 'ipv6'));
+
+/**
+ * Whether an IP address is one outgoing requests must never connect to.
+ * IPv4-mapped IPv6 addresses are checked as the IPv4 address they carry.
+ */
+export function isBlockedAddress(address: string): boolean {
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) {
+    return BLOCKED_ADDRESSES.check(mapped[1], 'ipv4');
+  }
+  const family = isIP(address);
+  if (family === 0) {
+    return true;
+  }
+  return BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * DNS lookup that refuses blocked addresses. Checking at connect time
+ * (rather than before the request) also covers hostnames that re-resolve
+ * to a private address between checks.
+ */
+const safeLookup: typeof lookup = ((
+  hostname: string,
+  options: { all?: boolean },
+  callback: (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void
+) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '');
+      return;
+    }
+    if (addresses.length === 0 || addresses.some(({ address }) => isBlockedAddress(address))) {
+      callback(Object.assign(new Error(`Refusing to connect to a private address for ${hostname}`), { code: 'EBLOCKED' }), '');
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}) as typeof lookup;
+
+/**
+ * Whether a URL may be fetched at all: http(s) on the default port, and not
+ * localhost or an IP literal in a blocked range. Hostnames are checked again
+ * at connect time.
+ */
+export function isPublicUrl(url: URL): boolean {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return false;
+  }
+  if (url.port && url.port !== '80' && url.port !== '443') {
+    return false;
+  }
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  return isIP(hostname) === 0 ? hostname !== 'localhost' && !hostname.endsWith('.localhost') : !isBlockedAddress(hostname);
+}
+
+export interface PublicRequestOptions {
+  headers?: OutgoingHttpHeaders;
+  deadline: number;            // Unix ms by which the whole exchange, body included, must finish
+  maxRedirects: number;
+}
+
+/**
+ * GET a public URL, following redirects to other public URLs. Resolves to the
+ * final response (any non-redirect status - the caller checks it) or null on
+ * refusal, network error or timeout. The response is destroyed when the
+ * deadline passes, so a slow body cannot hold the caller open.
+ */
+export function requestPublicUrl(
+  url: URL,
+  options: PublicRequestOptions
+): Promise<{ response: IncomingMessage; url: URL } | null> {
+  if (!isPublicUrl(url) || Date.now() >= options.deadline) {
+    return Promise.resolve(null);
+  }
+
+  return new Promise(resolve => {
+    const client = url.protocol === 'https:' ? https : http;
+    const request = client.get(url, { lookup: safeLookup, headers: options.headers }, (response: IncomingMessage) => {
+      const status = response.statusCode ?? 0;
+      const location = response.headers.location;
+
+      if (status >= 300 && status < 400 && location) {
+        response.resume();
+        clearTimeout(timer);
+        let next: URL;
+        try {
+          next = new URL(location, url);
+        } catch {
+          resolve(null);
+          return;
+        }
+        resolve(options.maxRedirects > 0 ? requestPublicUrl(next, { ...options, maxRedirects: options.maxRedirects - 1 }) : null);
+        return;
+      }
+
+      response.on('close', () => clearTimeout(timer));
+      resolve({ response, url });
+    });
+
+    const timer = setTimeout(() => request.destroy(new Error('Request timed out')), options.deadline - Date.now());
+    request.on('error', (error) => {
+      clearTimeout(timer);
+      console.warn(`Could not fetch ${url.href}:`, error.message);
+      resolve(null);
+    });
+  });
+}
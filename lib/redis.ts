@@ -13,3 +13,14 @@ export const redis =
         token: process.env.REDIS_TOKEN,
       })
     : null;
+
+// Same database without JSON auto-deserialization, so values read back
+// byte-for-byte (used by lib/backup.ts to snapshot and restore the keyspace)
+export const rawRedis =
+  process.env.REDIS_URL && process.env.REDIS_TOKEN
+    ? new Redis({
+        url: process.env.REDIS_URL,
+        token: process.env.REDIS_TOKEN,
+        automaticDeserialization: false,
+      })
+    : null;
@@ -0,0 +1,52 @@
+// Cast Scheduling - Go-live and expiry rules for curated casts
+
+import { CastSchedule, StoredCast } from './types';
+
+type ScheduledCast = Pick<StoredCast, 'status' | 'addedAt' | 'publishAt' | 'expiresAt'>;
+
+/**
+ * Whether a cast is queued to go live at a later time
+ */
+export function isCastScheduled(cast: ScheduledCast, now: number = Date.now()): boolean {
+  return cast.publishAt !== undefined && cast.publishAt > now;
+}
+
+/**
+ * Whether a time-boxed cast has passed its expiry
+ */
+export function isCastExpired(cast: ScheduledCast, now: number = Date.now()): boolean {
+  return cast.expiresAt !== undefined && cast.expiresAt <= now;
+}
+
+/**
+ * Whether a cast should currently appear in the public feed
+ */
+export function isCastLive(cast: ScheduledCast, now: number = Date.now()): boolean {
+  return cast.status === 'active' && !isCastScheduled(cast, now) && !isCastExpired(cast, now);
+}
+
+/**
+ * Score a cast is ordered by in the feed indexes - the moment it went live
+ */
+export function getFeedScore(cast: ScheduledCast): number {
+  return cast.publishAt ?? cast.addedAt;
+}
+
+/**
+ * Validate a publish/expiry window, returning an error message or null
+ */
+export function validateCastSchedule(schedule: CastSchedule, now: number = Date.now()): string | null {
+  const { publishAt, expiresAt } = schedule;
+
+  if (publishAt !== undefined && !Number.isFinite(publishAt)) {
+    return 'Invalid publish time';
+  }
+  if (expiresAt !== undefined && !Number.isFinite(expiresAt)) {
+    return 'Invalid expiry time';
+  }
+  if (expiresAt !== undefined && expiresAt <= Math.max(publishAt ?? now, now)) {
+    return 'Expiry time must be after the cast goes live';
+  }
+
+  return null;
+}
@@ -0,0 +1,144 @@
+// Search Filters - Query-string encoding shared by /api/casts, useCastsApi and the filter UIs
+
+import { SearchFilters, SearchSort } from './types';
+
+export const SEARCH_SORTS: SearchSort[] = ['relevance', 'newest', 'oldest', 'trending'];
+
+const SEARCH_STATUSES: NonNullable<SearchFilters['status']>[] = ['active', 'hidden', 'all'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse a date bound. Date-only `to` values cover the whole day.
+ */
+function parseDateBound(value: string, endOfDay: boolean): Date | null {
+  const time = Date.parse(value);
+  if (!Number.isFinite(time)) {
+    return null;
+  }
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  return new Date(dateOnly && endOfDay ? time + DAY_MS - 1 : time);
+}
+
+/**
+ * Build an inclusive date range from optional from/to strings (ISO dates)
+ */
+export function parseDateRange(
+  from: string | null | undefined,
+  to: string | null | undefined
+): { dateRange?: { start: Date; end: Date } } | { error: string } {
+  if (!from && !to) {
+    return {};
+  }
+
+  const start = from ? parseDateBound(from, false) : new Date(0);
+  const end = to ? parseDateBound(to, true) : new Date(8.64e15);
+  if (!start || !end) {
+    return { error: 'Invalid date range. Use ISO dates such as 2025-01-31' };
+  }
+  if (start > end) {
+    return { error: '"from" must not be after "to"' };
+  }
+  return { dateRange: { start, end } };
+}
+
+/**
+ * YYYY-MM-DD for a date input (UTC, matching parseDateRange)
+ */
+export function toDateInputValue(date?: Date): string {
+  return date && date.getTime() > 0 && date.getTime() < 8.64e15 ? date.toISOString().slice(0, 10) : '';
+}
+
+/**
+ * Whether any filter beyond the free-text query is set
+ */
+export function hasActiveFilters(filters: Omit<SearchFilters, 'query'>): boolean {
+  return Boolean(
+    filters.author?.trim() ||
+    filters.dateRange ||
+    filters.tag ||
+    (filters.sort && filters.sort !== 'relevance') ||
+    filters.status
+  );
+}
+
+/**
+ * Whether a trending request can be paged straight from casts:trending.
+ * A text query or author filter needs the full search scan instead.
+ */
+export function isIndexedTrending(filters: SearchFilters): boolean {
+  return filters.sort === 'trending' && !filters.query.trim() && !filters.author?.trim() && !filters.status;
+}
+
+/**
+ * Encode filters as /api/casts query parameters
+ */
+export function searchFiltersToParams(filters: SearchFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.query.trim()) {
+    params.set('query', filters.query.trim());
+  }
+  if (filters.author?.trim()) {
+    params.set('author', filters.author.trim());
+  }
+  if (filters.dateRange) {
+    const from = toDateInputValue(filters.dateRange.start);
+    const to = toDateInputValue(filters.dateRange.end);
+    if (from) {
+      params.set('from', from);
+    }
+    if (to) {
+      params.set('to', to);
+    }
+  }
+  if (filters.tag) {
+    params.set('tag', filters.tag);
+  }
+  if (filters.sort) {
+    params.set('sort', filters.sort);
+  }
+  if (filters.status) {
+    params.set('status', filters.status);
+  }
+  return params;
+}
+
+/**
+ * Decode /api/casts query parameters. `status` is only accepted when
+ * `allowStatus` is set (admin callers); without it search covers live casts.
+ */
+export function parseSearchFilterParams(
+  params: URLSearchParams,
+  options: { allowStatus?: boolean } = {}
+): { filters: SearchFilters } | { error: string } {
+  const sort = params.get('sort') as SearchSort | null;
+  if (sort && !SEARCH_SORTS.includes(sort)) {
+    return { error: `Invalid sort. Use one of: ${SEARCH_SORTS.join(', ')}` };
+  }
+
+  const status = params.get('status') as SearchFilters['status'] | null;
+  if (status && (!options.allowStatus || !SEARCH_STATUSES.includes(status))) {
+    return { error: 'Invalid status parameter.' };
+  }
+
+  const author = params.get('author')?.trim();
+  if (author && author.length > 100) {
+    return { error: 'Author filter is too long.' };
+  }
+
+  const range = parseDateRange(params.get('from'), params.get('to'));
+  if ('error' in range) {
+    return range;
+  }
+
+  return {
+    filters: {
+      query: params.get('query')?.trim() ?? '',
+      author: author || undefined,
+      dateRange: range.dateRange,
+      tag: params.get('tag') || undefined,
+      sort: sort ?? undefined,
+      status: status ?? undefined
+    }
+  };
+}
@@ -0,0 +1,67 @@
+// Search Text - Tokenizing and highlighting shared by the search index and the UI
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is',
+  'it', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'with'
+]);
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Shortest query token that is expanded as a prefix ("ba" matches "base")
+ */
+export const MIN_PREFIX_LENGTH = 2;
+
+/**
+ * Lowercase and strip accents so "Café" and "cafe" index the same
+ */
+export function normalizeTerm(word: string): string {
+  return word.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase();
+}
+
+/**
+ * Split text into normalized index terms, in order (duplicates kept)
+ */
+export function tokenize(text: string): string[] {
+  return (text.match(WORD_PATTERN) ?? [])
+    .map(normalizeTerm)
+    .filter(term => term.length >= MIN_PREFIX_LENGTH && !STOP_WORDS.has(term));
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * Split text into plain and matched segments for rendering. `terms` are the
+ * index terms a search matched (SearchResult highlights); every word in
+ * `text` that normalizes to one of them is marked.
+ */
+export function splitHighlights(text: string, terms: string[] = []): HighlightSegment[] {
+  if (terms.length === 0 || !text) {
+    return [{ text, match: false }];
+  }
+
+  const wanted = new Set(terms);
+  const segments: HighlightSegment[] = [];
+  let position = 0;
+
+  for (const word of text.matchAll(WORD_PATTERN)) {
+    if (!wanted.has(normalizeTerm(word[0]))) {
+      continue;
+    }
+    const start = word.index ?? 0;
+    if (start > position) {
+      segments.push({ text: text.slice(position, start), match: false });
+    }
+    segments.push({ text: word[0], match: true });
+    position = start + word[0].length;
+  }
+
+  if (position < text.length) {
+    segments.push({ text: text.slice(position), match: false });
+  }
+
+  return segments;
+}
@@ -0,0 +1,314 @@
+// Cast Search - Inverted full-text index with prefix matching and relevance ranking
+
+import { getCastStore, CastOrderedIndexKey } from './store';
+import { getFeedScore, isCastLive } from './schedule';
+import { MIN_PREFIX_LENGTH, normalizeTerm, tokenize } from './search-text';
+import { SearchFilters, StoredCast } from './types';
+
+/**
+ * How much a term counts for each field it appears in
+ */
+const FIELD_WEIGHTS = {
+  username: 4,
+  author: 4,
+  hash: 3,
+  tags: 3,
+  embedTitle: 2,
+  content: 1,
+  embedDescription: 0.5,
+  addedBy: 0.5
+} as const;
+
+// A word repeated in the content stops adding weight after this many times
+const MAX_TERM_FREQUENCY = 3;
+
+// Prefix matches rank below exact matches
+const PREFIX_MATCH_FACTOR = 0.5;
+
+const MAX_QUERY_TOKENS = 8;
+const MAX_PREFIX_EXPANSIONS = 50;
+const MAX_POSTINGS_PER_TERM = 1000;
+
+export interface SearchResult {
+  cast: StoredCast;
+  score: number;
+  highlights: string[];        // Index terms the query matched, for splitHighlights
+}
+
+export function searchTermKey(term: string): CastOrderedIndexKey {
+  return `casts:term:${term}`;
+}
+
+/**
+ * Weighted terms for a cast
+ */
+export function buildSearchDocument(cast: StoredCast | null): Map<string, number> {
+  const document = new Map<string, number>();
+  if (!cast) {
+    return document;
+  }
+
+  const add = (text: string | undefined, weight: number) => {
+    const counts = new Map<string, number>();
+    for (const term of tokenize(text ?? '')) {
+      counts.set(term, (counts.get(term) ?? 0) + 1);
+    }
+    counts.forEach((count, term) => {
+      document.set(term, (document.get(term) ?? 0) + weight * Math.min(count, MAX_TERM_FREQUENCY));
+    });
+  };
+
+  add(cast.hash, FIELD_WEIGHTS.hash);
+  add(cast.addedBy, FIELD_WEIGHTS.addedBy);
+  add(cast.tags?.join(' '), FIELD_WEIGHTS.tags);
+  add(cast.metadata?.author, FIELD_WEIGHTS.author);
+  add(cast.metadata?.username, FIELD_WEIGHTS.username);
+  add(cast.metadata?.content, FIELD_WEIGHTS.content);
+  for (const embed of cast.metadata?.embeds ?? []) {
+    add(embed.metadata?.title, FIELD_WEIGHTS.embedTitle);
+    add(embed.metadata?.description, FIELD_WEIGHTS.embedDescription);
+  }
+
+  return document;
+}
+
+/**
+ * Whether two metadata snapshots differ in any field the index reads
+ */
+export function hasSearchableChanges(
+  before: StoredCast['metadata'],
+  after: StoredCast['metadata']
+): boolean {
+  const searchable = (metadata: StoredCast['metadata']) => JSON.stringify([
+    metadata?.author,
+    metadata?.username,
+    metadata?.content,
+    metadata?.embeds?.map(embed => [embed.metadata?.title, embed.metadata?.description])
+  ]);
+  return searchable(before) !== searchable(after);
+}
+
+/**
+ * Move a cast's postings from its previous record to its new one.
+ * Pass null for `previous` on create and for `next` on delete.
+ * Only active casts are indexed; scheduled and expired ones are filtered
+ * out at query time like the feed does.
+ */
+export async function updateSearchIndex(previous: StoredCast | null, next: StoredCast | null): Promise<void> {
+  const store = getCastStore();
+  const hash = next?.hash ?? previous?.hash;
+  if (!hash) {
+    return;
+  }
+
+  const before = buildSearchDocument(previous?.status === 'active' ? previous : null);
+  const after = buildSearchDocument(next?.status === 'active' ? next : null);
+
+  for (const term of Array.from(before.keys())) {
+    if (after.has(term)) {
+      continue;
+    }
+    await store.removeFromOrderedIndex(searchTermKey(term), hash);
+    if (await store.getOrderedIndexSize(searchTermKey(term)) === 0) {
+      await store.removeFromIndex('casts:terms', term);
+    }
+  }
+
+  for (const [term, weight] of Array.from(after.entries())) {
+    if (before.get(term) === weight) {
+      continue;
+    }
+    await store.addToOrderedIndex(searchTermKey(term), hash, weight);
+    await store.addToIndex('casts:terms', term);
+  }
+}
+
+/**
+ * Build the index from the active set if it has never been built
+ * (casts added before the index existed)
+ */
+async function ensureSearchIndex(): Promise<string[]> {
+  const store = getCastStore();
+  const terms = await store.getIndexMembers('casts:terms');
+  if (terms.length > 0) {
+    return terms;
+  }
+
+  const activeHashes = await store.getIndexMembers('casts:active');
+  if (activeHashes.length === 0) {
+    return [];
+  }
+
+  for (const cast of await store.getCasts(activeHashes)) {
+    await updateSearchIndex(null, cast);
+  }
+
+  return await store.getIndexMembers('casts:terms');
+}
+
+/**
+ * Search live casts.
+ *
+ * Every query word must match (AND). A word matches a term exactly, or as a
+ * prefix once it is MIN_PREFIX_LENGTH long, so "bas" finds "base" and
+ * "basedchats". Candidates come from the index; scores are recomputed from
+ * the current records, so an entry left behind by an out-of-band write can
+ * never surface a cast that no longer matches. Results are ordered by score,
+ * then by go-live time.
+ */
+export async function searchCastIndex(query: string): Promise<SearchResult[]> {
+  const store = getCastStore();
+  const tokens = queryTokens(query);
+  if (tokens.length === 0) {
+    return [];
+  }
+
+  // The vocabulary is small for a curated feed, so prefixes are expanded in memory
+  const vocabulary = await ensureSearchIndex();
+
+  let candidates: string[] = [];
+  for (const [position, token] of Array.from(tokens.entries())) {
+    const expansions = vocabulary
+      .filter(term => term === token || (token.length >= MIN_PREFIX_LENGTH && term.startsWith(token)))
+      .sort((a, b) => a.length - b.length)
+      .slice(0, MAX_PREFIX_EXPANSIONS);
+
+    const matches = new Set<string>();
+    for (const term of expansions) {
+      const postings = await store.getOrderedIndexRange(searchTermKey(term), {
+        offset: 0,
+        count: MAX_POSTINGS_PER_TERM
+      });
+      postings.forEach(posting => matches.add(posting.hash));
+    }
+
+    candidates = position === 0 ? Array.from(matches) : candidates.filter(hash => matches.has(hash));
+    if (candidates.length === 0) {
+      return [];
+    }
+  }
+
+  const now = Date.now();
+  const results: SearchResult[] = [];
+
+  for (const cast of await store.getCasts(candidates)) {
+    const match = isCastLive(cast, now) ? scoreCast(cast, tokens) : null;
+    if (match) {
+      results.push(match);
+    }
+  }
+
+  return results.sort(byRelevance);
+}
+
+/**
+ * Search with SearchFilters. Without `status` only live casts are searched
+ * through the index; admin statuses scan every stored record instead, since
+ * hidden casts are not indexed. Author, date range (go-live time) and tag
+ * narrow the matches, which are then ordered by `sort`.
+ */
+export async function searchCastsWithFilters(filters: SearchFilters): Promise<SearchResult[]> {
+  const store = getCastStore();
+  const tokens = queryTokens(filters.query);
+  let results: SearchResult[];
+
+  if (!filters.status) {
+    results = tokens.length > 0
+      ? await searchCastIndex(filters.query)
+      : (await store.getCasts(await store.getIndexMembers('casts:active')))
+          .filter(cast => isCastLive(cast))
+          .map(cast => ({ cast, score: 0, highlights: [] }));
+  } else {
+    results = [];
+    for (const cast of await store.getCasts(await store.getIndexMembers('casts:all'))) {
+      if (filters.status !== 'all' && cast.status !== filters.status) {
+        continue;
+      }
+      const match = tokens.length > 0 ? scoreCast(cast, tokens) : { cast, score: 0, highlights: [] };
+      if (match) {
+        results.push(match);
+      }
+    }
+  }
+
+  const author = filters.author ? normalizeTerm(filters.author.trim().replace(/^@/, '')) : '';
+  const { dateRange, tag } = filters;
+
+  results = results.filter(({ cast }) => {
+    if (author && ![cast.metadata?.author, cast.metadata?.username].some(name =>
+      name && normalizeTerm(name).includes(author)
+    )) {
+      return false;
+    }
+    if (dateRange) {
+      const score = getFeedScore(cast);
+      if (score < dateRange.start.getTime() || score > dateRange.end.getTime()) {
+        return false;
+      }
+    }
+    return !tag || Boolean(cast.tags?.includes(tag));
+  });
+
+  const sort = filters.sort ?? (tokens.length > 0 ? 'relevance' : 'newest');
+  if (sort === 'trending') {
+    const trending = await getTrendingScores();
+    return results.sort((a, b) =>
+      (trending.get(b.cast.hash) ?? 0) - (trending.get(a.cast.hash) ?? 0) || getFeedScore(b.cast) - getFeedScore(a.cast)
+    );
+  }
+  return results.sort(
+    sort === 'relevance' ? byRelevance
+      : sort === 'oldest' ? (a, b) => getFeedScore(a.cast) - getFeedScore(b.cast)
+      : (a, b) => getFeedScore(b.cast) - getFeedScore(a.cast)
+  );
+}
+
+/**
+ * Trending scores written by the engagement job (lib/engagement.ts), for
+ * ranking search matches. Without a text query or author filter, trending is
+ * paged straight from the index instead (getTrendingCasts in lib/utils.ts).
+ * Casts it has not scored yet are missing and rank as 0, newest first.
+ */
+async function getTrendingScores(): Promise<Map<string, number>> {
+  const store = getCastStore();
+  const entries = await store.getOrderedIndexRange('casts:trending', {
+    offset: 0,
+    count: await store.getOrderedIndexSize('casts:trending')
+  });
+  return new Map(entries.map(({ hash, score }) => [hash, score]));
+}
+
+function queryTokens(query: string): string[] {
+  return Array.from(new Set(tokenize(query))).slice(0, MAX_QUERY_TOKENS);
+}
+
+function byRelevance(a: SearchResult, b: SearchResult): number {
+  return b.score - a.score || getFeedScore(b.cast) - getFeedScore(a.cast);
+}
+
+/**
+ * Score a cast against query tokens. Every token must match one of the
+ * cast's terms, exactly or as a prefix; returns null when one does not.
+ */
+function scoreCast(cast: StoredCast, tokens: string[]): SearchResult | null {
+  const document = buildSearchDocument(cast);
+  const highlights = new Set<string>();
+  let score = 0;
+
+  for (const token of tokens) {
+    let best = 0;
+    document.forEach((weight, term) => {
+      const factor = term === token ? 1 : term.startsWith(token) ? PREFIX_MATCH_FACTOR : 0;
+      if (factor > 0) {
+        best = Math.max(best, weight * factor);
+        highlights.add(term);
+      }
+    });
+    if (best === 0) {
+      return null;
+    }
+    score += best;
+  }
+
+  return { cast, score, highlights: Array.from(highlights) };
+}
@@ -0,0 +1,60 @@
+// Cast Store - Backend selection
+
+import { redis } from '../redis';
+import { MemoryCastStore } from './memory-cast-store';
+import { RedisCastStore } from './redis-cast-store';
+import { CastStore } from './types';
+
+export type {
+  CastStore,
+  CastCacheKey,
+  CastCachePrefix,
+  CastDocumentKey,
+  CastIndexKey,
+  CastOrderedIndexKey,
+  CastStoreBackend,
+  OrderedIndexRange,
+  ScoredHash
+} from './types';
+export { MemoryCastStore } from './memory-cast-store';
+export { RedisCastStore, parseRedisData } from './redis-cast-store';
+
+// Keep the in-memory store on globalThis so dev-server hot reloads don't wipe it
+const globalForStore = globalThis as unknown as { castStore?: CastStore };
+
+/**
+ * Pick a backend from the environment.
+ *
+ * CAST_STORE=memory forces the in-memory store; otherwise Redis is used when
+ * REDIS_URL/REDIS_TOKEN are configured, falling back to memory when they are not.
+ */
+function createCastStore(): CastStore {
+  if (process.env.CAST_STORE !== 'memory' && redis) {
+    return new RedisCastStore(redis);
+  }
+
+  if (process.env.CAST_STORE !== 'memory') {
+    console.warn(
+      'Redis not configured - using in-memory cast store. Data will not persist across restarts.'
+    );
+  }
+
+  return new MemoryCastStore();
+}
+
+/**
+ * Get the active cast store
+ */
+export function getCastStore(): CastStore {
+  if (!globalForStore.castStore) {
+    globalForStore.castStore = createCastStore();
+  }
+  return globalForStore.castStore;
+}
+
+/**
+ * Replace the active cast store (for tests and scripts)
+ */
+export function setCastStore(store: CastStore): void {
+  globalForStore.castStore = store;
+}
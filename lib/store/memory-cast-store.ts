@@ -0,0 +1,169 @@
+// Cast Store - In-memory backend for local dev, previews and tests
+
+import { StoredCast } from '../types';
+import {
+  CastCacheKey,
+  CastCachePrefix,
+  CastDocumentKey,
+  CastIndexKey,
+  CastOrderedIndexKey,
+  CastStore,
+  OrderedIndexRange,
+  ScoredHash
+} from './types';
+
+// Oldest cache entries are evicted past this many, so a long-running process stays bounded
+const MAX_CACHE_ENTRIES = 5000;
+
+/**
+ * Process-local cast store.
+ *
+ * Records are deep-cloned on the way in and out so callers can never mutate
+ * stored state by accident - the same guarantee the JSON round-trip gives
+ * the Redis backend.
+ */
+export class MemoryCastStore implements CastStore {
+  readonly backend = 'memory' as const;
+
+  private casts = new Map<string, StoredCast>();
+  private indexes = new Map<CastIndexKey, Set<string>>();
+  private orderedIndexes = new Map<CastOrderedIndexKey, Map<string, number>>();
+  private documents = new Map<CastDocumentKey, unknown>();
+  private cache = new Map<CastCacheKey, { value: unknown; expiresAt: number }>();
+
+  async getCast(hash: string): Promise<StoredCast | null> {
+    const cast = this.casts.get(hash);
+    return cast ? structuredClone(cast) : null;
+  }
+
+  async getCasts(hashes: string[]): Promise<StoredCast[]> {
+    return hashes
+      .map(hash => this.casts.get(hash))
+      .filter((cast): cast is StoredCast => cast !== undefined)
+      .map(cast => structuredClone(cast));
+  }
+
+  async saveCast(cast: StoredCast): Promise<void> {
+    cast.updatedAt = Date.now();
+    this.casts.set(cast.hash, structuredClone(cast));
+  }
+
+  async deleteCast(hash: string): Promise<void> {
+    this.casts.delete(hash);
+  }
+
+  async hasCast(hash: string): Promise<boolean> {
+    return this.casts.has(hash);
+  }
+
+  async addToIndex(index: CastIndexKey, hash: string): Promise<void> {
+    this.getIndex(index).add(hash);
+  }
+
+  async removeFromIndex(index: CastIndexKey, hash: string): Promise<void> {
+    this.getIndex(index).delete(hash);
+  }
+
+  async getIndexMembers(index: CastIndexKey): Promise<string[]> {
+    return Array.from(this.getIndex(index));
+  }
+
+  async addToOrderedIndex(index: CastOrderedIndexKey, hash: string, score: number): Promise<void> {
+    this.getOrderedIndex(index).set(hash, score);
+  }
+
+  async removeFromOrderedIndex(index: CastOrderedIndexKey, hash: string): Promise<boolean> {
+    return this.getOrderedIndex(index).delete(hash);
+  }
+
+  async getOrderedIndexRange(index: CastOrderedIndexKey, range: OrderedIndexRange): Promise<ScoredHash[]> {
+    const maxScore = range.maxScore ?? Infinity;
+
+    return Array.from(this.getOrderedIndex(index), ([hash, score]) => ({ hash, score }))
+      .filter(entry => entry.score <= maxScore)
+      .sort((a, b) => b.score - a.score || (a.hash < b.hash ? 1 : a.hash > b.hash ? -1 : 0))
+      .slice(range.offset, range.offset + range.count);
+  }
+
+  async getOrderedIndexSize(index: CastOrderedIndexKey): Promise<number> {
+    return this.getOrderedIndex(index).size;
+  }
+
+  async getDocument<T>(key: CastDocumentKey): Promise<T | null> {
+    return this.documents.has(key) ? structuredClone(this.documents.get(key) as T) : null;
+  }
+
+  async saveDocument<T>(key: CastDocumentKey, value: T): Promise<void> {
+    this.documents.set(key, structuredClone(value));
+  }
+
+  async deleteDocument(key: CastDocumentKey): Promise<void> {
+    this.documents.delete(key);
+  }
+
+  async getCacheEntries<T>(keys: CastCacheKey[]): Promise<Array<T | null>> {
+    const now = Date.now();
+    return keys.map(key => {
+      const entry = this.cache.get(key);
+      return entry && entry.expiresAt > now ? structuredClone(entry.value as T) : null;
+    });
+  }
+
+  async setCacheEntry<T>(
+    key: CastCacheKey,
+    value: T,
+    options: { ttlSeconds: number; onlyIfAbsent?: boolean }
+  ): Promise<boolean> {
+    const now = Date.now();
+    if (options.onlyIfAbsent && (this.cache.get(key)?.expiresAt ?? 0) > now) {
+      return false;
+    }
+    // Re-inserting moves the key to the end, so eviction drops the least recently written
+    this.cache.delete(key);
+    this.cache.set(key, { value: structuredClone(value), expiresAt: now + options.ttlSeconds * 1000 });
+    if (this.cache.size > MAX_CACHE_ENTRIES) {
+      this.cache.delete(this.cache.keys().next().value as CastCacheKey);
+    }
+    return true;
+  }
+
+  async deleteCacheEntries(keys: CastCacheKey[] | CastCachePrefix): Promise<void> {
+    const targets = Array.isArray(keys)
+      ? keys
+      : Array.from(this.cache.keys()).filter(key => key.startsWith(keys));
+    targets.forEach(key => this.cache.delete(key));
+  }
+
+  async ping(): Promise<void> {
+    // Always reachable
+  }
+
+  /**
+   * Drop all stored data (useful between tests)
+   */
+  clear(): void {
+    this.casts.clear();
+    this.indexes.clear();
+    this.orderedIndexes.clear();
+    this.documents.clear();
+    this.cache.clear();
+  }
+
+  private getIndex(index: CastIndexKey): Set<string> {
+    let members = this.indexes.get(index);
+    if (!members) {
+      members = new Set();
+      this.indexes.set(index, members);
+    }
+    return members;
+  }
+
+  private getOrderedIndex(index: CastOrderedIndexKey): Map<string, number> {
+    let entries = this.orderedIndexes.get(index);
+    if (!entries) {
+      entries = new Map();
+      this.orderedIndexes.set(index, entries);
+    }
+    return entries;
+  }
+}
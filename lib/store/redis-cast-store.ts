@@ -0,0 +1,177 @@
+// Cast Store - Upstash Redis backend
+
+import type { Redis } from '@upstash/redis';
+import { StoredCast } from '../types';
+import {
+  CastCacheKey,
+  CastCachePrefix,
+  CastDocumentKey,
+  CastIndexKey,
+  CastOrderedIndexKey,
+  CastStore,
+  OrderedIndexRange,
+  ScoredHash
+} from './types';
+
+/**
+ * Helper function to safely parse Redis data (handles both strings and objects)
+ */
+export function parseRedisData<T = unknown>(data: unknown): T | null {
+  if (typeof data === 'string') {
+    try {
+      return JSON.parse(data);
+    } catch (error) {
+      console.error('Failed to parse Redis data:', data, error);
+      return null;
+    }
+  } else if (typeof data === 'object' && data !== null) {
+    // Data is already parsed
+    return data as T;
+  } else {
+    console.error('Unexpected data type from Redis:', typeof data, data);
+    return null;
+  }
+}
+
+function castKey(hash: string): `casts:${string}` {
+  return `casts:${hash}`;
+}
+
+export class RedisCastStore implements CastStore {
+  readonly backend = 'redis' as const;
+
+  constructor(private readonly client: Redis) {}
+
+  async getCast(hash: string): Promise<StoredCast | null> {
+    const castData = await this.client.get(castKey(hash));
+    if (!castData) {
+      return null;
+    }
+    return parseRedisData<StoredCast>(castData);
+  }
+
+  async getCasts(hashes: string[]): Promise<StoredCast[]> {
+    if (hashes.length === 0) {
+      return [];
+    }
+
+    const castDataArray = await this.client.mget(...hashes.map(castKey));
+
+    return castDataArray
+      .filter(data => data !== null)
+      .map(data => parseRedisData<StoredCast>(data))
+      .filter((cast): cast is StoredCast => cast !== null);
+  }
+
+  async saveCast(cast: StoredCast): Promise<void> {
+    cast.updatedAt = Date.now();
+    await this.client.set(castKey(cast.hash), JSON.stringify(cast));
+  }
+
+  async deleteCast(hash: string): Promise<void> {
+    await this.client.del(castKey(hash));
+  }
+
+  async hasCast(hash: string): Promise<boolean> {
+    const exists = await this.client.exists(castKey(hash));
+    return Boolean(exists);
+  }
+
+  async addToIndex(index: CastIndexKey, hash: string): Promise<void> {
+    await this.client.sadd(index, hash);
+  }
+
+  async removeFromIndex(index: CastIndexKey, hash: string): Promise<void> {
+    await this.client.srem(index, hash);
+  }
+
+  async getIndexMembers(index: CastIndexKey): Promise<string[]> {
+    const members = await this.client.smembers(index);
+    return members || [];
+  }
+
+  async addToOrderedIndex(index: CastOrderedIndexKey, hash: string, score: number): Promise<void> {
+    await this.client.zadd(index, { score, member: hash });
+  }
+
+  async removeFromOrderedIndex(index: CastOrderedIndexKey, hash: string): Promise<boolean> {
+    return (await this.client.zrem(index, hash)) > 0;
+  }
+
+  async getOrderedIndexRange(index: CastOrderedIndexKey, range: OrderedIndexRange): Promise<ScoredHash[]> {
+    // With REV the first bound is the upper one
+    const flat = await this.client.zrange<(string | number)[]>(
+      index,
+      range.maxScore ?? '+inf',
+      '-inf',
+      { byScore: true, rev: true, withScores: true, offset: range.offset, count: range.count }
+    );
+
+    const entries: ScoredHash[] = [];
+    for (let i = 0; i < flat.length; i += 2) {
+      entries.push({ hash: String(flat[i]), score: Number(flat[i + 1]) });
+    }
+    return entries;
+  }
+
+  async getOrderedIndexSize(index: CastOrderedIndexKey): Promise<number> {
+    return await this.client.zcard(index);
+  }
+
+  async getDocument<T>(key: CastDocumentKey): Promise<T | null> {
+    const data = await this.client.get(key);
+    if (data === null || data === undefined) {
+      return null;
+    }
+    return parseRedisData<T>(data);
+  }
+
+  async saveDocument<T>(key: CastDocumentKey, value: T): Promise<void> {
+    await this.client.set(key, JSON.stringify(value));
+  }
+
+  async deleteDocument(key: CastDocumentKey): Promise<void> {
+    await this.client.del(key);
+  }
+
+  async getCacheEntries<T>(keys: CastCacheKey[]): Promise<Array<T | null>> {
+    if (keys.length === 0) {
+      return [];
+    }
+    const entries = await this.client.mget<unknown[]>(...keys);
+    return entries.map(data => (data === null || data === undefined ? null : parseRedisData<T>(data)));
+  }
+
+  async setCacheEntry<T>(
+    key: CastCacheKey,
+    value: T,
+    options: { ttlSeconds: number; onlyIfAbsent?: boolean }
+  ): Promise<boolean> {
+    const data = JSON.stringify(value);
+    const result = options.onlyIfAbsent
+      ? await this.client.set(key, data, { ex: options.ttlSeconds, nx: true })
+      : await this.client.set(key, data, { ex: options.ttlSeconds });
+    return result === 'OK';
+  }
+
+  async deleteCacheEntries(keys: CastCacheKey[] | CastCachePrefix): Promise<void> {
+    let targets: string[] = [];
+    if (Array.isArray(keys)) {
+      targets = keys;
+    } else {
+      let cursor = '0';
+      do {
+        const [next, batch] = await this.client.scan(cursor, { match: `${keys}*`, count: 500 });
+        targets.push(...batch);
+        cursor = String(next);
+      } while (cursor !== '0');
+    }
+    if (targets.length > 0) {
+      await this.client.del(...targets);
+    }
+  }
+
+  async ping(): Promise<void> {
+    await this.client.ping();
+  }
+}
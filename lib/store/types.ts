@@ -0,0 +1,128 @@
+// Cast Store - Storage contract shared by every persistence backend
+
+import { StoredCast } from '../types';
+
+/**
+ * Hash indexes maintained alongside the cast records
+ */
+export type CastIndexKey =
+  | 'casts:active'              // Hashes visible in the public feed
+  | 'casts:all'                 // Every hash ever added (including hidden)
+  | 'casts:terms';              // Search vocabulary - every term with postings (members are terms, not hashes)
+
+/**
+ * Scored indexes, read back highest score first
+ */
+export type CastOrderedIndexKey =
+  | 'casts:feed'                // Active, unpinned hashes scored by go-live time
+  | `casts:tag:${string}`       // Active hashes carrying a tag, scored by go-live time
+  | `casts:author:${number}`    // Active hashes cast by one author fid, scored by go-live time
+  | 'casts:scheduled'           // Queued hashes scored by publishAt
+  | 'casts:expiring'            // Time-boxed hashes scored by expiresAt
+  | 'casts:trending'            // Live hashes scored by recent engagement growth (lib/engagement.ts)
+  | `casts:term:${string}`;     // Active hashes containing a search term, scored by term weight
+
+/**
+ * Standalone JSON documents (settings, taxonomies)
+ */
+export type CastDocumentKey =
+  | 'tags:taxonomy'             // Managed list of CastTag entries
+  | 'pins:order'                // Pinned cast hashes in curated order
+  | 'casts:feed-built'          // Set once casts:feed has been built, so an empty feed is not rebuilt
+  | `casts:engagement:${string}`; // EngagementSnapshot history for one cast
+
+/**
+ * Expiring cache entries - never backed up (see BACKUP_KEY_PATTERNS in lib/backup.ts)
+ */
+export type CastCacheKey =
+  | `metadata:${string}`        // Farcaster metadata per hash and its refresh locks (lib/metadata-cache.ts)
+  | `unfurl:${string}`;         // Link previews per URL (lib/link-preview.ts)
+
+export type CastCachePrefix = 'metadata:' | 'unfurl:';
+
+export type CastStoreBackend = 'redis' | 'memory';
+
+export interface ScoredHash {
+  hash: string;
+  score: number;
+}
+
+export interface OrderedIndexRange {
+  maxScore?: number;            // Only include entries scoring at most this (inclusive)
+  offset: number;
+  count: number;
+}
+
+/**
+ * Persistence layer for curated casts.
+ *
+ * Implementations only store and index records - feed rules such as
+ * moderation status and ordering live in lib/utils.ts so that every
+ * backend behaves identically.
+ */
+export interface CastStore {
+  readonly backend: CastStoreBackend;
+
+  /** Get a single cast record, or null if it does not exist */
+  getCast(hash: string): Promise<StoredCast | null>;
+
+  /** Get many cast records, preserving input order and dropping missing ones */
+  getCasts(hashes: string[]): Promise<StoredCast[]>;
+
+  /** Create or overwrite a cast record, stamping `updatedAt` on it */
+  saveCast(cast: StoredCast): Promise<void>;
+
+  /** Delete a cast record (indexes are left untouched) */
+  deleteCast(hash: string): Promise<void>;
+
+  /** Check whether a cast record exists */
+  hasCast(hash: string): Promise<boolean>;
+
+  /** Add a hash to an index */
+  addToIndex(index: CastIndexKey, hash: string): Promise<void>;
+
+  /** Remove a hash from an index */
+  removeFromIndex(index: CastIndexKey, hash: string): Promise<void>;
+
+  /** List every hash in an index (unordered) */
+  getIndexMembers(index: CastIndexKey): Promise<string[]>;
+
+  /** Add a hash to an ordered index, or update its score */
+  addToOrderedIndex(index: CastOrderedIndexKey, hash: string, score: number): Promise<void>;
+
+  /** Remove a hash from an ordered index, returning whether it was present */
+  removeFromOrderedIndex(index: CastOrderedIndexKey, hash: string): Promise<boolean>;
+
+  /**
+   * Read a slice of an ordered index, highest score first.
+   * Equal scores are ordered by hash descending (matching Redis ZRANGE REV).
+   */
+  getOrderedIndexRange(index: CastOrderedIndexKey, range: OrderedIndexRange): Promise<ScoredHash[]>;
+
+  /** Count the entries in an ordered index */
+  getOrderedIndexSize(index: CastOrderedIndexKey): Promise<number>;
+
+  /** Read a JSON document, or null if it has never been saved */
+  getDocument<T>(key: CastDocumentKey): Promise<T | null>;
+
+  /** Create or overwrite a JSON document */
+  saveDocument<T>(key: CastDocumentKey, value: T): Promise<void>;
+
+  /** Delete a JSON document (no-op when it does not exist) */
+  deleteDocument(key: CastDocumentKey): Promise<void>;
+
+  /** Read many cache entries, preserving input order - missing or expired ones come back as null */
+  getCacheEntries<T>(keys: CastCacheKey[]): Promise<Array<T | null>>;
+
+  /**
+   * Write a cache entry that expires after `ttlSeconds`. With `onlyIfAbsent`
+   * a live entry is left alone. Returns whether the entry was written.
+   */
+  setCacheEntry<T>(key: CastCacheKey, value: T, options: { ttlSeconds: number; onlyIfAbsent?: boolean }): Promise<boolean>;
+
+  /** Delete cache entries by key, or every entry under a prefix */
+  deleteCacheEntries(keys: CastCacheKey[] | CastCachePrefix): Promise<void>;
+
+  /** Verify the backend is reachable, throwing if it is not */
+  ping(): Promise<void>;
+}
@@ -0,0 +1,156 @@
+// Tag Taxonomy - Managed topic tags for curated chats
+
+import { getCastStore, CastOrderedIndexKey } from './store';
+import { getFeedScore, isCastLive } from './schedule';
+import { updateSearchIndex } from './search';
+import { CastTag, StoredCast } from './types';
+
+/**
+ * Taxonomy used until an admin saves their own
+ */
+export const DEFAULT_CAST_TAGS: CastTag[] = [
+  { slug: 'builders', label: 'Builders' },
+  { slug: 'art', label: 'Art' },
+  { slug: 'defi', label: 'DeFi' },
+  { slug: 'local-meetups', label: 'Local Meetups' }
+];
+
+export const MAX_TAGS_PER_CAST = 5;
+const MAX_TAG_SLUG_LENGTH = 32;
+const TAG_SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+/**
+ * Turn a display label into a tag slug ("Local Meetups" -> "local-meetups")
+ */
+export function slugifyTag(label: string): string {
+  return label
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .substring(0, MAX_TAG_SLUG_LENGTH)
+    .replace(/-+$/, '');
+}
+
+/**
+ * Validate tag slug format
+ */
+export function isValidTagSlug(slug: string): boolean {
+  return slug.length <= MAX_TAG_SLUG_LENGTH && TAG_SLUG_PATTERN.test(slug);
+}
+
+/**
+ * Ordered index holding the active casts for a tag
+ */
+export function tagIndexKey(slug: string): CastOrderedIndexKey {
+  return `casts:tag:${slug}`;
+}
+
+/**
+ * Get the managed tag taxonomy
+ */
+export async function getTagTaxonomy(): Promise<CastTag[]> {
+  try {
+    const tags = await getCastStore().getDocument<CastTag[]>('tags:taxonomy');
+    return tags ?? DEFAULT_CAST_TAGS;
+  } catch (error) {
+    console.error('Failed to get tag taxonomy:', error);
+    return DEFAULT_CAST_TAGS;
+  }
+}
+
+/**
+ * Add a tag to the taxonomy
+ */
+export async function createTag(label: string): Promise<{ success: boolean; tag?: CastTag; error?: string }> {
+  const trimmedLabel = label.trim();
+  const slug = slugifyTag(trimmedLabel);
+
+  if (!trimmedLabel || !isValidTagSlug(slug)) {
+    return { success: false, error: 'Tag name must contain letters or numbers' };
+  }
+
+  const taxonomy = await getTagTaxonomy();
+  if (taxonomy.some(tag => tag.slug === slug)) {
+    return { success: false, error: `Tag "${slug}" already exists` };
+  }
+
+  const tag: CastTag = { slug, label: trimmedLabel };
+  await getCastStore().saveDocument('tags:taxonomy', [...taxonomy, tag]);
+
+  return { success: true, tag };
+}
+
+/**
+ * Remove a tag from the taxonomy and strip it from every cast
+ */
+export async function deleteTag(slug: string): Promise<boolean> {
+  const store = getCastStore();
+  const taxonomy = await getTagTaxonomy();
+
+  if (!taxonomy.some(tag => tag.slug === slug)) {
+    return false;
+  }
+
+  await store.saveDocument('tags:taxonomy', taxonomy.filter(tag => tag.slug !== slug));
+
+  const allHashes = await store.getIndexMembers('casts:all');
+  const casts = await store.getCasts(allHashes);
+
+  for (const cast of casts) {
+    if (cast.tags?.includes(slug)) {
+      const previous = structuredClone(cast);
+      cast.tags = cast.tags.filter(tag => tag !== slug);
+      await store.saveCast(cast);
+      await store.removeFromOrderedIndex(tagIndexKey(slug), cast.hash);
+      await updateSearchIndex(previous, cast);
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Replace the tags on a cast and keep the per-tag indexes in sync
+ */
+export async function setCastTags(
+  hash: string,
+  slugs: string[]
+): Promise<{ success: boolean; cast?: StoredCast; error?: string }> {
+  const store = getCastStore();
+
+  const uniqueSlugs = Array.from(new Set(slugs));
+  if (uniqueSlugs.length > MAX_TAGS_PER_CAST) {
+    return { success: false, error: `A cast can have at most ${MAX_TAGS_PER_CAST} tags` };
+  }
+
+  const taxonomy = await getTagTaxonomy();
+  const unknown = uniqueSlugs.filter(slug => !taxonomy.some(tag => tag.slug === slug));
+  if (unknown.length > 0) {
+    return { success: false, error: `Unknown tag(s): ${unknown.join(', ')}` };
+  }
+
+  const cast = await store.getCast(hash);
+  if (!cast) {
+    return { success: false, error: 'Cast not found' };
+  }
+
+  const previous = structuredClone(cast);
+  const previousSlugs = cast.tags ?? [];
+  cast.tags = uniqueSlugs;
+  await store.saveCast(cast);
+  await updateSearchIndex(previous, cast);
+
+  // Only live casts are listed in the tag indexes
+  for (const slug of previousSlugs) {
+    if (!uniqueSlugs.includes(slug)) {
+      await store.removeFromOrderedIndex(tagIndexKey(slug), hash);
+    }
+  }
+  if (isCastLive(cast)) {
+    for (const slug of uniqueSlugs) {
+      await store.addToOrderedIndex(tagIndexKey(slug), hash, getFeedScore(cast));
+    }
+  }
+
+  return { success: true, cast };
+}
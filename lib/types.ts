@@ -4,6 +4,7 @@ import type { AuthorizedAddress } from './auth-utils'
 
 // Core data structures
 export interface StoredCast {
+  schemaVersion?: number;    // Record shape version (unset = written before versioning)
   hash: string;              // Farcaster cast hash
   addedBy: string;           // Admin ENS who added it
   addedAt: number;           // Unix timestamp
@@ -24,6 +25,44 @@ export interface StoredCast {
     };
   };
   status: 'active' | 'hidden'; // Moderation status
+  hiddenReason?: HideReason; // Why the cast was hidden (set while hidden)
+  hiddenAt?: number;         // When the cast was hidden
+  hiddenBy?: string;         // Admin who hid it
+  updatedAt?: number;        // Last write to the record (stamped by CastStore.saveCast)
+  tags?: string[];           // Tag slugs from the managed taxonomy
+  publishAt?: number;        // When the cast goes live (unset = immediately)
+  expiresAt?: number;        // When the cast drops out of the feed (unset = never)
+  pinned?: boolean;          // Featured above the feed (order lives in pins:order)
+  chat?: CastChat;           // The group chat the cast announces (lib/chat-metadata.ts)
+  upstreamMissing?: {        // Set while Farcaster reports the cast as not found (lib/upstream-health.ts)
+    since: number;           // First miss of the current streak
+    checkedAt: number;       // Last counted miss
+    misses: number;          // Consecutive misses, at most one per UPSTREAM_RECHECK_MS
+  };
+}
+
+export interface CastSchedule {
+  publishAt?: number;        // Unix timestamp (ms) to go live at
+  expiresAt?: number;        // Unix timestamp (ms) to drop out of the feed at
+}
+
+export type ChatPlatform = 'farcaster' | 'telegram' | 'discord' | 'whatsapp' | 'signal' | 'other';
+
+export type ChatStatus = 'open' | 'closed' | 'full';
+
+export interface CastChat {
+  inviteUrl?: string;        // Invite or deep link people join through
+  platform: ChatPlatform;
+  memberCap?: number;        // Member limit, when the chat has one
+  status: ChatStatus;
+  source: 'extracted' | 'admin'; // Admin-edited chats are never overwritten by extraction
+}
+
+export type HideReason = 'spam' | 'dead_chat' | 'off_topic' | 'author_request' | 'deleted_upstream';
+
+export interface CastTag {
+  slug: string;              // URL-safe identifier (e.g. "local-meetups")
+  label: string;             // Display name (e.g. "Local Meetups")
 }
 
 export interface AdminSession {
@@ -34,15 +73,35 @@ export interface AdminSession {
 }
 
 export interface CastEmbed {
-  type: 'image' | 'video' | 'link' | 'cast';
+  type: 'image' | 'video' | 'frame' | 'link' | 'cast';  // Classified server-side (lib/embeds.ts)
   url?: string;
+  castHash?: string;         // Quoted cast (type 'cast')
+  castFid?: number;          // Quoted cast's author, when the source reports it
+  quotedCast?: QuotedCast;   // Quoted cast resolved during enrichment (one level deep)
+  contentType?: string;      // MIME type reported upstream, e.g. application/x-mpegurl for HLS video
   metadata?: {
     title?: string;
     description?: string;
     image?: string;
+    imageSignature?: string; // Lets /api/media proxy `image` (added during enrichment, never stored)
   };
 }
 
+/**
+ * A quoted cast as shown nested inside the quoting cast. Its own embeds are
+ * classified but never resolved further, so quotes stop at one level.
+ */
+export interface QuotedCast {
+  hash: string;
+  author: string;
+  username?: string;
+  authorFid?: number;
+  authorPfp?: string;
+  content: string;
+  timestamp: number;
+  embeds: CastEmbed[];
+}
+
 // Authentication types
 export interface AuthSession {
   fid: number;
@@ -68,6 +127,7 @@ export interface CastsResponse<T = StoredCast> {
   total: number;
   page?: number;
   limit?: number;
+  nextCursor?: string | null;  // Opaque cursor for the next page, null on the last page
   error?: string;
 }
 
@@ -85,6 +145,7 @@ export interface AddCastResponse {
 export interface RemoveCastRequest {
   hash: string;
   adminEns: string;
+  reason: HideReason;
 }
 
 export interface RemoveCastResponse {
@@ -136,14 +197,18 @@ export interface NavigationProps {
 // Search and filter types
 export interface SearchFilters {
   query: string;
-  author?: string;
-  dateRange?: {
+  author?: string;             // Display name or @username (case-insensitive, partial)
+  dateRange?: {                // On go-live time, inclusive
     start: Date;
     end: Date;
   };
-  status?: 'active' | 'hidden' | 'all';
+  status?: 'active' | 'hidden' | 'all'; // Admin only - unset searches live casts
+  tag?: string;                // Tag slug
+  sort?: SearchSort;           // Defaults to relevance with a query, newest without
 }
 
+export type SearchSort = 'relevance' | 'newest' | 'oldest' | 'trending'; // trending: recent engagement growth
+
 export interface SearchState {
   filters: SearchFilters;
   results: StoredCast[];
@@ -155,6 +220,12 @@ export interface SearchState {
 export type RedisKey = 
   | `casts:${string}`           // Individual cast data
   | 'casts:active'              // Set of active cast hashes
+  | 'casts:feed'                // Sorted set of active cast hashes by go-live time
+  | `casts:tag:${string}`       // Sorted set of active cast hashes per tag
+  | 'casts:scheduled'           // Sorted set of queued cast hashes by publishAt
+  | 'casts:expiring'            // Sorted set of time-boxed cast hashes by expiresAt
+  | 'tags:taxonomy'             // Managed tag list
+  | 'pins:order'                // Pinned cast hashes in curated order
   | 'casts:all'                 // Set of all cast hashes
   | 'admins'                    // Set of admin ENS addresses
   | `sessions:${string}`;       // User session data
@@ -219,9 +290,29 @@ export interface CSVExportData {
 
 export interface ExportConfig {
   filename: string;
-  includeMetadata: boolean;
+  includeMetadata: boolean;    // Append author/content/timestamp when `columns` is not given
+  format?: ExportFormat;       // Defaults to csv
+  status?: 'active' | 'hidden' | 'all'; // Defaults to all
+  columns?: ExportColumn[];    // Explicit column selection, in output order
   dateRange?: {
     start: Date;
     end: Date;
   };
 }
+
+export type ExportFormat = 'csv' | 'json' | 'ndjson';
+
+export type ExportColumn =
+  | 'hash'
+  | 'addedBy'
+  | 'addedAt'
+  | 'status'
+  | 'author'
+  | 'username'
+  | 'content'
+  | 'timestamp'
+  | 'originalUrl'
+  | 'tags'
+  | 'hiddenReason'
+  | 'publishAt'
+  | 'expiresAt';
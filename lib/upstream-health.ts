@@ -0,0 +1,118 @@
+// Upstream Health - Track curated casts that Farcaster no longer returns
+
+import { getCastStore } from './store';
+import { StoredCast } from './types';
+import { removeCast } from './utils';
+
+// Misses counted closer together than this are one miss, so a burst of page views cannot hide a cast
+export const UPSTREAM_RECHECK_MS = 30 * 60 * 1000;
+
+const DEFAULT_MISS_HIDE_THRESHOLD = 3;
+
+// Most live casts one run may auto-hide; more at once points at the upstream, not the casts
+const MAX_AUTO_HIDE_FRACTION = 0.05;
+
+/**
+ * Consecutive misses after which an active cast is hidden as 'deleted_upstream'.
+ * Read from UPSTREAM_MISS_HIDE_AFTER; 0 turns auto-hiding off.
+ */
+export function getMissHideThreshold(): number {
+  const configured = Number.parseInt(process.env.UPSTREAM_MISS_HIDE_AFTER ?? '', 10);
+  return Number.isInteger(configured) && configured >= 0 ? configured : DEFAULT_MISS_HIDE_THRESHOLD;
+}
+
+/**
+ * Whether a cast flagged as missing is due another upstream lookup.
+ * Unflagged casts are always due.
+ */
+export function isUpstreamCheckDue(cast: StoredCast, now: number = Date.now()): boolean {
+  return !cast.upstreamMissing || now - cast.upstreamMissing.checkedAt >= UPSTREAM_RECHECK_MS;
+}
+
+/**
+ * Count one miss for a cast Farcaster reported as not found. The miss only
+ * counts when UPSTREAM_RECHECK_MS has passed since the last counted one.
+ * Returns whether the cast is active and its streak has reached the threshold.
+ */
+async function recordUpstreamMiss(hash: string, now: number): Promise<boolean> {
+  const store = getCastStore();
+
+  try {
+    // Re-read so a concurrent hide or tag change is not overwritten
+    const cast = await store.getCast(hash);
+    if (!cast || !isUpstreamCheckDue(cast, now)) {
+      return false;
+    }
+
+    const misses = (cast.upstreamMissing?.misses ?? 0) + 1;
+    cast.upstreamMissing = { since: cast.upstreamMissing?.since ?? now, checkedAt: now, misses };
+    await store.saveCast(cast);
+
+    const threshold = getMissHideThreshold();
+    return cast.status === 'active' && threshold > 0 && misses >= threshold;
+  } catch (error) {
+    console.error('Failed to record upstream miss:', error);
+    return false;
+  }
+}
+
+/**
+ * Record a lookup run's "not found" answers and hide the active casts whose
+ * streak reached the threshold. Only pass misses from an authoritative
+ * provider. When more than MAX_AUTO_HIDE_FRACTION of the live casts would be
+ * hidden at once, nothing is hidden - the casts stay flagged in the Broken
+ * Chats queue for an admin to check. Returns the hashes that were hidden.
+ */
+export async function recordUpstreamMisses(hashes: string[], now: number = Date.now()): Promise<string[]> {
+  const due: string[] = [];
+  for (const hash of hashes) {
+    if (await recordUpstreamMiss(hash, now)) {
+      due.push(hash);
+    }
+  }
+  if (due.length === 0) {
+    return [];
+  }
+
+  try {
+    const live = (await getCastStore().getIndexMembers('casts:active')).length;
+    const allowed = Math.max(1, Math.floor(live * MAX_AUTO_HIDE_FRACTION));
+    if (due.length > allowed) {
+      console.error(
+        `Refusing to auto-hide ${due.length} of ${live} live casts as deleted upstream (limit ${allowed} per run) - check the Farcaster provider`
+      );
+      return [];
+    }
+
+    const hidden: string[] = [];
+    for (const hash of due) {
+      console.warn(`Hiding cast ${hash}: missing on Farcaster for ${getMissHideThreshold()}+ consecutive checks`);
+      if (await removeCast(hash, 'deleted_upstream', 'system')) {
+        hidden.push(hash);
+      }
+    }
+    return hidden;
+  } catch (error) {
+    console.error('Failed to auto-hide missing casts:', error);
+    return [];
+  }
+}
+
+/**
+ * Clear the missing flag once Farcaster returns the cast again. A cast that
+ * was already auto-hidden stays hidden until an admin restores it.
+ */
+export async function clearUpstreamMiss(hash: string): Promise<void> {
+  const store = getCastStore();
+
+  try {
+    const cast = await store.getCast(hash);
+    if (!cast?.upstreamMissing) {
+      return;
+    }
+    delete cast.upstreamMissing;
+    await store.saveCast(cast);
+  } catch (error) {
+    console.error('Failed to clear upstream miss:', error);
+  }
+}
@@ -1,59 +1,107 @@
 // BasedChats Mini App - Utility Functions
 
 import { redis } from './redis';
-import { StoredCast, CastsResponse, ExportConfig } from './types';
+import { getCastStore, CastStore, CastOrderedIndexKey, ScoredHash } from './store';
+import { decodeFeedCursor, encodeFeedCursor } from './pagination';
+import { tagIndexKey } from './tags';
+import { authorIndexKey } from './authors';
+import { getFeedScore, isCastExpired, isCastLive, isCastScheduled } from './schedule';
+import { sendNewCastNotification } from './cast-notifications';
+import { getPinnedCasts, unpinCast } from './pins';
+import { CURRENT_CAST_SCHEMA_VERSION } from './migrations';
+import { invalidateCachedMetadata } from './metadata-cache';
+import { hasSearchableChanges, searchCastsWithFilters, updateSearchIndex } from './search';
+import { canonicalCastHash, findExistingCast } from './cast-identity';
+import { extractChatMetadata, isSameChat, validateCastChat } from './chat-metadata';
+import { EXPORT_COLUMNS, formatCSVRow, formatExportRecord, matchesExportFilters, resolveExportColumns } from './export';
+import { CastChat, CastFeedError, CastFeedErrorCode, StoredCast, CastsResponse, ExportConfig, ExportFormat, HideReason, CastSchedule, SearchFilters } from './types';
+
+// Entries read from casts:trending per round trip while filling a page
+const TRENDING_BATCH_SIZE = 100;
 
 /**
- * Helper function to safely parse Redis data (handles both strings and objects)
+ * Display labels for hide reason codes
  */
-function parseRedisData<T = unknown>(data: unknown): T | null {
-  if (typeof data === 'string') {
-    try {
-      return JSON.parse(data);
-    } catch (error) {
-      console.error('Failed to parse Redis data:', data, error);
-      return null;
-    }
-  } else if (typeof data === 'object' && data !== null) {
-    // Data is already parsed
-    return data as T;
-  } else {
-    console.error('Unexpected data type from Redis:', typeof data, data);
-    return null;
-  }
+export const HIDE_REASON_LABELS: Record<HideReason, string> = {
+  spam: 'Spam',
+  dead_chat: 'Dead chat',
+  off_topic: 'Off-topic',
+  author_request: 'Author request',
+  deleted_upstream: 'Deleted on Farcaster'
+};
+
+/**
+ * Check whether a value is a known hide reason code
+ */
+export function isHideReason(value: unknown): value is HideReason {
+  return typeof value === 'string' && value in HIDE_REASON_LABELS;
 }
 
 /**
- * Add a new cast to the system
+ * Add a new cast to the system.
+ * With a future `publishAt` the cast is queued and only joins the feed once
+ * that time passes; with `expiresAt` it drops out of the feed on its own.
+ * The hash is stored in canonical (lowercase) form. A cast that is already
+ * stored - in any case, hidden or not - is refused with a CastFeedError
+ * (CAST_ALREADY_EXISTS) whose details carry the existing record.
  */
 export async function addCast(
-  hash: string,
+  rawHash: string,
   adminEns: string,
   metadata?: StoredCast['metadata'],
-  originalUrl?: string
+  originalUrl?: string,
+  schedule: CastSchedule = {}
 ): Promise<StoredCast | null> {
-  if (!redis) {
-    throw new Error('Redis not available');
+  const store = getCastStore();
+  const now = Date.now();
+  const hash = canonicalCastHash(rawHash);
+  
+  const existing = await findExistingCast({ kind: 'hash', hash });
+  if (existing) {
+    throw new CastFeedError('Cast is already in the feed', CastFeedErrorCode.CAST_ALREADY_EXISTS, { existing });
   }
   
   const cast: StoredCast = {
+    schemaVersion: CURRENT_CAST_SCHEMA_VERSION,
     hash,
     addedBy: adminEns,
-    addedAt: Date.now(),
+    addedAt: now,
     originalUrl,
     metadata,
     status: 'active'
   };
+  applyExtractedChat(cast);
+  
+  // A publish time that has already passed just means "now"
+  if (schedule.publishAt !== undefined && schedule.publishAt > now) {
+    cast.publishAt = schedule.publishAt;
+  }
+  if (schedule.expiresAt !== undefined) {
+    cast.expiresAt = schedule.expiresAt;
+  }
   
   try {
     // Store cast data
-    await redis.set(`casts:${hash}`, JSON.stringify(cast));
+    await store.saveCast(cast);
     
-    // Add to active casts set
-    await redis.sadd('casts:active', hash);
+    if (isCastScheduled(cast, now)) {
+      // Queue until publishAt
+      await store.addToOrderedIndex('casts:scheduled', hash, cast.publishAt!);
+    } else {
+      // Add to active casts set and feed index
+      await addToFeedIndexes(store, cast);
+    }
+    
+    if (cast.expiresAt !== undefined) {
+      await store.addToOrderedIndex('casts:expiring', hash, cast.expiresAt);
+    }
     
     // Add to all casts set
-    await redis.sadd('casts:all', hash);
+    await store.addToIndex('casts:all', hash);
+    
+    await updateSearchIndex(null, cast);
+    // A hash that was purged and re-added must not serve its old entry
+    await invalidateCachedMetadata([hash]);
     
     return cast;
   } catch (error) {
@@ -65,30 +113,40 @@ export async function addCast(
 /**
  * Remove/hide a cast from the active feed
  */
-export async function removeCast(hash: string): Promise<boolean> {
-  if (!redis) {
-    throw new Error('Redis not available');
-  }
+export async function removeCast(
+  hash: string,
+  reason: HideReason,
+  hiddenBy?: string
+): Promise<boolean> {
+  const store = getCastStore();
   
   try {
     // Get existing cast
-    const castData = await redis.get(`casts:${hash}`);
-    if (!castData) {
+    const cast = await store.getCast(hash);
+    if (!cast) {
       return false;
     }
+    const previous = structuredClone(cast);
     
-    const cast = parseRedisData<StoredCast>(castData);
-    if (!cast) {
-      return false;
+    // Hidden casts leave the pinned order, so restoring one does not pin it again
+    if (cast.pinned) {
+      await unpinCast(hash);
+      delete cast.pinned;
     }
     
     cast.status = 'hidden';
+    cast.hiddenReason = reason;
+    cast.hiddenAt = Date.now();
+    cast.hiddenBy = hiddenBy;
     
     // Update cast status
-    await redis.set(`casts:${hash}`, JSON.stringify(cast));
+    await store.saveCast(cast);
     
-    // Remove from active casts set
-    await redis.srem('casts:active', hash);
+    // Remove from active casts set, feed indexes, trending and search
+    await removeFromFeedIndexes(store, cast);
+    await store.removeFromOrderedIndex('casts:trending', hash);
+    await updateSearchIndex(previous, cast);
+    await invalidateCachedMetadata([hash]);
     
     return true;
   } catch (error) {
@@ -98,58 +156,604 @@ export async function removeCast(hash: string): Promise<boolean> {
 }
 
 /**
- * Get all active casts for public feed
+ * Restore a hidden cast to the active feed
+ */
+export async function restoreCast(hash: string): Promise<boolean> {
+  const store = getCastStore();
+  
+  try {
+    const cast = await store.getCast(hash);
+    if (!cast || cast.status !== 'hidden') {
+      return false;
+    }
+    
+    // Casts hidden while pinned used to keep their pin
+    if (cast.pinned) {
+      await unpinCast(hash);
+      delete cast.pinned;
+    }
+    
+    cast.status = 'active';
+    delete cast.hiddenReason;
+    delete cast.hiddenAt;
+    delete cast.hiddenBy;
+    
+    await store.saveCast(cast);
+    
+    // Back into the feed at its original position, or the queue if it has
+    // not gone live yet. Expired casts stay out of the feed.
+    if (isCastScheduled(cast)) {
+      await store.addToOrderedIndex('casts:scheduled', hash, cast.publishAt!);
+    } else if (!isCastExpired(cast)) {
+      await addToFeedIndexes(store, cast);
+    }
+    await updateSearchIndex(null, cast);
+    // Fetch fresh metadata when it reappears rather than what it had when hidden
+    await invalidateCachedMetadata([hash]);
+    
+    return true;
+  } catch (error) {
+    console.error('Failed to restore cast:', error);
+    return false;
+  }
+}
+
+/**
+ * Permanently delete a hidden cast and every index entry pointing at it
+ */
+export async function purgeCast(hash: string): Promise<boolean> {
+  const store = getCastStore();
+  
+  try {
+    const cast = await store.getCast(hash);
+    if (!cast || cast.status !== 'hidden') {
+      return false;
+    }
+    
+    if (cast.pinned) {
+      await unpinCast(hash);
+    }
+    await removeFromFeedIndexes(store, cast);
+    await store.removeFromOrderedIndex('casts:scheduled', hash);
+    await store.removeFromOrderedIndex('casts:expiring', hash);
+    await store.removeFromOrderedIndex('casts:trending', hash);
+    await store.deleteDocument(`casts:engagement:${hash}`);
+    await store.removeFromIndex('casts:all', hash);
+    await store.deleteCast(hash);
+    await invalidateCachedMetadata([hash]);
+    
+    return true;
+  } catch (error) {
+    console.error('Failed to purge cast:', error);
+    return false;
+  }
+}
+
+/**
+ * Write a complete cast record and rebuild every index entry for it.
+ * Used for bulk writes where status, timestamps and tags may all change at once.
+ * The announced chat is extracted from the metadata, as in addCast.
+ */
+export async function saveCastRecord(cast: StoredCast): Promise<void> {
+  const store = getCastStore();
+  applyExtractedChat(cast);
+  
+  const previous = await store.getCast(cast.hash);
+  if (previous) {
+    await removeFromFeedIndexes(store, previous);
+  }
+  await store.removeFromOrderedIndex('casts:scheduled', cast.hash);
+  await store.removeFromOrderedIndex('casts:expiring', cast.hash);
+  
+  await store.saveCast(cast);
+  await store.addToIndex('casts:all', cast.hash);
+  await updateSearchIndex(previous, cast);
+  
+  if (cast.status !== 'active' || isCastExpired(cast)) {
+    await store.removeFromOrderedIndex('casts:trending', cast.hash);
+    return;
+  }
+  
+  if (isCastScheduled(cast)) {
+    await store.addToOrderedIndex('casts:scheduled', cast.hash, cast.publishAt!);
+  } else {
+    await addToFeedIndexes(store, cast);
+  }
+  if (cast.expiresAt !== undefined) {
+    await store.addToOrderedIndex('casts:expiring', cast.hash, cast.expiresAt);
+  }
+}
+
+/**
+ * Re-extract the announced chat from a record's metadata.
+ * Admin-edited chats are left as they are.
+ */
+function applyExtractedChat(cast: StoredCast): void {
+  if (cast.chat?.source === 'admin') {
+    return;
+  }
+  const chat = extractChatMetadata(cast.metadata);
+  if (chat) {
+    cast.chat = chat;
+  } else {
+    delete cast.chat;
+  }
+}
+
+/**
+ * Persist freshly fetched metadata (e.g. from enrichment) when a searchable
+ * field, the author fid or the extracted chat changed, and reindex the cast.
+ * Reactions alone never trigger a write. Returns whether the record was updated.
+ */
+export async function refreshCastMetadata(
+  cast: StoredCast,
+  metadata: NonNullable<StoredCast['metadata']>
+): Promise<boolean> {
+  const chatChanged = cast.chat?.source !== 'admin' &&
+    !isSameChat(cast.chat, extractChatMetadata({ ...cast.metadata, ...metadata }));
+  if (!hasSearchableChanges(cast.metadata, metadata) && cast.metadata?.authorFid === metadata.authorFid && !chatChanged) {
+    return false;
+  }
+  
+  const store = getCastStore();
+  
+  try {
+    // Re-read so a concurrent hide or tag change is not overwritten
+    const previous = await store.getCast(cast.hash);
+    if (!previous) {
+      return false;
+    }
+    
+    const updated: StoredCast = { ...previous, metadata: { ...previous.metadata, ...metadata } };
+    applyExtractedChat(updated);
+    await store.saveCast(updated);
+    await updateSearchIndex(previous, updated);
+    
+    // Metadata is the first place the author fid shows up, so this is where live casts join their author's index
+    const previousFid = previous.metadata?.authorFid;
+    const fid = updated.metadata?.authorFid;
+    if (previousFid !== fid && isCastLive(updated)) {
+      if (previousFid) {
+        await store.removeFromOrderedIndex(authorIndexKey(previousFid), cast.hash);
+      }
+      if (fid) {
+        await store.addToOrderedIndex(authorIndexKey(fid), cast.hash, getFeedScore(updated));
+      }
+    }
+    
+    return true;
+  } catch (error) {
+    console.error('Failed to refresh cast metadata:', error);
+    return false;
+  }
+}
+
+/**
+ * Set or clear the admin-edited chat on a cast. Passing null drops the admin
+ * edit and goes back to the chat extracted from the cast's text and embeds.
+ */
+export async function setCastChat(
+  hash: string,
+  chat: Omit<CastChat, 'source'> | null
+): Promise<{ success: boolean; cast?: StoredCast; error?: string }> {
+  if (chat) {
+    const error = validateCastChat(chat);
+    if (error) {
+      return { success: false, error };
+    }
+  }
+
+  const store = getCastStore();
+  const cast = await store.getCast(hash);
+  if (!cast) {
+    return { success: false, error: 'Cast not found' };
+  }
+
+  if (chat) {
+    cast.chat = {
+      inviteUrl: chat.inviteUrl || undefined,
+      platform: chat.platform,
+      memberCap: chat.memberCap,
+      status: chat.status,
+      source: 'admin'
+    };
+  } else {
+    delete cast.chat;
+    applyExtractedChat(cast);
+  }
+  await store.saveCast(cast);
+
+  return { success: true, cast };
+}
+
+/**
+ * Put a cast in the active set and every ordered feed index it belongs to.
+ * Pinned casts are served from pins:order instead of the chronological feed.
+ */
+async function addToFeedIndexes(store: CastStore, cast: StoredCast): Promise<void> {
+  const score = getFeedScore(cast);
+  await store.addToIndex('casts:active', cast.hash);
+  if (!cast.pinned) {
+    await store.addToOrderedIndex('casts:feed', cast.hash, score);
+  }
+  for (const tag of cast.tags ?? []) {
+    await store.addToOrderedIndex(tagIndexKey(tag), cast.hash, score);
+  }
+  if (cast.metadata?.authorFid) {
+    await store.addToOrderedIndex(authorIndexKey(cast.metadata.authorFid), cast.hash, score);
+  }
+}
+
+/**
+ * Drop a cast from the active set and every ordered feed index
+ */
+async function removeFromFeedIndexes(store: CastStore, cast: StoredCast): Promise<void> {
+  await store.removeFromIndex('casts:active', cast.hash);
+  await store.removeFromOrderedIndex('casts:feed', cast.hash);
+  for (const tag of cast.tags ?? []) {
+    await store.removeFromOrderedIndex(tagIndexKey(tag), cast.hash);
+  }
+  if (cast.metadata?.authorFid) {
+    await store.removeFromOrderedIndex(authorIndexKey(cast.metadata.authorFid), cast.hash);
+  }
+}
+
+/**
+ * Build the ordered feed index from the legacy active set if it has never
+ * been built. An empty feed is legitimate once built (e.g. every active cast
+ * is pinned), so the casts:feed-built marker decides, not the feed's size.
+ * Returns the number of entries in the feed index.
+ */
+async function ensureFeedIndex(store: CastStore): Promise<number> {
+  const size = await store.getOrderedIndexSize('casts:feed');
+  if (size > 0 || await store.getDocument<number>('casts:feed-built')) {
+    return size;
+  }
+  
+  const activeHashes = await store.getIndexMembers('casts:active');
+  if (activeHashes.length === 0) {
+    return 0;
+  }
+  
+  const casts = await store.getCasts(activeHashes);
+  for (const cast of casts) {
+    if (isCastLive(cast) && !cast.pinned) {
+      await store.addToOrderedIndex('casts:feed', cast.hash, getFeedScore(cast));
+    }
+  }
+  await store.saveDocument('casts:feed-built', Date.now());
+  
+  return await store.getOrderedIndexSize('casts:feed');
+}
+
+/**
+ * Pull every entry at or below `now` out of an ordered index.
+ * Removal doubles as a claim, so concurrent callers never handle the same hash twice.
+ */
+async function claimDueEntries(
+  store: CastStore,
+  index: CastOrderedIndexKey,
+  now: number
+): Promise<string[]> {
+  const claimed: string[] = [];
+  
+  while (true) {
+    const due = await store.getOrderedIndexRange(index, { maxScore: now, offset: 0, count: 100 });
+    if (due.length === 0) {
+      break;
+    }
+    
+    for (const entry of due) {
+      if (await store.removeFromOrderedIndex(index, entry.hash)) {
+        claimed.push(entry.hash);
+      }
+    }
+  }
+  
+  return claimed;
+}
+
+/**
+ * Move queued casts whose publish time has passed into the feed, and drop
+ * casts whose expiry has passed out of it. Users are notified about each
+ * cast as it goes live. Run by the scheduled job (app/api/cron/engagement),
+ * never on reads: reads filter with isCastLive, so expired casts drop out on
+ * time and queued casts join the feed at the next run.
+ */
+export async function publishDueCasts(now: number = Date.now()): Promise<{ published: string[]; expired: string[] }> {
+  const store = getCastStore();
+  const published: string[] = [];
+  
+  for (const hash of await claimDueEntries(store, 'casts:scheduled', now)) {
+    const cast = await store.getCast(hash);
+    // Hidden or already-expired casts never go live
+    if (cast && isCastLive(cast, now)) {
+      await addToFeedIndexes(store, cast);
+      published.push(hash);
+    }
+  }
+  
+  const expired = await claimDueEntries(store, 'casts:expiring', now);
+  for (const hash of expired) {
+    const cast = await store.getCast(hash);
+    if (cast) {
+      await removeFromFeedIndexes(store, cast);
+    }
+    await store.removeFromOrderedIndex('casts:trending', hash);
+  }
+  
+  for (const hash of published) {
+    await sendNewCastNotification(hash);
+  }
+  
+  return { published, expired };
+}
+
+/**
+ * Read one page of entries from an ordered index.
+ * When `after` is given the page starts immediately after that entry, so
+ * the cost stays constant no matter how deep into the index we are.
+ */
+async function readOrderedPage(
+  store: CastStore,
+  index: CastOrderedIndexKey,
+  limit: number,
+  offset: number,
+  after: ScoredHash | null
+): Promise<{ entries: ScoredHash[]; hasMore: boolean }> {
+  const batchSize = limit + 1; // One extra to detect a following page
+  const entries: ScoredHash[] = [];
+  
+  while (entries.length < batchSize) {
+    const batch = await store.getOrderedIndexRange(index, {
+      maxScore: after?.score,
+      offset,
+      count: batchSize
+    });
+    
+    for (const entry of batch) {
+      // Entries sharing the cursor's score are ordered by hash descending,
+      // so anything at or above the cursor hash was on an earlier page
+      if (after && entry.score === after.score && entry.hash >= after.hash) {
+        continue;
+      }
+      entries.push(entry);
+    }
+    
+    if (batch.length < batchSize) {
+      break;
+    }
+    offset += batchSize;
+  }
+  
+  return {
+    entries: entries.slice(0, limit),
+    hasMore: entries.length > limit
+  };
+}
+
+/**
+ * Get active casts for public feed, newest first.
+ * Pass the previous response's `nextCursor` to continue from where it left off;
+ * without a cursor, `page` selects an offset page. Pass `tag` to list a single topic.
+ * The first page of the unfiltered feed starts with the pinned casts in curated
+ * order, on top of `limit` chronological casts.
  */
 export async function getActiveCasts(
   page: number = 1,
-  limit: number = 20
+  limit: number = 20,
+  cursor?: string | null,
+  tag?: string | null
 ): Promise<CastsResponse<StoredCast>> {
-  if (!redis) {
+  const store = getCastStore();
+  const index: CastOrderedIndexKey = tag ? tagIndexKey(tag) : 'casts:feed';
+  
+  let after: ScoredHash | null = null;
+  if (cursor) {
+    after = decodeFeedCursor(cursor);
+    if (!after) {
+      return {
+        success: false,
+        casts: [],
+        total: 0,
+        error: 'Invalid cursor'
+      };
+    }
+  }
+  
+  try {
+    // Pinned casts only lead the unfiltered feed; tag views list them chronologically
+    const pinned = tag ? [] : await getPinnedCasts();
+    const firstPage = !after && page === 1;
+    
+    const feedSize = tag
+      ? await store.getOrderedIndexSize(index)
+      : await ensureFeedIndex(store);
+    const total = feedSize + pinned.length;
+    
+    if (feedSize === 0) {
+      return {
+        success: true,
+        casts: firstPage ? pinned : [],
+        total,
+        page,
+        limit,
+        nextCursor: null
+      };
+    }
+    
+    const { entries, hasMore } = await readOrderedPage(
+      store,
+      index,
+      limit,
+      after ? 0 : (page - 1) * limit,
+      after
+    );
+    
+    // Get cast data for this page only
+    const casts: StoredCast[] = (await store.getCasts(entries.map(entry => entry.hash)))
+      .filter(cast => isCastLive(cast));
+    
+    return {
+      success: true,
+      casts: firstPage ? [...pinned, ...casts] : casts,
+      total,
+      page,
+      limit,
+      nextCursor: hasMore ? encodeFeedCursor(entries[entries.length - 1]) : null
+    };
+  } catch (error) {
+    console.error('Failed to get active casts:', error);
     return {
       success: false,
       casts: [],
       total: 0
     };
   }
+}
+
+/**
+ * Get one author's live casts, newest first (pinned casts included in place).
+ * Paginates like getActiveCasts: pass `nextCursor` to continue, or a page number.
+ * Only the author index is read - casts stored before it existed are added
+ * by the v5 migration, never from this (public) read path.
+ */
+export async function getAuthorCasts(
+  fid: number,
+  page: number = 1,
+  limit: number = 20,
+  cursor?: string | null
+): Promise<CastsResponse<StoredCast>> {
+  const store = getCastStore();
+  
+  let after: ScoredHash | null = null;
+  if (cursor) {
+    after = decodeFeedCursor(cursor);
+    if (!after) {
+      return {
+        success: false,
+        casts: [],
+        total: 0,
+        error: 'Invalid cursor'
+      };
+    }
+  }
   
   try {
-    // Get active cast hashes
-    const activeHashes = await redis.smembers('casts:active');
+    const total = await store.getOrderedIndexSize(authorIndexKey(fid));
+    const { entries, hasMore } = await readOrderedPage(
+      store,
+      authorIndexKey(fid),
+      limit,
+      after ? 0 : (page - 1) * limit,
+      after
+    );
+    const casts = (await store.getCasts(entries.map(entry => entry.hash)))
+      .filter(cast => isCastLive(cast));
     
-    if (!activeHashes || activeHashes.length === 0) {
+    return {
+      success: true,
+      casts,
+      total,
+      page,
+      limit,
+      nextCursor: hasMore ? encodeFeedCursor(entries[entries.length - 1]) : null
+    };
+  } catch (error) {
+    console.error('Failed to get author casts:', error);
+    return {
+      success: false,
+      casts: [],
+      total: 0
+    };
+  }
+}
+
+/**
+ * Get live casts by trending score (lib/engagement.ts), highest first, read
+ * from casts:trending one batch at a time. Tag and date range filters are
+ * applied while paging. Paginates like getActiveCasts; casts the engagement
+ * job has not scored yet are listed once it has.
+ */
+export async function getTrendingCasts(
+  page: number = 1,
+  limit: number = 20,
+  cursor?: string | null,
+  filters: Pick<SearchFilters, 'tag' | 'dateRange'> = {}
+): Promise<CastsResponse<StoredCast>> {
+  const store = getCastStore();
+  
+  let after: ScoredHash | null = null;
+  if (cursor) {
+    after = decodeFeedCursor(cursor);
+    if (!after) {
       return {
-        success: true,
+        success: false,
         casts: [],
         total: 0,
-        page,
-        limit
+        error: 'Invalid cursor'
       };
     }
+  }
+  
+  const { tag, dateRange } = filters;
+  const matches = (cast: StoredCast) => {
+    if (tag && !cast.tags?.includes(tag)) {
+      return false;
+    }
+    const score = getFeedScore(cast);
+    return !dateRange || (score >= dateRange.start.getTime() && score <= dateRange.end.getTime());
+  };
+  
+  try {
+    const now = Date.now();
+    const found: { cast: StoredCast; entry: ScoredHash }[] = [];
+    let skip = after ? 0 : (page - 1) * limit;
+    let offset = 0;
     
-    // Get cast data for all hashes
-    const castKeys = activeHashes.map(hash => `casts:${hash}`);
-    const castDataArray = await redis.mget(...castKeys);
-    
-    const casts: StoredCast[] = castDataArray
-      .filter(data => data !== null)
-      .map(data => parseRedisData<StoredCast>(data))
-      .filter((cast): cast is StoredCast => cast !== null && cast.status === 'active')
-      .sort((a, b) => b.addedAt - a.addedAt); // Sort by newest first
-    
-    // Apply pagination
-    const startIndex = (page - 1) * limit;
-    const endIndex = startIndex + limit;
-    const paginatedCasts = casts.slice(startIndex, endIndex);
+    // One extra match to detect a following page
+    while (found.length <= limit) {
+      const batch = await store.getOrderedIndexRange('casts:trending', {
+        maxScore: after?.score,
+        offset,
+        count: TRENDING_BATCH_SIZE
+      });
+      // Entries sharing the cursor's score that sort at or above it were on an earlier page
+      const entries = batch.filter(entry => !(after && entry.score === after.score && entry.hash >= after.hash));
+      const casts = new Map((await store.getCasts(entries.map(entry => entry.hash))).map(cast => [cast.hash, cast]));
+      
+      for (const entry of entries) {
+        const cast = casts.get(entry.hash);
+        if (!cast || !isCastLive(cast, now) || !matches(cast)) {
+          continue;
+        }
+        if (skip > 0) {
+          skip--;
+          continue;
+        }
+        found.push({ cast, entry });
+        if (found.length > limit) {
+          break;
+        }
+      }
+      
+      if (batch.length < TRENDING_BATCH_SIZE) {
+        break;
+      }
+      offset += TRENDING_BATCH_SIZE;
+    }
     
+    const pageItems = found.slice(0, limit);
     return {
       success: true,
-      casts: paginatedCasts,
-      total: casts.length,
+      casts: pageItems.map(item => item.cast),
+      total: await store.getOrderedIndexSize('casts:trending'),
       page,
-      limit
+      limit,
+      nextCursor: found.length > limit ? encodeFeedCursor(pageItems[pageItems.length - 1].entry) : null
     };
   } catch (error) {
-    console.error('Failed to get active casts:', error);
+    console.error('Failed to get trending casts:', error);
     return {
       success: false,
       casts: [],
@@ -162,26 +766,18 @@ export async function getActiveCasts(
  * Get all casts (for admin view)
  */
 export async function getAllCasts(): Promise<StoredCast[]> {
-  if (!redis) {
-    return [];
-  }
+  const store = getCastStore();
   
   try {
     // Get all cast hashes
-    const allHashes = await redis.smembers('casts:all');
+    const allHashes = await store.getIndexMembers('casts:all');
     
-    if (!allHashes || allHashes.length === 0) {
+    if (allHashes.length === 0) {
       return [];
     }
     
     // Get cast data for all hashes
-    const castKeys = allHashes.map(hash => `casts:${hash}`);
-    const castDataArray = await redis.mget(...castKeys);
-    
-    const casts: StoredCast[] = castDataArray
-      .filter(data => data !== null)
-      .map(data => parseRedisData<StoredCast>(data))
-      .filter((cast): cast is StoredCast => cast !== null)
+    const casts: StoredCast[] = (await store.getCasts(allHashes))
       .sort((a, b) => b.addedAt - a.addedAt); // Sort by newest first
     
     return casts;
@@ -195,13 +791,8 @@ export async function getAllCasts(): Promise<StoredCast[]> {
  * Check if a cast already exists
  */
 export async function castExists(hash: string): Promise<boolean> {
-  if (!redis) {
-    return false;
-  }
-  
   try {
-    const exists = await redis.exists(`casts:${hash}`);
-    return Boolean(exists);
+    return await getCastStore().hasCast(hash);
   } catch (error) {
     console.error('Failed to check cast existence:', error);
     return false;
@@ -212,31 +803,8 @@ export async function castExists(hash: string): Promise<boolean> {
  * Get a specific cast by hash
  */
 export async function getCast(hash: string): Promise<StoredCast | null> {
-  if (!redis) {
-    return null;
-  }
-  
   try {
-    const castData = await redis.get(`casts:${hash}`);
-    if (!castData) {
-      return null;
-    }
-    
-    // Handle both string and object responses from Redis
-    if (typeof castData === 'string') {
-      try {
-        return JSON.parse(castData);
-      } catch (error) {
-        console.error('Failed to parse cast data in getCast:', castData, error);
-        return null;
-      }
-    } else if (typeof castData === 'object' && castData !== null) {
-      // Data is already parsed
-      return castData as StoredCast;
-    } else {
-      console.error('Unexpected data type from Redis in getCast:', typeof castData, castData);
-      return null;
-    }
+    return await getCastStore().getCast(hash);
   } catch (error) {
     console.error('Failed to get cast:', error);
     return null;
@@ -244,48 +812,15 @@ export async function getCast(hash: string): Promise<StoredCast | null> {
 }
 
 /**
- * Search and filter casts
+ * Search casts with SearchFilters (lib/search.ts), in the requested order.
+ * Each result carries the index terms it matched as `highlights`.
  */
 export async function searchCasts(
-  query: string = '',
-  activeOnly: boolean = true
-): Promise<StoredCast[]> {
-  if (!redis) {
-    return [];
-  }
-  
+  filters: SearchFilters
+): Promise<Array<StoredCast & { highlights?: string[] }>> {
   try {
-    const casts = activeOnly ? await getActiveCasts() : { casts: await getAllCasts() };
-    
-    if (!query.trim()) {
-      return casts.casts;
-    }
-    
-    const lowercaseQuery = query.toLowerCase();
-    
-    return casts.casts.filter(cast => {
-      // Search in metadata content
-      if (cast.metadata?.content?.toLowerCase().includes(lowercaseQuery)) {
-        return true;
-      }
-      
-      // Search in metadata author
-      if (cast.metadata?.author?.toLowerCase().includes(lowercaseQuery)) {
-        return true;
-      }
-      
-      // Search in hash
-      if (cast.hash.toLowerCase().includes(lowercaseQuery)) {
-        return true;
-      }
-      
-      // Search in addedBy
-      if (cast.addedBy.toLowerCase().includes(lowercaseQuery)) {
-        return true;
-      }
-      
-      return false;
-    });
+    const results = await searchCastsWithFilters(filters);
+    return results.map(result => ({ ...result.cast, highlights: result.highlights }));
   } catch (error) {
     console.error('Failed to search casts:', error);
     return [];
@@ -293,62 +828,30 @@ export async function searchCasts(
 }
 
 /**
- * Generate CSV export data
+ * Generate CSV export data for casts already in memory.
+ * Honors the status, dateRange and columns filters; use streamCastExport
+ * in lib/export.ts to export straight from the store.
  */
 export function generateCSVExport(
   casts: StoredCast[],
   config: ExportConfig
 ): string {
-  const headers = [
-    'Hash',
-    'Added By',
-    'Added At',
-    'Status',
-    ...(config.includeMetadata ? ['Author', 'Content', 'Cast Timestamp'] : [])
-  ];
+  const columns = resolveExportColumns(config);
   
   const rows = casts
-    .filter(cast => {
-      if (config.dateRange) {
-        const castDate = new Date(cast.addedAt);
-        return castDate >= config.dateRange.start && castDate <= config.dateRange.end;
-      }
-      return true;
-    })
-    .map(cast => {
-      const baseRow = [
-        cast.hash,
-        cast.addedBy,
-        new Date(cast.addedAt).toISOString(),
-        cast.status
-      ];
-      
-      if (config.includeMetadata) {
-        baseRow.push(
-          cast.metadata?.author || '',
-          (cast.metadata?.content || '').replace(/"/g, '""'), // Escape quotes
-          cast.metadata?.timestamp ? new Date(cast.metadata.timestamp).toISOString() : ''
-        );
-      }
-      
-      return baseRow;
-    });
-  
-  // Combine headers and rows
-  const csvContent = [headers, ...rows]
-    .map(row => row.map(cell => `"${cell}"`).join(','))
-    .join('\n');
+    .filter(cast => matchesExportFilters(cast, config))
+    .map(cast => formatExportRecord(cast, columns, 'csv'));
   
-  return csvContent;
+  return [formatCSVRow(columns.map(column => EXPORT_COLUMNS[column].label)), ...rows].join('\n');
 }
 
 /**
- * Generate filename for CSV export
+ * Generate filename for an export in the given format
  */
-export function generateExportFilename(): string {
+export function generateExportFilename(format: ExportFormat = 'csv'): string {
   const now = new Date();
   const dateStr = now.toISOString().split('T')[0]; // YYYY-MM-DD
-  return `base-chat-feed-casts-${dateStr}.csv`;
+  return `base-chat-feed-casts-${dateStr}.${format}`;
 }
 
 /**